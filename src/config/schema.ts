@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { ROOT_NAME_PATTERN } from '../security/validator.js';
 
 /**
  * サーバー設定スキーマ
@@ -15,6 +16,8 @@ export const ServerConfigSchema = z.object({
     version: z.string().regex(/^\d+\.\d+\.\d+$/),
     maxConcurrentRequests: z.number().int().min(1).max(100),
     requestTimeoutMs: z.number().int().min(1000).max(60000),
+    maxQueueSize: z.number().int().min(0).max(1000).optional(),
+    queueTimeoutMs: z.number().int().min(1000).max(300000).optional(),
   }),
   tools: z.object({
     allowedTools: z.array(z.string()).min(1),
@@ -26,6 +29,7 @@ export const ServerConfigSchema = z.object({
         .max(100 * 1024 * 1024), // 1KB to 100MB
       allowedDirectories: z.array(z.string()),
       blockedPatterns: z.array(z.string()),
+      backupCount: z.number().int().min(1).max(50).optional(),
     }),
   }),
   logging: z.object({
@@ -43,6 +47,17 @@ export const ServerConfigSchema = z.object({
     enforceProjectRoot: z.boolean(),
     allowDestructiveOperations: z.boolean(),
   }),
+  workspace: z
+    .object({
+      // プロジェクトルートに加えて公開するルート（パスは `name:relative/path` 形式で指定できる）
+      roots: z.array(
+        z.object({
+          name: z.string().regex(ROOT_NAME_PATTERN),
+          path: z.string().min(1),
+        })
+      ),
+    })
+    .optional(),
 });
 
 /**
@@ -68,14 +83,24 @@ export const DEFAULT_CONFIG: ServerConfig = {
     version: '1.0.0',
     maxConcurrentRequests: 10,
     requestTimeoutMs: 5000,
+    maxQueueSize: 100,
+    queueTimeoutMs: 30000,
   },
   tools: {
     allowedTools: [
       'read_file',
       'write_file',
+      'edit_file',
+      'apply_patch',
+      'delete_path',
+      'move_path',
+      'copy_path',
+      'create_directory',
       'list_directory',
       'get_project_info',
+      'list_workspaces',
       'search_files',
+      'search_content',
       'get_workspace_structure',
       'open_file_in_editor',
       'get_active_file',
@@ -90,6 +115,7 @@ export const DEFAULT_CONFIG: ServerConfig = {
       maxFileSize: 10 * 1024 * 1024, // 10MB
       allowedDirectories: [],
       blockedPatterns: ['node_modules/**', '.git/**', 'dist/**', 'build/**'],
+      backupCount: 5,
     },
   },
   logging: {
@@ -35,7 +35,7 @@ export class CursorIntegrationManager {
   private changeCallbacks: CursorConfigChangeCallback[] = [];
   private reloadTimeout: NodeJS.Timeout | null = null;
   private strictEnvMode: boolean;
-  private logger = getLogger();
+  private logger = getLogger().child('cursor-integration');
 
   constructor(options: CursorIntegrationOptions = {}) {
     // Cursor設定ファイルのパスを決定
@@ -12,7 +12,8 @@ import {
   TimeoutError,
   ResourceExhaustedError,
   BusinessRuleViolationError,
-} from './index';
+  CancelledError,
+} from './index.js';
 
 /**
  * JSON-RPCエラーコード
@@ -194,6 +195,8 @@ export class ErrorHandler {
       if (error.limit !== undefined) data.limit = error.limit;
     } else if (error instanceof BusinessRuleViolationError) {
       if (error.ruleId) data.ruleId = error.ruleId;
+    } else if (error instanceof CancelledError) {
+      if (error.reason) data.reason = error.reason;
     }
 
     return data;
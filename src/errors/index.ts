@@ -14,6 +14,7 @@ export enum ErrorCode {
   TIMEOUT_ERROR = 'TIMEOUT_ERROR',
   RESOURCE_EXHAUSTED = 'RESOURCE_EXHAUSTED',
   BUSINESS_RULE_VIOLATION = 'BUSINESS_RULE_VIOLATION',
+  CANCELLED = 'CANCELLED',
   INTERNAL_ERROR = 'INTERNAL_ERROR',
 }
 
@@ -184,3 +185,20 @@ export class BusinessRuleViolationError extends MCPError {
     this.ruleId = ruleId;
   }
 }
+
+/**
+ * キャンセルエラー
+ */
+export class CancelledError extends MCPError {
+  public readonly reason?: string;
+
+  constructor(
+    message: string,
+    reason?: string,
+    context?: ErrorContext
+  ) {
+    super(ErrorCode.CANCELLED, message, context);
+    this.name = 'CancelledError';
+    this.reason = reason;
+  }
+}
@@ -8,25 +8,34 @@
  */
 
 import { getLogger } from './logging/index.js';
+import { McpServer } from './server.js';
 
 const logger = getLogger();
 
 logger.info('CursorCLI-MCP Server starting...');
 
-// TODO: Implement server initialization
-// This will be implemented in Task 4.1
-
-process.on('SIGINT', async () => {
-  logger.info('Server shutting down...');
-
-  try {
-    await logger.shutdown();
-    process.exit(0);
-  } catch (error) {
-    logger.error(
-      'Error during shutdown',
-      error instanceof Error ? error : new Error(String(error))
-    );
-    process.exit(1);
-  }
+const server = new McpServer();
+
+// サーバー停止時にログをフラッシュする
+// （stdinのクローズ時は停止後にイベントループが空になり、そのまま終了する）
+server.onStop(() => logger.shutdown());
+
+const handleSignal = (signal: NodeJS.Signals) => {
+  logger.info('Server shutting down...', { signal });
+
+  server.stop().then(
+    () => process.exit(0),
+    (error) => {
+      console.error('Error during shutdown:', error);
+      process.exit(1);
+    }
+  );
+};
+
+process.on('SIGINT', handleSignal);
+process.on('SIGTERM', handleSignal);
+
+server.start().catch((error) => {
+  logger.error('Failed to start server', error instanceof Error ? error : new Error(String(error)));
+  void server.stop().finally(() => process.exit(1));
 });
@@ -2,5 +2,6 @@
  * Logging Module Exports
  */
 
-export { LoggingSystem, getLogger, resetLogger } from './logger.js';
+export { LoggingSystem, SubsystemLogger, getLogger, resetLogger } from './logger.js';
+export { LOGGING_LEVELS, isLoggingLevel } from './mcp-transport.js';
 export type { LogLevel, LogOutput, LoggingConfig } from './logger.js';
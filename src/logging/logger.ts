@@ -3,11 +3,14 @@
  *
  * Winston をベースにしたロギングシステム。
  * 複数の出力先（コンソール、ファイル、Output panel）をサポートします。
+ * MCPクライアントへの転送（notifications/message）は connectMcp で有効にします。
  */
 
 import winston from 'winston';
 import DailyRotateFile from 'winston-daily-rotate-file';
+import type { LoggingLevel, LoggingMessageParams } from '../protocol/types.js';
 import type { LogContext } from '../types/index.js';
+import { LOGGING_LEVELS, McpLogTransport, toLogLevel, toLoggingLevel } from './mcp-transport.js';
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 export type LogOutput = 'console' | 'file' | 'cursor-output-panel';
@@ -20,6 +23,11 @@ export interface LoggingConfig {
   rotationCount?: number;
 }
 
+/**
+ * ログレベルの詳細度（値が小さいほど詳細）
+ */
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
 const DEFAULT_CONFIG: LoggingConfig = {
   level: 'info',
   outputs: ['console'],
@@ -34,6 +42,9 @@ const DEFAULT_CONFIG: LoggingConfig = {
 export class LoggingSystem {
   private logger: winston.Logger;
   private config: LoggingConfig;
+  /** コンソール・ファイルへの出力（設定のログレベルを適用する） */
+  private outputTransports: winston.transport[] = [];
+  private mcpTransport: McpLogTransport | null = null;
 
   constructor(config: Partial<LoggingConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -47,9 +58,12 @@ export class LoggingSystem {
     const transports: winston.transport[] = [];
 
     // コンソール出力
+    // stdoutはJSON-RPCトランスポートが使用するため、全レベルをstderrへ出力する
     if (this.config.outputs.includes('console')) {
       transports.push(
         new winston.transports.Console({
+          level: this.config.level,
+          stderrLevels: ['debug', 'info', 'warn', 'error'],
           format: winston.format.combine(
             winston.format.colorize(),
             winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
@@ -66,6 +80,7 @@ export class LoggingSystem {
     if (this.config.outputs.includes('file') && this.config.logFile) {
       transports.push(
         new DailyRotateFile({
+          level: this.config.level,
           filename: this.config.logFile.replace('.log', '-%DATE%.log'),
           datePattern: 'YYYY-MM-DD',
           maxSize: this.config.maxLogSize,
@@ -78,6 +93,7 @@ export class LoggingSystem {
       );
     }
 
+    this.outputTransports = transports;
     return winston.createLogger({
       level: this.config.level,
       transports,
@@ -143,12 +159,85 @@ export class LoggingSystem {
     });
   }
 
+  /**
+   * サブシステムのロガーを取得する
+   *
+   * 記録するログに logger（サブシステム名）を付与する
+   */
+  child(subsystem: string): SubsystemLogger {
+    return new SubsystemLogger(this, subsystem);
+  }
+
   /**
    * ログレベルの変更
    */
   setLevel(level: LogLevel): void {
     this.config.level = level;
-    this.logger.level = level;
+    for (const transport of this.outputTransports) {
+      transport.level = level;
+    }
+    this.applyLoggerLevel();
+  }
+
+  /**
+   * MCPクライアントへのログの転送を開始する
+   *
+   * 転送するレベルは logging/setLevel で変更されるまで設定のログレベルとする。
+   * 既に転送中の場合は転送先を置き換える
+   */
+  connectMcp(
+    send: (params: LoggingMessageParams) => void,
+    options: { maxMessagesPerSecond?: number } = {}
+  ): void {
+    this.disconnectMcp();
+
+    this.mcpTransport = new McpLogTransport(send, {
+      level: toLoggingLevel(this.config.level),
+      maxMessagesPerSecond: options.maxMessagesPerSecond,
+    });
+    this.logger.add(this.mcpTransport.transport);
+    this.applyLoggerLevel();
+  }
+
+  /**
+   * MCPクライアントへのログの転送を停止する
+   */
+  disconnectMcp(): void {
+    if (!this.mcpTransport) {
+      return;
+    }
+
+    this.logger.remove(this.mcpTransport.transport);
+    this.mcpTransport = null;
+    this.applyLoggerLevel();
+  }
+
+  /**
+   * MCPクライアントへ転送するログの最低レベルを変更する（logging/setLevel）
+   *
+   * コンソール・ファイルへの出力のレベルには影響しない。転送していない場合は何もしない
+   */
+  setMcpLevel(level: LoggingLevel): void {
+    if (!LOGGING_LEVELS.includes(level)) {
+      throw new Error(`Invalid logging level: ${String(level)}`);
+    }
+    if (!this.mcpTransport) {
+      return;
+    }
+
+    this.mcpTransport.setLevel(level);
+    this.applyLoggerLevel();
+  }
+
+  /**
+   * Winstonロガーのレベルを、出力先のうち最も詳細なレベルに合わせる
+   */
+  private applyLoggerLevel(): void {
+    const mcpLevel = this.mcpTransport ? toLogLevel(this.mcpTransport.getLevel()) : null;
+    this.logger.level =
+      mcpLevel && LEVEL_ORDER[mcpLevel] < LEVEL_ORDER[this.config.level]
+        ? mcpLevel
+        : this.config.level;
   }
 
   /**
@@ -166,6 +255,46 @@ export class LoggingSystem {
   }
 }
 
+/**
+ * サブシステムのロガー
+ *
+ * LoggingSystem.child で作成し、ログに logger（サブシステム名）を付与して記録する
+ */
+export class SubsystemLogger {
+  constructor(
+    private readonly system: LoggingSystem,
+    readonly name: string
+  ) {}
+
+  /**
+   * DEBUGレベルのログ記録
+   */
+  debug(message: string, context?: LogContext): void {
+    this.system.debug(message, { ...context, logger: this.name });
+  }
+
+  /**
+   * INFOレベルのログ記録
+   */
+  info(message: string, context?: LogContext): void {
+    this.system.info(message, { ...context, logger: this.name });
+  }
+
+  /**
+   * WARNレベルのログ記録
+   */
+  warn(message: string, error?: Error, context?: LogContext): void {
+    this.system.warn(message, error, { ...context, logger: this.name });
+  }
+
+  /**
+   * ERRORレベルのログ記録
+   */
+  error(message: string, error?: Error, context?: LogContext): void {
+    this.system.error(message, error, { ...context, logger: this.name });
+  }
+}
+
 /**
  * グローバルロガーインスタンス（シングルトン）
  */
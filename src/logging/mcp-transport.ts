@@ -0,0 +1,182 @@
+/**
+ * MCP Log Transport
+ *
+ * ログを MCP の notifications/message として接続中のクライアントへ転送する Winston トランスポート
+ *
+ * クライアントが logging/setLevel で指定したレベル以上のログ（localOnly のログを除く）のみを転送し、
+ * 1秒あたりの転送数を制限する（超過分は破棄し、次の期間に最初に転送する際に破棄した件数を通知する）
+ */
+
+import { Writable } from 'stream';
+import winston from 'winston';
+import type { LoggingLevel, LoggingMessageParams } from '../protocol/types.js';
+import type { LogLevel } from './logger.js';
+
+/**
+ * MCPのログレベル（重大度の低い順）
+ */
+export const LOGGING_LEVELS: readonly LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+/**
+ * 1秒あたりに転送するログ数の上限のデフォルト値
+ */
+export const DEFAULT_MAX_MESSAGES_PER_SECOND = 20;
+
+/**
+ * 転送数を数える期間（ミリ秒）
+ */
+const RATE_LIMIT_WINDOW_MS = 1000;
+
+/**
+ * サーバーのログレベルに対応するMCPのログレベル
+ */
+const MCP_LEVELS: Record<LogLevel, LoggingLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+};
+
+/**
+ * MCPのログレベルとして有効な値か判定する
+ */
+export function isLoggingLevel(value: unknown): value is LoggingLevel {
+  return typeof value === 'string' && (LOGGING_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * サーバーのログレベルをMCPのログレベルに変換する
+ */
+export function toLoggingLevel(level: LogLevel): LoggingLevel {
+  return MCP_LEVELS[level];
+}
+
+/**
+ * MCPのログレベル以上のログを記録するために必要なサーバーのログレベル
+ */
+export function toLogLevel(level: LoggingLevel): LogLevel {
+  const severity = LOGGING_LEVELS.indexOf(level);
+  const found = (Object.keys(MCP_LEVELS) as LogLevel[]).find(
+    (logLevel) => LOGGING_LEVELS.indexOf(MCP_LEVELS[logLevel]) >= severity
+  );
+  return found ?? 'error';
+}
+
+/**
+ * McpLogTransportのオプション
+ */
+export interface McpLogTransportOptions {
+  /** 転送するログの最低レベル */
+  level: LoggingLevel;
+  /** 1秒あたりに転送するログ数の上限 */
+  maxMessagesPerSecond?: number;
+}
+
+/**
+ * MCP Log Transport
+ */
+export class McpLogTransport {
+  /** LoggingSystem の Winston ロガーに追加するトランスポート */
+  readonly transport: winston.transport;
+  private level: LoggingLevel;
+  private readonly maxMessagesPerSecond: number;
+  private windowStartedAt = 0;
+  private sentInWindow = 0;
+  private dropped = 0;
+
+  constructor(
+    private readonly send: (params: LoggingMessageParams) => void,
+    options: McpLogTransportOptions
+  ) {
+    this.level = options.level;
+    this.maxMessagesPerSecond = options.maxMessagesPerSecond ?? DEFAULT_MAX_MESSAGES_PER_SECOND;
+    this.transport = new winston.transports.Stream({
+      stream: new Writable({
+        objectMode: true,
+        write: (info: winston.Logform.TransformableInfo, _encoding, callback) => {
+          this.forward(info);
+          callback();
+        },
+      }),
+    });
+  }
+
+  /**
+   * 転送するログの最低レベルを変更する
+   */
+  setLevel(level: LoggingLevel): void {
+    this.level = level;
+  }
+
+  /**
+   * 転送するログの最低レベルを取得する
+   */
+  getLevel(): LoggingLevel {
+    return this.level;
+  }
+
+  /**
+   * ログを通知に変換して転送する
+   */
+  private forward(info: winston.Logform.TransformableInfo): void {
+    const level = MCP_LEVELS[info.level as LogLevel];
+    if (!level || LOGGING_LEVELS.indexOf(level) < LOGGING_LEVELS.indexOf(this.level)) {
+      return;
+    }
+    if (info.localOnly === true) {
+      return;
+    }
+    if (!this.acquire()) {
+      return;
+    }
+
+    // サブシステム名は logger として分離し、メッセージとコンテキストを data とする
+    const { logger } = info;
+    const data: Record<string, unknown> = { ...info };
+    delete data.level;
+    delete data.logger;
+    this.send({
+      level,
+      ...(typeof logger === 'string' ? { logger } : {}),
+      data,
+    });
+  }
+
+  /**
+   * 転送数の上限を確認する（新しい期間では、先に前の期間までに破棄した件数を通知する）
+   */
+  private acquire(): boolean {
+    const now = Date.now();
+    if (now - this.windowStartedAt >= RATE_LIMIT_WINDOW_MS) {
+      this.windowStartedAt = now;
+      this.sentInWindow = 0;
+
+      if (this.dropped > 0) {
+        const dropped = this.dropped;
+        this.dropped = 0;
+        this.sentInWindow++;
+        this.send({
+          level: 'warning',
+          logger: 'logging',
+          data: { message: 'Log messages dropped by rate limit', dropped },
+        });
+      }
+    }
+
+    if (this.sentInWindow >= this.maxMessagesPerSecond) {
+      this.dropped++;
+      return false;
+    }
+    this.sentInWindow++;
+    return true;
+  }
+}
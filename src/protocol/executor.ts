@@ -5,8 +5,19 @@
  * Requirements: 5.4, 8.1, 8.2
  */
 
+import { z } from 'zod';
+import {
+  BusinessRuleViolationError,
+  CancelledError,
+  NotFoundError,
+  ResourceExhaustedError,
+  TimeoutError,
+  ValidationError,
+} from '../errors/index.js';
+import { ExecutionMetrics, type ExecutionMetricsSnapshot } from './metrics.js';
 import type { ToolRegistry } from './registry.js';
-import type { CallToolResult } from './types.js';
+import { DestructiveOperationGuard } from '../security/confirmation.js';
+import type { CallToolResult, ToolResponseContent } from './types.js';
 
 /**
  * 実行設定
@@ -14,32 +25,199 @@ import type { CallToolResult } from './types.js';
 export interface ExecutorConfig {
   maxConcurrency: number;
   timeoutMs: number;
+  /** 実行枠の空きを待つリクエストの最大数（0の場合は待機せず即座に拒否） */
+  maxQueueSize?: number;
+  /** 実行枠の空きを待つ最大時間（省略時はtimeoutMsと同じ） */
+  queueTimeoutMs?: number;
+  /** タイムアウト・キャンセル後にハンドラーの完了を待って実行枠を保持する最大時間 */
+  abortGracePeriodMs?: number;
+}
+
+/**
+ * 登録済みツール
+ */
+type RegisteredTool = NonNullable<ReturnType<ToolRegistry['get']>>;
+
+/**
+ * 実行状況の統計
+ */
+export interface ExecutorStats extends ExecutionMetricsSnapshot {
+  activeCount: number;
+  queuedCount: number;
+  /** 猶予期間を過ぎても完了していないタイムアウト・キャンセル済みのハンドラー数 */
+  orphanedCount: number;
+  maxConcurrency: number;
+  maxQueueSize: number;
+}
+
+/**
+ * 待機キューのデフォルト最大数
+ */
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+
+/**
+ * タイムアウト・キャンセル後に実行枠を保持するデフォルトの最大時間
+ */
+const DEFAULT_ABORT_GRACE_PERIOD_MS = 5000;
+
+/**
+ * 実行枠の待機者
+ */
+interface Waiter {
+  priority: number;
+  grant: (release: () => void) => void;
 }
 
 /**
  * セマフォ（並行実行制御）
  *
  * Requirement 8.2: 同時接続数が設定された最大値に達した場合、新規接続を拒否
+ * - 実行枠が空いていない場合は優先度順（同一優先度は到着順）のキューで待機する
+ * - キュー自体が満杯の場合にのみ ResourceExhaustedError で拒否する
  */
 class Semaphore {
   private permits: number;
+  private readonly limit: number;
+  private readonly maxQueueSize: number;
+  private readonly queueTimeoutMs: number;
+  private readonly waiters: Waiter[] = [];
 
-  constructor(permits: number) {
+  constructor(permits: number, maxQueueSize: number, queueTimeoutMs: number) {
     this.permits = permits;
+    this.limit = permits;
+    this.maxQueueSize = maxQueueSize;
+    this.queueTimeoutMs = queueTimeoutMs;
   }
 
-  acquire(): () => void {
-    if (this.permits <= 0) {
-      throw new Error('Maximum concurrent executions reached');
+  /**
+   * 実行枠を取得する
+   *
+   * @returns 実行枠を解放する関数
+   */
+  acquire(toolName: string, priority: number, signal?: AbortSignal): Promise<() => void> {
+    if (this.permits > 0) {
+      this.permits--;
+      return Promise.resolve(this.createRelease());
+    }
+
+    if (this.waiters.length >= this.maxQueueSize) {
+      return Promise.reject(
+        new ResourceExhaustedError(
+          'Maximum concurrent executions reached and execution queue is full',
+          'execution_queue',
+          this.waiters.length,
+          this.maxQueueSize,
+          { toolName, maxConcurrency: this.limit }
+        )
+      );
     }
 
-    this.permits--;
-    return () => this.release();
+    return new Promise((resolve, reject) => {
+      const leave = (error: Error) => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+        }
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      };
+      const onAbort = () => leave(signal?.reason as Error);
+
+      const waiter: Waiter = {
+        priority,
+        grant: (release) => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        },
+      };
+
+      const timer = setTimeout(() => {
+        leave(
+          new TimeoutError(
+            `Timed out waiting for an execution slot: ${this.queueTimeoutMs}ms`,
+            toolName,
+            this.queueTimeoutMs
+          )
+        );
+      }, this.queueTimeoutMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // 優先度の高い順に並べ、同一優先度の場合は到着順を維持する
+      const index = this.waiters.findIndex((w) => w.priority < priority);
+      this.waiters.splice(index === -1 ? this.waiters.length : index, 0, waiter);
+    });
+  }
+
+  /**
+   * 実行中の数を取得する
+   */
+  getActiveCount(): number {
+    return this.limit - this.permits;
+  }
+
+  /**
+   * 最大並行数を取得する
+   */
+  getLimit(): number {
+    return this.limit;
+  }
+
+  /**
+   * 待機キューの最大数を取得する
+   */
+  getMaxQueueSize(): number {
+    return this.maxQueueSize;
+  }
+
+  /**
+   * 待機中の数を取得する
+   */
+  getQueuedCount(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * 一度だけ実行枠を解放する関数を生成する
+   */
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      // 待機者がいる場合は実行枠をそのまま引き渡す
+      const next = this.waiters.shift();
+      if (next) {
+        next.grant(this.createRelease());
+      } else {
+        this.permits++;
+      }
+    };
   }
+}
+
+/**
+ * ツール自身がdryRunパラメータを持つか判定する
+ */
+function supportsDryRun(schema: z.ZodType): boolean {
+  return schema instanceof z.ZodObject && 'dryRun' in schema.shape;
+}
 
-  private release(): void {
-    this.permits++;
+/**
+ * 確認トークンの対象となるパラメータ（dryRunを除く）を取得する
+ */
+function withoutDryRun(params: unknown): unknown {
+  if (typeof params !== 'object' || params === null) {
+    return params;
   }
+
+  const rest = { ...(params as Record<string, unknown>) };
+  delete rest.dryRun;
+  return rest;
 }
 
 /**
@@ -48,54 +226,286 @@ class Semaphore {
  * Requirement 5.4: 同時に複数のツール呼び出しリクエストを受信した際、各リクエストを独立して処理
  * Requirement 8.1: ツール実行時間が5秒を超過した場合、タイムアウトエラーを返却
  * Requirement 8.2: 同時接続数が設定された最大値に達した場合、新規接続を拒否
+ * （待機キューが満杯になるまでは実行枠の空きを待つ）
  */
 export class ToolExecutor {
   private registry: ToolRegistry;
   private semaphore: Semaphore;
   private timeoutMs: number;
+  private readonly abortGracePeriodMs: number;
+  /** 猶予期間を過ぎても完了していないハンドラー */
+  private readonly orphaned = new Set<Promise<CallToolResult>>();
+  private readonly metrics = new ExecutionMetrics();
+  private readonly guard: DestructiveOperationGuard;
 
-  constructor(registry: ToolRegistry, config: ExecutorConfig) {
+  constructor(
+    registry: ToolRegistry,
+    config: ExecutorConfig,
+    guard: DestructiveOperationGuard = new DestructiveOperationGuard({
+      allowDestructiveOperations: true,
+    })
+  ) {
     this.registry = registry;
-    this.semaphore = new Semaphore(config.maxConcurrency);
+    this.guard = guard;
+    this.semaphore = new Semaphore(
+      config.maxConcurrency,
+      config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE,
+      config.queueTimeoutMs ?? config.timeoutMs
+    );
     this.timeoutMs = config.timeoutMs;
+    this.abortGracePeriodMs = config.abortGracePeriodMs ?? DEFAULT_ABORT_GRACE_PERIOD_MS;
+  }
+
+  /**
+   * 実行中のツール数を取得する
+   */
+  getActiveCount(): number {
+    return this.semaphore.getActiveCount();
+  }
+
+  /**
+   * 実行枠の空きを待っているツール数を取得する
+   */
+  getQueuedCount(): number {
+    return this.semaphore.getQueuedCount();
+  }
+
+  /**
+   * 並行実行状況と実行統計を取得する
+   */
+  getStats(): ExecutorStats {
+    return {
+      activeCount: this.semaphore.getActiveCount(),
+      queuedCount: this.semaphore.getQueuedCount(),
+      orphanedCount: this.orphaned.size,
+      maxConcurrency: this.semaphore.getLimit(),
+      maxQueueSize: this.semaphore.getMaxQueueSize(),
+      ...this.metrics.snapshot(),
+    };
   }
 
   /**
    * ツールを実行する
+   *
+   * タイムアウトまたは外部signalのabort時はツールへ渡したsignalをabortし、即座に拒否する
    */
-  async execute(toolName: string, params: Record<string, unknown>): Promise<CallToolResult> {
+  async execute(
+    toolName: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<CallToolResult> {
     // ツールの存在確認
     const tool = this.registry.get(toolName);
     if (!tool) {
-      throw new Error(`Tool not found: ${toolName}`);
+      throw new NotFoundError(`Tool not found: ${toolName}`, 'tool', toolName);
+    }
+
+    // 登録済みツールの実行のみを統計に記録する（待機時間を含む）
+    const startedAt = performance.now();
+    try {
+      const result = await this.run(tool, toolName, params, signal);
+      this.metrics.record(toolName, performance.now() - startedAt, result.isError || undefined);
+      return result;
+    } catch (error) {
+      this.metrics.record(toolName, performance.now() - startedAt, error);
+      throw error;
     }
+  }
 
+  /**
+   * 有効性確認・バリデーション・破壊的操作の確認を経てツールを実行する
+   *
+   * 破壊的操作は security.allowDestructiveOperations が無効な場合、
+   * dryRun: true の呼び出しで発行された確認トークンを要求する
+   * ドライランに対応していないツールは、破壊的でない呼び出しでも dryRun: true では実行しない
+   */
+  private async run(
+    tool: RegisteredTool,
+    toolName: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<CallToolResult> {
     // ツールの有効性確認
     if (!this.registry.isEnabled(toolName)) {
-      throw new Error(`Tool disabled: ${toolName}`);
+      throw new BusinessRuleViolationError(`Tool disabled: ${toolName}`, 'TOOL_DISABLED', {
+        toolName,
+      });
+    }
+
+    // 確認トークンはツール本体に渡さない
+    const { confirmationToken, ...toolParams } = params;
+    const dryRun = toolParams.dryRun === true;
+
+    // パラメータのバリデーション（不正なパラメータでは実行枠を消費しない）
+    const validatedParams = this.validateParams(tool.schema, toolParams, toolName);
+
+    // 破壊的操作の確認
+    if (this.isDestructive(tool, validatedParams)) {
+      const scope = withoutDryRun(validatedParams);
+
+      if (dryRun) {
+        const issued = this.guard.issueToken(toolName, scope);
+        const confirmation: ToolResponseContent = {
+          type: 'text',
+          text: JSON.stringify(
+            { dryRun: true, confirmationToken: issued.token, expiresAt: issued.expiresAt },
+            null,
+            2
+          ),
+        };
+
+        // ツール自身がドライランに対応していない場合は実行しない
+        if (!supportsDryRun(tool.schema)) {
+          return { content: [confirmation] };
+        }
+
+        const preview = await this.invoke(tool, toolName, validatedParams, signal);
+        return { ...preview, content: [...preview.content, confirmation] };
+      }
+
+      this.guard.authorize(
+        toolName,
+        scope,
+        typeof confirmationToken === 'string' ? confirmationToken : undefined
+      );
+    } else if (dryRun && tool.destructive !== false && !supportsDryRun(tool.schema)) {
+      // 確認用パラメータを公開しているツールは、確認が不要な呼び出しでもドライランでは実行しない
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ dryRun: true, confirmationRequired: false }, null, 2),
+          },
+        ],
+      };
+    }
+
+    return this.invoke(tool, toolName, validatedParams, signal);
+  }
+
+  /**
+   * 破壊的操作かどうかを判定する
+   */
+  private isDestructive(tool: RegisteredTool, params: unknown): boolean {
+    return typeof tool.destructive === 'function' ? tool.destructive(params) : tool.destructive;
+  }
+
+  /**
+   * 実行枠を取得し、タイムアウトとキャンセルを監視しながらツールを実行する
+   */
+  private async invoke(
+    tool: RegisteredTool,
+    toolName: string,
+    validatedParams: unknown,
+    signal?: AbortSignal
+  ): Promise<CallToolResult> {
+    const cancellationReason = (): Error =>
+      signal?.reason instanceof Error
+        ? signal.reason
+        : new CancelledError(`Tool execution cancelled: ${toolName}`, undefined, { toolName });
+
+    // 実行前にキャンセル済みの場合は実行枠を待たない
+    if (signal?.aborted) {
+      throw cancellationReason();
     }
 
-    // 並行実行制御（Requirement 8.2: 最大並行数到達時は即座に拒否）
-    const release = this.semaphore.acquire();
+    // 並行実行制御（Requirement 8.2: 実行枠が空くまで優先度順に待機）
+    let release: () => void;
+    try {
+      release = await this.semaphore.acquire(toolName, tool.priority, signal);
+    } catch (error) {
+      throw signal?.aborted ? cancellationReason() : error;
+    }
+
+    const controller = new AbortController();
+    const onExternalAbort = () => controller.abort(cancellationReason());
+    let timer: NodeJS.Timeout | undefined;
+    let executionPromise: Promise<CallToolResult> | undefined;
 
     try {
-      // パラメータのバリデーション
-      const validatedParams = tool.schema.parse(params);
+      // 実行枠の取得後にキャンセル済みの場合はツールを起動しない
+      if (signal?.aborted) {
+        throw cancellationReason();
+      }
+      signal?.addEventListener('abort', onExternalAbort, { once: true });
 
-      // タイムアウト付きでツールを実行
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error(`Tool execution timeout exceeded: ${this.timeoutMs}ms`));
-        }, this.timeoutMs);
+      const abortPromise = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener(
+          'abort',
+          () => reject(controller.signal.reason as Error),
+          { once: true }
+        );
       });
 
-      const executionPromise = tool.handler(validatedParams);
+      // タイムアウト付きでツールを実行
+      timer = setTimeout(() => {
+        controller.abort(
+          new TimeoutError(
+            `Tool execution timeout exceeded: ${this.timeoutMs}ms`,
+            toolName,
+            this.timeoutMs
+          )
+        );
+      }, this.timeoutMs);
+
+      executionPromise = tool.handler(validatedParams, controller.signal);
 
-      const result = await Promise.race([executionPromise, timeoutPromise]);
+      const result = await Promise.race([executionPromise, abortPromise]);
 
       return result;
     } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onExternalAbort);
+
+      // タイムアウトやキャンセル後もハンドラーは処理を続けることがあるため、
+      // 実行枠はハンドラーの完了まで（最長で猶予期間まで）解放しない
+      if (executionPromise && controller.signal.aborted) {
+        this.holdUntilSettled(executionPromise, release);
+      } else {
+        release();
+      }
+    }
+  }
+
+  /**
+   * abort後も処理を続けるハンドラーの完了を待って実行枠を解放する
+   *
+   * abortを無視して完了しないハンドラーで実行枠が枯渇しないよう、猶予期間を過ぎた時点で
+   * 実行枠を解放し、ハンドラーは完了するまで orphaned として追跡する
+   */
+  private holdUntilSettled(execution: Promise<CallToolResult>, release: () => void): void {
+    const timer = setTimeout(() => {
+      this.orphaned.add(execution);
       release();
+    }, this.abortGracePeriodMs);
+    timer.unref();
+
+    const settle = () => {
+      clearTimeout(timer);
+      this.orphaned.delete(execution);
+      release();
+    };
+    void execution.then(settle, settle);
+  }
+
+  /**
+   * パラメータをスキーマで検証し、失敗時はValidationErrorに変換する
+   */
+  private validateParams(schema: z.ZodType, params: Record<string, unknown>, toolName: string) {
+    const parsed = schema.safeParse(params);
+    if (!parsed.success) {
+      const firstIssue = parsed.error.issues[0];
+      const field = firstIssue?.path.join('.');
+      throw new ValidationError(
+        `Invalid parameters for ${toolName}: ${parsed.error.issues
+          .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+          .join(', ')}`,
+        field || undefined,
+        field ? params[firstIssue.path[0]] : params,
+        { toolName }
+      );
     }
+
+    return parsed.data as unknown;
   }
 }
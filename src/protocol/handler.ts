@@ -2,9 +2,15 @@
  * MCP Protocol Handler
  *
  * MCPプロトコルハンドラーの実装
- * Requirements: 1.1, 1.2, 1.3, 1.4
+ * Requirements: 1.1, 1.2, 1.3, 1.4, 5.4
  */
 
+import { NotFoundError, ValidationError } from '../errors/index.js';
+import { ErrorHandler } from '../errors/handler.js';
+import { getLogger, isLoggingLevel } from '../logging/index.js';
+import type { ErrorResponse } from '../errors/handler.js';
+import type { ToolExecutor } from './executor.js';
+import type { ToolRegistry } from './registry.js';
 import type {
   InitializeRequest,
   InitializeResult,
@@ -13,7 +19,19 @@ import type {
   CallToolResult,
   ClientInfo,
   ServerInfo,
-  ToolDefinition,
+  ListResourcesRequest,
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+  ReadResourceRequest,
+  ReadResourceResult,
+  ResourceContents,
+  ResourceTemplate,
+  SubscribeRequest,
+  Prompt,
+  ListPromptsResult,
+  GetPromptRequest,
+  GetPromptResult,
+  SetLevelRequest,
 } from './types.js';
 
 /**
@@ -24,6 +42,34 @@ export interface ServerConfig {
   version: string;
 }
 
+/**
+ * リソースの提供元
+ *
+ * resources/* メソッドの実体。購読中のリソースが変更された場合は onUpdated のリスナーを呼び出す
+ */
+export interface ResourceProvider {
+  listResources(cursor?: string, signal?: AbortSignal): Promise<ListResourcesResult>;
+  listResourceTemplates(): Promise<ResourceTemplate[]>;
+  readResource(uri: string, signal?: AbortSignal): Promise<ResourceContents[]>;
+  subscribe(uri: string): Promise<void>;
+  unsubscribe(uri: string): Promise<void>;
+  onUpdated(listener: (uri: string) => void): void;
+}
+
+/**
+ * プロンプトの提供元
+ *
+ * prompts/* メソッドの実体
+ */
+export interface PromptProvider {
+  listPrompts(): Promise<Prompt[]>;
+  getPrompt(
+    name: string,
+    args: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<GetPromptResult>;
+}
+
 /**
  * プロトコルバージョン不一致エラー
  */
@@ -47,13 +93,26 @@ export class NotInitializedError extends Error {
 /**
  * ツール未発見エラー
  */
-export class ToolNotFoundError extends Error {
+export class ToolNotFoundError extends NotFoundError {
   constructor(toolName: string) {
-    super(`Tool not found: ${toolName}`);
+    super(`Tool not found: ${toolName}`, 'tool', toolName);
     this.name = 'ToolNotFoundError';
   }
 }
 
+/**
+ * JSON-RPCエラーレスポンスに変換済みのエラー
+ */
+export class JSONRPCResponseError extends Error {
+  public readonly response: ErrorResponse;
+
+  constructor(response: ErrorResponse) {
+    super(response.error.message);
+    this.name = 'JSONRPCResponseError';
+    this.response = response;
+  }
+}
+
 /**
  * サポートされているプロトコルバージョン
  */
@@ -66,13 +125,27 @@ export class MCPProtocolHandler {
   private initialized = false;
   private clientInfo: ClientInfo | null = null;
   private readonly serverInfo: ServerInfo;
-  private readonly tools: Map<string, ToolDefinition> = new Map();
+  private readonly registry: ToolRegistry;
+  private readonly executor: ToolExecutor;
+  private readonly resources: ResourceProvider | null;
+  private readonly prompts: PromptProvider | null;
+  private readonly errorHandler = new ErrorHandler();
 
-  constructor(config: ServerConfig) {
+  constructor(
+    config: ServerConfig,
+    registry: ToolRegistry,
+    executor: ToolExecutor,
+    resources?: ResourceProvider,
+    prompts?: PromptProvider
+  ) {
     this.serverInfo = {
       name: config.name,
       version: config.version,
     };
+    this.registry = registry;
+    this.executor = executor;
+    this.resources = resources ?? null;
+    this.prompts = prompts ?? null;
   }
 
   /**
@@ -98,8 +171,12 @@ export class MCPProtocolHandler {
     return {
       protocolVersion: request.protocolVersion,
       capabilities: {
-        tools: {},
+        // 許可リストの変更時に notifications/tools/list_changed を送信する
+        tools: { listChanged: true },
         logging: {},
+        // 購読中のリソースの変更時に notifications/resources/updated を送信する
+        ...(this.resources ? { resources: { subscribe: true } } : {}),
+        ...(this.prompts ? { prompts: {} } : {}),
       },
       serverInfo: this.serverInfo,
     };
@@ -114,23 +191,112 @@ export class MCPProtocolHandler {
     this.ensureInitialized();
 
     return {
-      tools: Array.from(this.tools.values()),
+      tools: this.registry.list(),
     };
   }
 
   /**
    * ツールを呼び出す
+   *
+   * Requirement 5.4: ToolExecutorを経由してタイムアウトと並行数制御を適用
+   * signalがabortされた場合（クライアントからのキャンセル）はツール実行も中断される
+   * 実行時のエラーはErrorHandlerでJSON-RPCエラーレスポンスに変換し、JSONRPCResponseErrorとしてスローする
    */
-  async callTool(request: CallToolRequest): Promise<CallToolResult> {
+  async callTool(
+    request: CallToolRequest,
+    requestId: string | number | null = null,
+    signal?: AbortSignal
+  ): Promise<CallToolResult> {
     this.ensureInitialized();
 
-    const tool = this.tools.get(request.name);
-    if (!tool) {
-      throw new ToolNotFoundError(request.name);
+    try {
+      if (!this.registry.has(request.name)) {
+        throw new ToolNotFoundError(request.name);
+      }
+
+      return await this.executor.execute(request.name, request.arguments ?? {}, signal);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      throw new JSONRPCResponseError(this.errorHandler.handleError(err, requestId));
     }
+  }
 
-    // ツール実装は後続タスクで追加
-    throw new Error('Not implemented');
+  /**
+   * リソース一覧を取得する
+   */
+  async listResources(
+    request: ListResourcesRequest = {},
+    signal?: AbortSignal
+  ): Promise<ListResourcesResult> {
+    const resources = this.ensureResources();
+    return resources.listResources(request.cursor, signal);
+  }
+
+  /**
+   * リソーステンプレート一覧を取得する
+   */
+  async listResourceTemplates(): Promise<ListResourceTemplatesResult> {
+    const resources = this.ensureResources();
+    return { resourceTemplates: await resources.listResourceTemplates() };
+  }
+
+  /**
+   * リソースを読み取る
+   */
+  async readResource(
+    request: ReadResourceRequest,
+    signal?: AbortSignal
+  ): Promise<ReadResourceResult> {
+    const resources = this.ensureResources();
+    return { contents: await resources.readResource(this.requireUri(request), signal) };
+  }
+
+  /**
+   * リソースの変更通知を購読する
+   */
+  async subscribeResource(request: SubscribeRequest): Promise<void> {
+    const resources = this.ensureResources();
+    await resources.subscribe(this.requireUri(request));
+  }
+
+  /**
+   * リソースの変更通知の購読を解除する
+   */
+  async unsubscribeResource(request: SubscribeRequest): Promise<void> {
+    const resources = this.ensureResources();
+    await resources.unsubscribe(this.requireUri(request));
+  }
+
+  /**
+   * プロンプト一覧を取得する
+   */
+  async listPrompts(): Promise<ListPromptsResult> {
+    const prompts = this.ensurePrompts();
+    return { prompts: await prompts.listPrompts() };
+  }
+
+  /**
+   * 引数を展開したプロンプトを取得する
+   */
+  async getPrompt(request: GetPromptRequest, signal?: AbortSignal): Promise<GetPromptResult> {
+    const prompts = this.ensurePrompts();
+    const name = request?.name as unknown;
+    if (typeof name !== 'string' || name === '') {
+      throw new ValidationError('name is required', 'name', name);
+    }
+    return prompts.getPrompt(name, request.arguments ?? {}, signal);
+  }
+
+  /**
+   * クライアントへ転送するログの最低レベルを変更する（logging/setLevel）
+   */
+  setLogLevel(request: SetLevelRequest): void {
+    this.ensureInitialized();
+    const level = request?.level as unknown;
+    if (!isLoggingLevel(level)) {
+      throw new ValidationError(`Invalid log level: ${String(level)}`, 'level', level);
+    }
+    getLogger().setMcpLevel(level);
   }
 
   /**
@@ -169,4 +335,37 @@ export class MCPProtocolHandler {
       throw new NotInitializedError();
     }
   }
+
+  /**
+   * 初期化とリソースの提供元の有無をチェックする
+   */
+  private ensureResources(): ResourceProvider {
+    this.ensureInitialized();
+    if (!this.resources) {
+      throw new NotFoundError('Resources are not supported', 'capability', 'resources');
+    }
+    return this.resources;
+  }
+
+  /**
+   * 初期化とプロンプトの提供元の有無をチェックする
+   */
+  private ensurePrompts(): PromptProvider {
+    this.ensureInitialized();
+    if (!this.prompts) {
+      throw new NotFoundError('Prompts are not supported', 'capability', 'prompts');
+    }
+    return this.prompts;
+  }
+
+  /**
+   * リクエストのURIを取得する
+   */
+  private requireUri(request: { uri?: unknown } | undefined): string {
+    const uri = request?.uri;
+    if (typeof uri !== 'string' || uri === '') {
+      throw new ValidationError('uri is required', 'uri', uri);
+    }
+    return uri;
+  }
 }
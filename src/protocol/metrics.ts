@@ -0,0 +1,147 @@
+/**
+ * Execution Metrics
+ *
+ * ツール実行の呼び出し数・エラー数・レイテンシの集計
+ * Requirements: 8.1, 8.2
+ */
+
+import { ErrorCode, MCPError } from '../errors/index.js';
+
+/**
+ * レイテンシのパーセンタイル（ミリ秒）
+ */
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * ツールごとの実行統計
+ */
+export interface ToolExecutionStats {
+  calls: number;
+  errors: number;
+  latencyMs: LatencyPercentiles;
+}
+
+/**
+ * 実行統計のスナップショット
+ */
+export interface ExecutionMetricsSnapshot {
+  totalCalls: number;
+  totalErrors: number;
+  /** スローされたエラーのErrorCode別件数 */
+  errorsByCode: Partial<Record<ErrorCode, number>>;
+  latencyMs: LatencyPercentiles;
+  tools: Record<string, ToolExecutionStats>;
+}
+
+/**
+ * パーセンタイル計算に使用するサンプル数の上限
+ */
+const MAX_LATENCY_SAMPLES = 1000;
+
+/**
+ * 直近のレイテンシを保持するリングバッファ
+ */
+class LatencySamples {
+  private readonly samples: number[] = [];
+  private next = 0;
+
+  add(durationMs: number): void {
+    if (this.samples.length < MAX_LATENCY_SAMPLES) {
+      this.samples.push(durationMs);
+    } else {
+      this.samples[this.next] = durationMs;
+    }
+    this.next = (this.next + 1) % MAX_LATENCY_SAMPLES;
+  }
+
+  /**
+   * nearest-rank法でパーセンタイルを計算する
+   */
+  percentiles(): LatencyPercentiles {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const at = (p: number) =>
+      sorted.length === 0 ? 0 : sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+    return { p50: at(50), p95: at(95), p99: at(99) };
+  }
+}
+
+/**
+ * ツール単位の集計値
+ */
+interface ToolCounters {
+  calls: number;
+  errors: number;
+  latency: LatencySamples;
+}
+
+/**
+ * Execution Metrics
+ *
+ * ツールの実行結果を記録し、診断用の統計を提供する
+ * - ツールがisErrorの結果を返却した場合もエラーとして数える
+ * - errorsByCode はスローされたエラーのみを対象とする（MCPError以外はINTERNAL_ERROR）
+ */
+export class ExecutionMetrics {
+  private readonly tools = new Map<string, ToolCounters>();
+  private readonly errorsByCode = new Map<ErrorCode, number>();
+  private readonly latency = new LatencySamples();
+  private totalCalls = 0;
+  private totalErrors = 0;
+
+  /**
+   * 実行結果を記録する
+   *
+   * @param error - スローされたエラー（isErrorの結果の場合は true）
+   */
+  record(toolName: string, durationMs: number, error?: unknown): void {
+    let counters = this.tools.get(toolName);
+    if (!counters) {
+      counters = { calls: 0, errors: 0, latency: new LatencySamples() };
+      this.tools.set(toolName, counters);
+    }
+
+    counters.calls++;
+    counters.latency.add(durationMs);
+    this.totalCalls++;
+    this.latency.add(durationMs);
+
+    if (error === undefined) {
+      return;
+    }
+
+    counters.errors++;
+    this.totalErrors++;
+
+    if (error !== true) {
+      const code = error instanceof MCPError ? error.code : ErrorCode.INTERNAL_ERROR;
+      this.errorsByCode.set(code, (this.errorsByCode.get(code) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * 現在の統計を取得する
+   */
+  snapshot(): ExecutionMetricsSnapshot {
+    const tools: Record<string, ToolExecutionStats> = {};
+    for (const [name, counters] of this.tools) {
+      tools[name] = {
+        calls: counters.calls,
+        errors: counters.errors,
+        latencyMs: counters.latency.percentiles(),
+      };
+    }
+
+    return {
+      totalCalls: this.totalCalls,
+      totalErrors: this.totalErrors,
+      errorsByCode: Object.fromEntries(this.errorsByCode),
+      latencyMs: this.latency.percentiles(),
+      tools,
+    };
+  }
+}
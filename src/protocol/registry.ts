@@ -5,13 +5,27 @@
  * Requirement: 1.4
  */
 
+import { minimatch } from 'minimatch';
 import { z } from 'zod';
 import type { ToolDefinition, CallToolResult } from './types.js';
 
 /**
  * ツールハンドラー
+ *
+ * signalはタイムアウトまたはクライアントからのキャンセル時にabortされる
+ */
+export type ToolHandler<T = any> = (params: T, signal?: AbortSignal) => Promise<CallToolResult>;
+
+/**
+ * ツール実行の優先度
+ *
+ * 実行枠の空きを待つ間、値の大きいツールから順に実行される
  */
-export type ToolHandler<T = any> = (params: T) => Promise<CallToolResult>;
+export const ToolPriority = {
+  HIGH: 10,
+  NORMAL: 0,
+  LOW: -10,
+} as const;
 
 /**
  * ツール登録情報
@@ -21,8 +35,32 @@ export interface ToolRegistration<T extends z.ZodType = z.ZodType> {
   description?: string;
   schema: T;
   handler: ToolHandler<z.infer<T>>;
+  /** 実行優先度（デフォルト: ToolPriority.NORMAL） */
+  priority?: number;
+  /**
+   * 破壊的操作かどうか（パラメータに応じて判定する関数も指定可能）
+   *
+   * 破壊的操作は security.allowDestructiveOperations が無効な場合に確認トークンを要求される
+   */
+  destructive?: boolean | ((params: z.infer<T>) => boolean);
 }
 
+/**
+ * 破壊的操作の確認に使用する制御パラメータ
+ *
+ * 破壊的ツールの入力スキーマに追加され、ツール本体には渡されない
+ */
+export const CONFIRMATION_PARAMS = {
+  dryRun: {
+    type: 'boolean',
+    description: 'true の場合は実行せず、確認が必要な操作であれば確認トークンを発行する',
+  },
+  confirmationToken: {
+    type: 'string',
+    description: 'ドライランで発行された確認トークン',
+  },
+} as const;
+
 /**
  * 内部ツール情報
  */
@@ -31,19 +69,30 @@ interface InternalTool {
   description?: string;
   schema: z.ZodType;
   handler: ToolHandler;
+  priority: number;
+  destructive: boolean | ((params: unknown) => boolean);
   enabled: boolean;
 }
 
+/**
+ * 入力スキーマのプロパティ（JSON Schema）
+ */
+interface JsonSchemaProperty {
+  type: string;
+  description?: string;
+  enum?: string[];
+}
+
 /**
  * ZodスキーマをJSON Schemaに変換する
  */
-function zodToJsonSchema(schema: z.ZodType): any {
+function zodToJsonSchema(schema: z.ZodType): ToolDefinition['inputSchema'] {
   // 簡易的なZod -> JSON Schema変換
   // 実際のプロダクションではzod-to-json-schemaなどのライブラリを使用すべき
 
   if (schema instanceof z.ZodObject) {
-    const shape = schema._def.shape();
-    const properties: Record<string, any> = {};
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchemaProperty> = {};
     const required: string[] = [];
 
     for (const [key, value] of Object.entries(shape)) {
@@ -59,10 +108,10 @@ function zodToJsonSchema(schema: z.ZodType): any {
       } else if (value instanceof z.ZodEnum) {
         properties[key] = {
           type: 'string',
-          enum: value._def.values,
+          enum: value.options as string[],
         };
       } else if (value instanceof z.ZodOptional) {
-        const innerType = value._def.innerType;
+        const innerType = value._def.innerType as z.ZodType;
         properties[key] = zodToJsonSchema(innerType);
       } else {
         properties[key] = { type: 'object' };
@@ -84,6 +133,20 @@ function zodToJsonSchema(schema: z.ZodType): any {
   return { type: 'object' };
 }
 
+/**
+ * 破壊的操作の判定を内部の形式に変換する
+ *
+ * 判定関数にはスキーマで検証済みのパラメータが渡される
+ */
+function toDestructivePredicate<T extends z.ZodType>(
+  destructive: ToolRegistration<T>['destructive']
+): InternalTool['destructive'] {
+  if (typeof destructive === 'function') {
+    return (params) => destructive(params as z.infer<T>);
+  }
+  return destructive ?? false;
+}
+
 /**
  * Tool Registry
  *
@@ -105,6 +168,8 @@ export class ToolRegistry {
       description: registration.description,
       schema: registration.schema,
       handler: registration.handler,
+      priority: registration.priority ?? ToolPriority.NORMAL,
+      destructive: toDestructivePredicate(registration.destructive),
       enabled: true,
     });
   }
@@ -166,6 +231,31 @@ export class ToolRegistry {
     return tool?.enabled ?? false;
   }
 
+  /**
+   * 許可リストに従ってツールを有効化・無効化する
+   *
+   * 許可リストにはツール名またはglobパターン（例: editor_*）を指定できる
+   *
+   * @returns 有効状態が変化したツールが存在する場合は true
+   */
+  applyAllowList(allowedTools: string[]): boolean {
+    let changed = false;
+
+    for (const tool of this.tools.values()) {
+      const allowed = allowedTools.some((pattern) => minimatch(tool.name, pattern));
+      if (tool.enabled !== allowed) {
+        changed = true;
+        if (allowed) {
+          this.enable(tool.name);
+        } else {
+          this.disable(tool.name);
+        }
+      }
+    }
+
+    return changed;
+  }
+
   /**
    * 有効なツールの一覧を取得する
    */
@@ -179,10 +269,23 @@ export class ToolRegistry {
 
       const inputSchema = zodToJsonSchema(tool.schema);
 
+      if (tool.destructive === false) {
+        definitions.push({
+          name: tool.name,
+          description: tool.description,
+          inputSchema,
+        });
+        continue;
+      }
+
       definitions.push({
         name: tool.name,
         description: tool.description,
-        inputSchema,
+        inputSchema: {
+          ...inputSchema,
+          properties: { ...inputSchema.properties, ...CONFIRMATION_PARAMS },
+        },
+        annotations: { destructiveHint: true },
       });
     }
 
@@ -0,0 +1,386 @@
+/**
+ * JSON-RPC Router
+ *
+ * JSON-RPC 2.0メッセージの振り分け（リクエスト・通知・レスポンス・バッチ）
+ * Requirements: 1.5, 5.4
+ */
+
+import { CancelledError } from '../errors/index.js';
+import { ErrorHandler, JSONRPCErrorCode } from '../errors/handler.js';
+import { getLogger } from '../logging/index.js';
+import { JSONRPCResponseError } from './handler.js';
+import type { JSONRPCMessage } from './types.js';
+
+/**
+ * JSON-RPCリクエストID
+ */
+export type JSONRPCId = string | number | null;
+
+/**
+ * JSON-RPCパラメータ
+ */
+export type JSONRPCParams = JSONRPCMessage['params'];
+
+/**
+ * リクエストのコンテキスト
+ */
+export interface RequestContext {
+  id: JSONRPCId;
+  method: string;
+  signal: AbortSignal;
+}
+
+/**
+ * リクエストハンドラー
+ */
+export type RequestHandler = (params: JSONRPCParams, context: RequestContext) => Promise<unknown>;
+
+/**
+ * 通知ハンドラー
+ */
+export type NotificationHandler = (params: JSONRPCParams) => void | Promise<void>;
+
+/**
+ * メッセージ送信関数
+ */
+export type MessageSender = (message: JSONRPCMessage | JSONRPCMessage[]) => Promise<void>;
+
+/**
+ * JSON-RPCエラー
+ */
+export class JSONRPCError extends Error {
+  public readonly code: number;
+  public readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JSONRPCError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * メソッド未発見エラー
+ */
+export class MethodNotFoundError extends JSONRPCError {
+  constructor(method: string) {
+    super(JSONRPCErrorCode.METHOD_NOT_FOUND, `Method not found: ${method}`, { method });
+    this.name = 'MethodNotFoundError';
+  }
+}
+
+/**
+ * 不正リクエストエラー
+ */
+export class InvalidRequestError extends JSONRPCError {
+  constructor(message = 'Invalid Request') {
+    super(JSONRPCErrorCode.INVALID_REQUEST, message);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * 送信済みリクエストの待機情報
+ */
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * IDとして有効な値か判定する
+ */
+function isValidId(id: unknown): id is JSONRPCId {
+  return typeof id === 'string' || typeof id === 'number' || id === null;
+}
+
+/**
+ * JSON-RPC Router
+ *
+ * Requirement 1.5: JSON-RPC 2.0形式のメッセージ送受信を維持
+ * - idを持つリクエストには必ず1つのレスポンスを返却
+ * - 通知（idなし）にはレスポンスを返却しない
+ * - 受信したレスポンスは送信済みリクエストとidで対応付ける
+ * - キャンセルされたリクエストにはレスポンスを返却しない
+ * - バッチ（配列）には、通知を除いたレスポンスの配列を返却
+ */
+export class JSONRPCRouter {
+  private readonly send: MessageSender;
+  private readonly requestHandlers = new Map<string, RequestHandler>();
+  private readonly notificationHandlers = new Map<string, NotificationHandler>();
+  private readonly pendingRequests = new Map<string | number, PendingRequest>();
+  private readonly activeRequests = new Map<string | number, AbortController>();
+  private readonly errorHandler = new ErrorHandler();
+  private readonly logger = getLogger().child('protocol');
+  private nextRequestId = 1;
+
+  constructor(send: MessageSender) {
+    this.send = send;
+  }
+
+  /**
+   * リクエストハンドラーを登録する
+   */
+  onRequest(method: string, handler: RequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  /**
+   * 通知ハンドラーを登録する
+   */
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  /**
+   * 単一メッセージを処理し、必要であればレスポンスを送信する
+   */
+  async handleMessage(message: unknown): Promise<void> {
+    const response = await this.processMessage(message);
+    if (response) {
+      await this.sendSafely(response);
+    }
+  }
+
+  /**
+   * バッチメッセージを処理し、レスポンスの配列を送信する
+   */
+  async handleBatch(messages: unknown[]): Promise<void> {
+    // 空配列は単一の Invalid Request として扱う（JSON-RPC 2.0 仕様）
+    if (messages.length === 0) {
+      await this.sendSafely(this.buildError(null, new InvalidRequestError()));
+      return;
+    }
+
+    const responses = await Promise.all(messages.map((message) => this.processMessage(message)));
+    const filtered = responses.filter((response): response is JSONRPCMessage => response !== null);
+
+    // 全て通知の場合は何も返却しない
+    if (filtered.length > 0) {
+      await this.sendSafely(filtered);
+    }
+  }
+
+  /**
+   * クライアントへリクエストを送信し、対応するレスポンスを待つ
+   */
+  async request(method: string, params?: JSONRPCParams): Promise<unknown> {
+    const id = this.nextRequestId++;
+
+    const response = new Promise<unknown>((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+    });
+
+    try {
+      await this.send({ jsonrpc: '2.0', id, method, ...(params ? { params } : {}) });
+    } catch (error) {
+      this.pendingRequests.delete(id);
+      throw error;
+    }
+
+    return response;
+  }
+
+  /**
+   * クライアントへ通知を送信する
+   */
+  async notify(method: string, params?: JSONRPCParams): Promise<void> {
+    await this.sendSafely({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  /**
+   * 送信済みで未応答のリクエストを全て拒否する（切断時）
+   */
+  rejectPendingRequests(reason: Error): void {
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(reason);
+    }
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * 処理中のリクエストをキャンセルする
+   *
+   * @returns 該当するリクエストが処理中だった場合は true
+   */
+  cancel(id: string | number, reason?: string): boolean {
+    const controller = this.activeRequests.get(id);
+    if (!controller) {
+      return false;
+    }
+
+    controller.abort(new CancelledError(`Request cancelled: ${id}`, reason, { requestId: id }));
+    return true;
+  }
+
+  /**
+   * 処理中のリクエスト数を取得する
+   */
+  getActiveRequestCount(): number {
+    return this.activeRequests.size;
+  }
+
+  /**
+   * メッセージを分類して処理し、返却すべきレスポンスを返す
+   */
+  private async processMessage(raw: unknown): Promise<JSONRPCMessage | null> {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      return this.buildError(null, new InvalidRequestError());
+    }
+
+    const message = raw as Record<string, unknown>;
+    const hasId = 'id' in message;
+    const id = hasId && isValidId(message.id) ? message.id : null;
+
+    if (message.jsonrpc !== '2.0' || (hasId && !isValidId(message.id))) {
+      return this.buildError(id, new InvalidRequestError());
+    }
+
+    // レスポンス（method を持たず result または error を持つ）
+    if (message.method === undefined && ('result' in message || 'error' in message)) {
+      this.handleResponse(message as unknown as JSONRPCMessage);
+      return null;
+    }
+
+    const params = message.params;
+    if (
+      typeof message.method !== 'string' ||
+      (params !== undefined && (typeof params !== 'object' || params === null))
+    ) {
+      return hasId ? this.buildError(id, new InvalidRequestError()) : null;
+    }
+
+    if (!hasId) {
+      await this.handleNotification(message.method, params as JSONRPCParams);
+      return null;
+    }
+
+    return this.handleRequest(id, message.method, params as JSONRPCParams);
+  }
+
+  /**
+   * リクエストを処理する
+   */
+  private async handleRequest(
+    id: JSONRPCId,
+    method: string,
+    params: JSONRPCParams
+  ): Promise<JSONRPCMessage | null> {
+    // 処理中のリクエストとIDが重複する場合は拒否
+    if (id !== null && this.activeRequests.has(id)) {
+      return this.buildError(id, new InvalidRequestError(`Duplicate request id: ${id}`));
+    }
+
+    const handler = this.requestHandlers.get(method);
+    if (!handler) {
+      return this.buildError(id, new MethodNotFoundError(method));
+    }
+
+    // id が null のリクエストはキャンセル対象として参照できないため登録しない
+    const controller = new AbortController();
+    if (id !== null) {
+      this.activeRequests.set(id, controller);
+    }
+
+    try {
+      const result = await handler(params, { id, method, signal: controller.signal });
+      if (controller.signal.aborted) {
+        return null;
+      }
+      return { jsonrpc: '2.0', id, result: result === undefined ? {} : result };
+    } catch (error) {
+      // キャンセルされたリクエストにはレスポンスを返却しない（MCP仕様）
+      if (controller.signal.aborted) {
+        return null;
+      }
+      return this.buildError(id, error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      if (id !== null) {
+        this.activeRequests.delete(id);
+      }
+    }
+  }
+
+  /**
+   * 通知を処理する（未登録の通知は無視）
+   */
+  private async handleNotification(method: string, params: JSONRPCParams): Promise<void> {
+    const handler = this.notificationHandlers.get(method);
+    if (!handler) {
+      this.logger.debug('Ignoring unknown notification', { method });
+      return;
+    }
+
+    try {
+      await handler(params);
+    } catch (error) {
+      this.logger.error(
+        'Error handling notification',
+        error instanceof Error ? error : new Error(String(error)),
+        { method }
+      );
+    }
+  }
+
+  /**
+   * 受信したレスポンスを送信済みリクエストに対応付ける
+   */
+  private handleResponse(message: JSONRPCMessage): void {
+    const id = message.id;
+    const pending = id === undefined || id === null ? undefined : this.pendingRequests.get(id);
+    if (!pending || id === undefined || id === null) {
+      this.logger.debug('Ignoring response for unknown request', { requestId: id ?? undefined });
+      return;
+    }
+
+    this.pendingRequests.delete(id);
+    if (message.error) {
+      pending.reject(
+        new JSONRPCError(message.error.code, message.error.message, message.error.data)
+      );
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  /**
+   * エラーをJSON-RPCエラーレスポンスに変換する
+   */
+  private buildError(id: JSONRPCId, error: Error): JSONRPCMessage {
+    if (error instanceof JSONRPCResponseError) {
+      return { ...error.response, id };
+    }
+
+    if (error instanceof JSONRPCError) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.data !== undefined ? { data: error.data } : {}),
+        },
+      };
+    }
+
+    return this.errorHandler.handleError(error, id);
+  }
+
+  /**
+   * 送信失敗をログに記録する
+   *
+   * 送信失敗のログをクライアントへ転送すると再び送信に失敗し続けるため、転送しない
+   */
+  private async sendSafely(message: JSONRPCMessage | JSONRPCMessage[]): Promise<void> {
+    try {
+      await this.send(message);
+    } catch (error) {
+      this.logger.error(
+        'Failed to send message',
+        error instanceof Error ? error : new Error(String(error)),
+        { localOnly: true }
+      );
+    }
+  }
+}
@@ -6,6 +6,7 @@
  */
 
 import { Readable, Writable } from 'stream';
+import { JSONRPCErrorCode } from '../errors/handler.js';
 import type { JSONRPCMessage } from './types.js';
 
 /**
@@ -21,6 +22,11 @@ export interface TransportConfig {
  */
 type MessageHandler = (message: JSONRPCMessage) => void;
 
+/**
+ * バッチメッセージハンドラー
+ */
+type BatchHandler = (messages: unknown[]) => void;
+
 /**
  * エラーハンドラー
  */
@@ -45,6 +51,7 @@ export class StdioTransport {
   private buffer = '';
 
   private messageHandlers: MessageHandler[] = [];
+  private batchHandlers: BatchHandler[] = [];
   private errorHandlers: ErrorHandler[] = [];
   private closeHandlers: CloseHandler[] = [];
 
@@ -104,7 +111,7 @@ export class StdioTransport {
   /**
    * メッセージを送信する
    */
-  async send(message: JSONRPCMessage): Promise<void> {
+  async send(message: JSONRPCMessage | JSONRPCMessage[]): Promise<void> {
     if (!this.connected) {
       throw new Error('Transport not connected');
     }
@@ -163,6 +170,13 @@ export class StdioTransport {
     this.messageHandlers.push(handler);
   }
 
+  /**
+   * バッチメッセージ（JSON配列）ハンドラーを登録する
+   */
+  onBatch(handler: BatchHandler): void {
+    this.batchHandlers.push(handler);
+  }
+
   /**
    * エラーハンドラーを登録する
    */
@@ -195,13 +209,20 @@ export class StdioTransport {
         continue;
       }
 
+      let parsed: unknown;
       try {
-        const message = JSON.parse(line) as JSONRPCMessage;
-        this.emitMessage(message);
+        parsed = JSON.parse(line);
       } catch (error) {
-        this.emitError(
-          new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
+        const detail = error instanceof Error ? error.message : 'Unknown error';
+        this.replyParseError(detail);
+        this.emitError(new Error(`Invalid JSON: ${detail}`));
+        continue;
+      }
+
+      if (Array.isArray(parsed)) {
+        this.emitBatch(parsed);
+      } else {
+        this.emitMessage(parsed as JSONRPCMessage);
       }
     }
   }
@@ -215,6 +236,36 @@ export class StdioTransport {
     }
   }
 
+  /**
+   * バッチイベントを発火する
+   */
+  private emitBatch(messages: unknown[]): void {
+    for (const handler of this.batchHandlers) {
+      handler(messages);
+    }
+  }
+
+  /**
+   * 不正なJSONに対してPARSE_ERRORレスポンスを返却する（JSON-RPC 2.0 仕様: id は null）
+   */
+  private replyParseError(detail: string): void {
+    if (!this.connected) {
+      return;
+    }
+
+    this.send({
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: JSONRPCErrorCode.PARSE_ERROR,
+        message: 'Parse error',
+        data: { detail },
+      },
+    }).catch((error) => {
+      this.emitError(error instanceof Error ? error : new Error(String(error)));
+    });
+  }
+
   /**
    * エラーイベントを発火する
    */
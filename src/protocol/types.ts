@@ -57,6 +57,13 @@ export interface InitializeResult {
   serverInfo: ServerInfo;
 }
 
+/**
+ * ツールの振る舞いに関するヒント
+ */
+export interface ToolAnnotations {
+  destructiveHint?: boolean;
+}
+
 /**
  * ツール定義
  */
@@ -68,6 +75,7 @@ export interface ToolDefinition {
     properties?: Record<string, unknown>;
     required?: string[];
   };
+  annotations?: ToolAnnotations;
 }
 
 /**
@@ -115,6 +123,173 @@ export interface CallToolResult {
   isError?: boolean;
 }
 
+/**
+ * リソース
+ */
+export interface Resource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+/**
+ * リソーステンプレート（RFC 6570 のURIテンプレート）
+ */
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * リソース一覧リクエスト
+ */
+export interface ListResourcesRequest {
+  cursor?: string;
+}
+
+/**
+ * リソース一覧結果
+ */
+export interface ListResourcesResult {
+  resources: Resource[];
+  nextCursor?: string;
+}
+
+/**
+ * リソーステンプレート一覧結果
+ */
+export interface ListResourceTemplatesResult {
+  resourceTemplates: ResourceTemplate[];
+}
+
+/**
+ * リソースの内容（テキストは text、バイナリは base64 の blob）
+ */
+export type ResourceContents =
+  | {
+      uri: string;
+      mimeType?: string;
+      text: string;
+    }
+  | {
+      uri: string;
+      mimeType?: string;
+      blob: string;
+    };
+
+/**
+ * リソース読み取りリクエスト
+ */
+export interface ReadResourceRequest {
+  uri: string;
+}
+
+/**
+ * リソース読み取り結果
+ */
+export interface ReadResourceResult {
+  contents: ResourceContents[];
+}
+
+/**
+ * リソース購読リクエスト（resources/subscribe・resources/unsubscribe）
+ */
+export interface SubscribeRequest {
+  uri: string;
+}
+
+/**
+ * プロンプトの引数
+ */
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * プロンプト
+ */
+export interface Prompt {
+  name: string;
+  description?: string;
+  arguments?: PromptArgument[];
+}
+
+/**
+ * プロンプト一覧リクエスト
+ */
+export interface ListPromptsRequest {
+  cursor?: string;
+}
+
+/**
+ * プロンプト一覧結果
+ */
+export interface ListPromptsResult {
+  prompts: Prompt[];
+  nextCursor?: string;
+}
+
+/**
+ * プロンプト取得リクエスト
+ */
+export interface GetPromptRequest {
+  name: string;
+  arguments?: Record<string, string>;
+}
+
+/**
+ * プロンプトのメッセージ
+ */
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content:
+    | {
+        type: 'text';
+        text: string;
+      }
+    | {
+        type: 'resource';
+        resource: ResourceContents;
+      };
+}
+
+/**
+ * プロンプト取得結果
+ */
+export interface GetPromptResult {
+  description?: string;
+  messages: PromptMessage[];
+}
+
+/**
+ * ログレベル（RFC 5424 の重大度、重大度の低い順）
+ */
+export type LoggingLevel =
+  'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+/**
+ * ログレベル設定リクエスト（logging/setLevel）
+ */
+export interface SetLevelRequest {
+  level: LoggingLevel;
+}
+
+/**
+ * ログメッセージ通知のパラメータ（notifications/message）
+ */
+export interface LoggingMessageParams {
+  level: LoggingLevel;
+  /** ログを記録したサブシステム */
+  logger?: string;
+  data: unknown;
+}
+
 /**
  * エラーレスポンス
  */
@@ -0,0 +1,134 @@
+/**
+ * Destructive Operation Guard
+ *
+ * 破壊的操作の実行可否を判定し、確認トークンを管理します。
+ * - security.allowDestructiveOperations が無効な場合は確認トークンなしの実行を拒否
+ * - ドライラン呼び出しで、同一ツール・同一パラメータに限り一度だけ使える確認トークンを発行
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { BusinessRuleViolationError } from '../errors/index.js';
+
+/**
+ * DestructiveOperationGuardのオプション
+ */
+export interface DestructiveOperationGuardOptions {
+  allowDestructiveOperations: boolean;
+  /** 確認トークンの有効期間（デフォルト: 5分） */
+  tokenTtlMs?: number;
+}
+
+/**
+ * 確認トークン
+ */
+export interface ConfirmationToken {
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * 発行済みトークンの情報
+ */
+interface IssuedToken {
+  toolName: string;
+  paramsHash: string;
+  expiresAt: number;
+}
+
+const DEFAULT_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * パラメータのハッシュを計算する
+ */
+function hashParams(params: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(params) ?? '')
+    .digest('hex');
+}
+
+/**
+ * 破壊的操作ガード
+ */
+export class DestructiveOperationGuard {
+  private allowDestructiveOperations: boolean;
+  private readonly tokenTtlMs: number;
+  private readonly tokens = new Map<string, IssuedToken>();
+
+  constructor(options: DestructiveOperationGuardOptions) {
+    this.allowDestructiveOperations = options.allowDestructiveOperations;
+    this.tokenTtlMs = options.tokenTtlMs ?? DEFAULT_TOKEN_TTL_MS;
+  }
+
+  /**
+   * 破壊的操作の許可設定を変更する（設定のホットリロード時）
+   */
+  setAllowDestructiveOperations(allow: boolean): void {
+    this.allowDestructiveOperations = allow;
+  }
+
+  /**
+   * 確認トークンなしで破壊的操作が許可されているか
+   */
+  isAllowed(): boolean {
+    return this.allowDestructiveOperations;
+  }
+
+  /**
+   * 確認トークンを発行する
+   */
+  issueToken(toolName: string, params: unknown): ConfirmationToken {
+    this.pruneExpired();
+
+    const token = randomUUID();
+    const expiresAt = Date.now() + this.tokenTtlMs;
+    this.tokens.set(token, { toolName, paramsHash: hashParams(params), expiresAt });
+
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * 破壊的操作の実行を認可する
+   *
+   * 許可設定が無効な場合は、同一ツール・同一パラメータで発行された有効な確認トークンを要求する。
+   * 使用されたトークンは無効化される。
+   */
+  authorize(toolName: string, params: unknown, confirmationToken?: string): void {
+    if (this.allowDestructiveOperations) {
+      return;
+    }
+
+    if (confirmationToken === undefined) {
+      throw new BusinessRuleViolationError(
+        `Destructive operation requires confirmation: ${toolName}. ` +
+          'Call the tool with dryRun: true to obtain a confirmationToken.',
+        'DESTRUCTIVE_OPERATION_NOT_CONFIRMED',
+        { toolName }
+      );
+    }
+
+    this.pruneExpired();
+
+    const issued = this.tokens.get(confirmationToken);
+    if (!issued || issued.toolName !== toolName || issued.paramsHash !== hashParams(params)) {
+      throw new BusinessRuleViolationError(
+        `Invalid or expired confirmation token for ${toolName}`,
+        'INVALID_CONFIRMATION_TOKEN',
+        { toolName }
+      );
+    }
+
+    this.tokens.delete(confirmationToken);
+  }
+
+  /**
+   * 期限切れのトークンを削除する
+   */
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [token, issued] of this.tokens) {
+      if (issued.expiresAt <= now) {
+        this.tokens.delete(token);
+      }
+    }
+  }
+}
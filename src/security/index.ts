@@ -4,3 +4,5 @@
 
 export { SecurityValidator } from './validator.js';
 export type { SecurityError, SecurityValidatorOptions } from './validator.js';
+export { DestructiveOperationGuard } from './confirmation.js';
+export type { ConfirmationToken, DestructiveOperationGuardOptions } from './confirmation.js';
@@ -5,6 +5,8 @@
  * - パストラバーサル検出
  * - プロジェクトルート外アクセス防止
  * - ブロックパターンによるファイル除外
+ * - 許可ディレクトリ（allowedDirectories）外アクセス防止
+ * - マルチルートワークスペース（`ルート名:相対パス` 形式のパス指定）
  */
 
 import * as path from 'node:path';
@@ -16,20 +18,49 @@ import type { Result } from '../types/index.js';
  * セキュリティエラー
  */
 export interface SecurityError {
-  code: 'PATH_TRAVERSAL' | 'OUTSIDE_PROJECT_ROOT' | 'BLOCKED_PATTERN';
+  code: 'PATH_TRAVERSAL' | 'OUTSIDE_PROJECT_ROOT' | 'NOT_IN_ALLOWED_DIRECTORY' | 'BLOCKED_PATTERN';
   message: string;
   attemptedPath: string;
 }
 
+/**
+ * ワークスペースのルート（Cursor のマルチルートワークスペースに対応）
+ */
+export interface WorkspaceRoot {
+  /** パス指定の接頭辞（`name:relative/path`）として使用する名前 */
+  name: string;
+  path: string;
+}
+
 /**
  * SecurityValidatorのオプション
  */
 export interface SecurityValidatorOptions {
   projectRoot?: string;
+  /**
+   * プロジェクトルートに加えてアクセスを許可するルート
+   *
+   * パスはプロジェクトルートからの相対パスまたは絶対パスで指定する。
+   * プロジェクトルート自身の名前はディレクトリ名となる（同じパスのルートを指定すると名前を変更できる）
+   */
+  roots?: WorkspaceRoot[];
   blockedPatterns?: string[];
   enforceProjectRoot?: boolean;
+  /**
+   * アクセスを許可するディレクトリ（空の場合は制限なし）
+   *
+   * プロジェクトルートからの相対パス・絶対パス・`ルート名:相対パス`・globパターン（例: packages/app-*）を指定できる。
+   * globパターンは各ルートからの相対パスに一致させる
+   */
+  allowedDirectories?: string[];
 }
 
+/**
+ * 許可ディレクトリ
+ */
+type AllowedDirectory =
+  { kind: 'path'; realPath: string } | { kind: 'glob'; self: Minimatch; descendants: Minimatch };
+
 const DEFAULT_BLOCKED_PATTERNS = [
   'node_modules/**',
   '.git/**',
@@ -38,14 +69,37 @@ const DEFAULT_BLOCKED_PATTERNS = [
   '.cursorcli-mcp/**',
 ];
 
+/**
+ * ルート名として使用できる文字列
+ */
+export const ROOT_NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+/**
+ * `ルート名:相対パス` 形式のパス
+ */
+const ROOT_PREFIXED_PATH = /^([A-Za-z0-9][\w.-]*):(.*)$/s;
+
+/**
+ * targetがbase自体またはその配下かを判定
+ */
+function isWithin(base: string, target: string): boolean {
+  const relativePath = path.relative(base, target);
+
+  // 相対パスが ../ で始まる場合は base の外
+  // 空文字列の場合は base 自体なので許可
+  return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
 /**
  * セキュリティバリデーター
  */
 export class SecurityValidator {
   private projectRoot: string;
+  private roots: WorkspaceRoot[];
   private blockedPatterns: string[];
   private compiledPatterns: Minimatch[];
   private enforceProjectRoot: boolean;
+  private allowedDirectories: AllowedDirectory[];
 
   constructor(options: SecurityValidatorOptions = {}) {
     // ルートを絶対・正規化し、可能なら物理パスに解決
@@ -60,6 +114,7 @@ export class SecurityValidator {
         return absoluteRoot;
       }
     })();
+    this.roots = this.resolveRoots(options.roots ?? []);
     this.blockedPatterns = options.blockedPatterns || DEFAULT_BLOCKED_PATTERNS;
     this.enforceProjectRoot = options.enforceProjectRoot !== false;
 
@@ -74,15 +129,78 @@ export class SecurityValidator {
         nocase: isWindows, // Windows環境ではケースインセンシティブ
       });
     });
+
+    // 許可ディレクトリを解決（通常のパスは物理パスへ、globパターンはプリコンパイル）
+    this.allowedDirectories = (options.allowedDirectories ?? []).map((entry) => {
+      const posixEntry = entry.replace(/\\/g, '/').replace(/\/+$/, '');
+      const matcherOptions = { dot: true, nonegate: true, nocomment: true, nocase: isWindows };
+
+      if (new Minimatch(posixEntry, matcherOptions).hasMagic()) {
+        return {
+          kind: 'glob',
+          self: new Minimatch(posixEntry, matcherOptions),
+          descendants: new Minimatch(`${posixEntry}/**`, matcherOptions),
+        };
+      }
+
+      return { kind: 'path', realPath: this.resolvePhysicalPath(this.sanitizePath(entry)) };
+    });
+  }
+
+  /**
+   * ルートを解決する（プロジェクトルートを先頭とし、名前の重複は拒否する）
+   */
+  private resolveRoots(configured: WorkspaceRoot[]): WorkspaceRoot[] {
+    const roots: WorkspaceRoot[] = [
+      { name: path.basename(this.projectRoot), path: this.projectRoot },
+    ];
+
+    for (const root of configured) {
+      if (!ROOT_NAME_PATTERN.test(root.name)) {
+        throw new Error(`Invalid workspace root name: ${root.name}`);
+      }
+
+      const realPath = this.resolvePhysicalPath(path.resolve(this.projectRoot, root.path));
+      if (realPath === this.projectRoot) {
+        roots[0] = { name: root.name, path: realPath };
+      } else {
+        roots.push({ name: root.name, path: realPath });
+      }
+    }
+
+    const names = new Set<string>();
+    for (const root of roots) {
+      if (names.has(root.name)) {
+        throw new Error(`Duplicate workspace root name: ${root.name}`);
+      }
+      names.add(root.name);
+    }
+
+    return roots;
+  }
+
+  /**
+   * `ルート名:相対パス` 形式のパスを解析する（該当しない場合は null）
+   */
+  private parseRootPrefix(inputPath: string): { root: WorkspaceRoot; rest: string } | null {
+    const match = ROOT_PREFIXED_PATH.exec(inputPath);
+    const root = match ? this.roots.find((candidate) => candidate.name === match[1]) : undefined;
+    return match && root ? { root, rest: match[2] } : null;
   }
 
   /**
    * パスを正規化
+   *
+   * `ルート名:相対パス` 形式のパスは該当するルートからの相対パスとして解決する
    */
   sanitizePath(inputPath: string): string {
+    const prefixed = this.parseRootPrefix(inputPath);
+
     // path.resolveで相対パスを絶対パスに変換
     // 絶対パスの場合はpath.resolveが第2引数を優先するため、そのまま使用
-    const absolutePath = path.resolve(this.projectRoot, inputPath);
+    const absolutePath = prefixed
+      ? path.resolve(prefixed.root.path, prefixed.rest)
+      : path.resolve(this.projectRoot, inputPath);
 
     // OS ネイティブのセパレータと正規化を使用
     return path.normalize(absolutePath);
@@ -93,7 +211,7 @@ export class SecurityValidator {
    *
    * PATH_TRAVERSALとして扱うのは以下の条件を満たす場合のみ：
    * - 入力が相対パス（絶対パスではない）
-   * - 正規化後にプロジェクトルート外に解決される
+   * - 正規化後に全てのルートの外に解決される
    *
    * 絶対パスは後続のOUTSIDE_PROJECT_ROOTチェックで処理される
    */
@@ -109,9 +227,9 @@ export class SecurityValidator {
       return false;
     }
 
-    // 相対パスを正規化して、プロジェクトルート外に解決されるかチェック
+    // 相対パスを正規化して、ルート外に解決されるかチェック
     const sanitized = this.sanitizePath(inputPath);
-    return !this.isWithinProjectRoot(sanitized);
+    return !this.isWithinRoots(sanitized);
   }
 
   /**
@@ -121,28 +239,107 @@ export class SecurityValidator {
    * 物理パス（realpath）で比較を行う
    */
   isWithinProjectRoot(inputPath: string): boolean {
-    const sanitized = this.sanitizePath(inputPath);
+    const target = this.resolvePhysicalPath(this.sanitizePath(inputPath));
+    return isWithin(this.projectRoot, target);
+  }
+
+  /**
+   * いずれかのルート内かどうかを判定
+   */
+  isWithinRoots(inputPath: string): boolean {
+    return this.getRootFor(inputPath) !== undefined;
+  }
+
+  /**
+   * パスを含むルートを取得する（ルートが入れ子の場合は最も深いもの）
+   */
+  getRootFor(inputPath: string): WorkspaceRoot | undefined {
+    const target = this.resolvePhysicalPath(this.sanitizePath(inputPath));
+    let found: WorkspaceRoot | undefined;
+    for (const root of this.roots) {
+      if (isWithin(root.path, target) && (!found || isWithin(found.path, root.path))) {
+        found = root;
+      }
+    }
+    return found ? { ...found } : undefined;
+  }
+
+  /**
+   * 許可ディレクトリ内かどうかを判定
+   *
+   * 許可ディレクトリが未設定の場合は常に true。
+   * isWithinProjectRoot と同様に物理パス（realpath）で比較を行う
+   */
+  isWithinAllowedDirectories(inputPath: string): boolean {
+    if (this.allowedDirectories.length === 0) {
+      return true;
+    }
+
+    const target = this.resolvePhysicalPath(this.sanitizePath(inputPath));
+    const relativePath = this.toPosixRelative(target);
+
+    return this.allowedDirectories.some((allowed) =>
+      allowed.kind === 'path'
+        ? isWithin(allowed.realPath, target)
+        : allowed.self.match(relativePath) || allowed.descendants.match(relativePath)
+    );
+  }
+
+  /**
+   * 許可ディレクトリへ到達するために走査してよいディレクトリかを判定
+   *
+   * 許可ディレクトリ内に加え、許可ディレクトリの祖先（例: packages/app-* に対する packages）も
+   * 走査のみ許可する。プロジェクトルート外やブロックパターンに一致するパスは対象外
+   */
+  canTraverse(dirPath: string): boolean {
+    const result = this.validatePath(dirPath);
+    if (result.ok) {
+      return true;
+    }
+    if (result.error.code !== 'NOT_IN_ALLOWED_DIRECTORY') {
+      return false;
+    }
+
+    const sanitized = this.sanitizePath(dirPath);
+    if (this.matchesBlockedPattern(sanitized)) {
+      return false;
+    }
+
+    const target = this.resolvePhysicalPath(sanitized);
+    const relativePath = this.toPosixRelative(target);
+
+    return this.allowedDirectories.some((allowed) =>
+      allowed.kind === 'path'
+        ? isWithin(target, allowed.realPath)
+        : relativePath === '' || allowed.self.match(relativePath, true)
+    );
+  }
 
-    // 物理パスへ解決（対象が未作成の場合は親ディレクトリを解決）
-    let target = sanitized;
+  /**
+   * 物理パスへ解決する（対象が未作成の場合は親ディレクトリを解決）
+   */
+  private resolvePhysicalPath(sanitized: string): string {
     try {
-      target = fs.realpathSync.native(sanitized);
+      return fs.realpathSync.native(sanitized);
     } catch {
       // パスが存在しない場合、親ディレクトリの物理パスに basename を結合
       try {
         const dirReal = fs.realpathSync.native(path.dirname(sanitized));
-        target = path.join(dirReal, path.basename(sanitized));
+        return path.join(dirReal, path.basename(sanitized));
       } catch {
         // 親ディレクトリも解決できない場合は sanitized のまま比較
         // （新規作成予定のディレクトリ等）
+        return sanitized;
       }
     }
+  }
 
-    const relativePath = path.relative(this.projectRoot, target);
-
-    // 相対パスが ../ で始まる場合、プロジェクトルート外
-    // 空文字列の場合はプロジェクトルート自体なので許可
-    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+  /**
+   * パスを含むルート（ルート外の場合はプロジェクトルート）からの相対パスをPOSIX形式で取得する
+   */
+  private toPosixRelative(target: string): string {
+    const base = this.getRootFor(target)?.path ?? this.projectRoot;
+    return path.relative(base, target).replace(/\\/g, '/');
   }
 
   /**
@@ -153,12 +350,12 @@ export class SecurityValidator {
    */
   private matchesBlockedPattern(inputPath: string): boolean {
     const sanitized = this.sanitizePath(inputPath);
-    let relativePath = path.relative(this.projectRoot, sanitized);
 
     // minimatchはPOSIX形式のパス（/区切り）を期待するため、
     // すべてのバックスラッシュをスラッシュに変換
     // これによりWindows形式のパス（\区切り）もPOSIX形式に正規化される
-    relativePath = relativePath.replace(/\\/g, '/');
+    // パターンはパスを含むルートからの相対パスに一致させる
+    const relativePath = this.toPosixRelative(sanitized);
 
     // プリコンパイルされたパターンを使用してマッチング
     return this.compiledPatterns.some((matcher) => {
@@ -186,19 +383,36 @@ export class SecurityValidator {
       // 2. 正規化
       const sanitized = this.sanitizePath(inputPath);
 
-      // 3. プロジェクトルート外アクセスチェック
-      if (this.enforceProjectRoot && !this.isWithinProjectRoot(sanitized)) {
+      // 3. ルート外アクセスチェック
+      if (this.enforceProjectRoot && !this.isWithinRoots(sanitized)) {
         return {
           ok: false,
           error: {
             code: 'OUTSIDE_PROJECT_ROOT',
-            message: `Access denied. Path is outside project root: ${this.projectRoot}`,
+            message:
+              this.roots.length === 1
+                ? `Access denied. Path is outside project root: ${this.projectRoot}`
+                : `Access denied. Path is outside workspace roots: ${this.roots
+                    .map((root) => root.name)
+                    .join(', ')}`,
             attemptedPath: inputPath,
           },
         };
       }
 
-      // 4. ブロックパターンチェック
+      // 4. 許可ディレクトリチェック
+      if (!this.isWithinAllowedDirectories(sanitized)) {
+        return {
+          ok: false,
+          error: {
+            code: 'NOT_IN_ALLOWED_DIRECTORY',
+            message: 'Access denied. Path is not in an allowed directory.',
+            attemptedPath: inputPath,
+          },
+        };
+      }
+
+      // 5. ブロックパターンチェック
       if (this.matchesBlockedPattern(sanitized)) {
         return {
           ok: false,
@@ -234,6 +448,13 @@ export class SecurityValidator {
     return this.projectRoot;
   }
 
+  /**
+   * ルートの取得（プロジェクトルートが先頭）
+   */
+  getRoots(): WorkspaceRoot[] {
+    return this.roots.map((root) => ({ ...root }));
+  }
+
   /**
    * ブロックパターンの取得
    */
@@ -0,0 +1,451 @@
+/**
+ * MCP Server
+ *
+ * 設定・セキュリティ・ツール・プロトコル・トランスポートの各サブシステムを組み立て、
+ * stdio経由でJSON-RPCリクエストを処理するサーバー本体
+ * Requirements: 1.1-1.5, 5.4, 9.2
+ */
+
+import * as path from 'path';
+import type { Readable, Writable } from 'stream';
+import { ConfigurationManager } from './config/index.js';
+import type { ServerConfig } from './config/index.js';
+import { GlobalErrorHandler } from './errors/global-handler.js';
+import { getLogger } from './logging/index.js';
+import { ToolExecutor } from './protocol/executor.js';
+import { MCPProtocolHandler } from './protocol/handler.js';
+import { ToolRegistry } from './protocol/registry.js';
+import { JSONRPCRouter } from './protocol/router.js';
+import { StdioTransport } from './protocol/transport.js';
+import type {
+  CallToolRequest,
+  GetPromptRequest,
+  InitializeRequest,
+  ListResourcesRequest,
+  ReadResourceRequest,
+  SetLevelRequest,
+  SubscribeRequest,
+} from './protocol/types.js';
+import { DestructiveOperationGuard, SecurityValidator } from './security/index.js';
+import {
+  FileResourceProvider,
+  ProjectPromptProvider,
+  registerEditorControlTools,
+  registerFileOperationsTools,
+  registerModelInfoTools,
+  registerProjectManagementTools,
+  registerServerStatsTools,
+} from './tools/index.js';
+import type {
+  ActiveFileInfo,
+  ConfigLoadStats,
+  CursorEditorAPI,
+  CursorModelAPI,
+  EditResult,
+  FileOperationsTool,
+  ModelInfo,
+  OpenFileResult,
+  ProjectManagementTool,
+} from './tools/index.js';
+
+/**
+ * サーバーのオプション
+ */
+export interface McpServerOptions {
+  projectRoot?: string;
+  configDir?: string;
+  stdin?: Readable;
+  stdout?: Writable;
+  editorAPI?: CursorEditorAPI;
+  modelAPI?: CursorModelAPI;
+}
+
+/**
+ * 設定に関わらずツールからのアクセスを拒否するパターン
+ *
+ * サーバーのデータディレクトリ（ホットリロードされる設定ファイル・バックアップ・ゴミ箱）を
+ * ツールから読み書きさせず、許可リストや破壊的操作の設定を書き換えられないようにする
+ */
+const SERVER_DATA_PATTERNS = ['.cursorcli-mcp', '.cursorcli-mcp/**'];
+
+/**
+ * 停止コールバック
+ */
+export type StopCallback = () => void | Promise<void>;
+
+/**
+ * IDE未接続時のエディタAPI
+ *
+ * Cursor IDEとの通信手段が注入されない場合に使用し、常にIDE未起動として振る舞う
+ */
+class DetachedEditorAPI implements CursorEditorAPI {
+  isIDERunning(): Promise<boolean> {
+    return Promise.resolve(false);
+  }
+
+  openFile(): Promise<OpenFileResult> {
+    return Promise.reject(new Error('Cursor IDE is not running'));
+  }
+
+  getActiveFile(): Promise<ActiveFileInfo> {
+    return Promise.reject(new Error('Cursor IDE is not running'));
+  }
+
+  insertText(): Promise<EditResult> {
+    return Promise.reject(new Error('Cursor IDE is not running'));
+  }
+
+  replaceText(): Promise<EditResult> {
+    return Promise.reject(new Error('Cursor IDE is not running'));
+  }
+}
+
+/**
+ * Composer未接続時のモデルAPI
+ *
+ * ModelInfoToolはモデル情報取得失敗時にデフォルト値を返却する（Requirement 10.7）
+ */
+class DetachedModelAPI implements CursorModelAPI {
+  getCurrentModel(): Promise<ModelInfo> {
+    return Promise.reject(new Error('Cursor Composer is not connected'));
+  }
+}
+
+/**
+ * MCP Server
+ *
+ * Requirement 1.5: JSON-RPC 2.0形式のメッセージ送受信を維持
+ * Requirement 9.2: stdioトランスポート方式で通信を確立
+ */
+export class McpServer {
+  private readonly projectRoot: string;
+  private readonly configDir: string;
+  private readonly configManager: ConfigurationManager;
+  private readonly transport: StdioTransport;
+  private readonly registry = new ToolRegistry();
+  private readonly router: JSONRPCRouter;
+  private readonly globalErrorHandler = new GlobalErrorHandler();
+  private readonly editorAPI: CursorEditorAPI;
+  private readonly modelAPI: CursorModelAPI;
+  private readonly loggingSystem = getLogger();
+  private readonly logger = this.loggingSystem.child('server');
+
+  private config: ServerConfig | null = null;
+  private configLoadStats: ConfigLoadStats | null = null;
+  private executor: ToolExecutor | null = null;
+  private destructiveGuard: DestructiveOperationGuard | null = null;
+  private fileOperations: FileOperationsTool | null = null;
+  private projectManagement: ProjectManagementTool | null = null;
+  private resourceProvider: FileResourceProvider | null = null;
+  private startedAt: Date | null = null;
+  private stopCallbacks: StopCallback[] = [];
+  private inFlight = new Set<Promise<void>>();
+  private stoppingPromise: Promise<void> | null = null;
+
+  constructor(options: McpServerOptions = {}) {
+    this.projectRoot = path.resolve(options.projectRoot ?? process.cwd());
+    this.configDir = options.configDir ?? path.join(this.projectRoot, '.cursorcli-mcp');
+    this.configManager = new ConfigurationManager({ configDir: this.configDir });
+    this.transport = new StdioTransport({
+      stdin: options.stdin ?? process.stdin,
+      stdout: options.stdout ?? process.stdout,
+    });
+    this.router = new JSONRPCRouter((message) => this.transport.send(message));
+    this.editorAPI = options.editorAPI ?? new DetachedEditorAPI();
+    this.modelAPI = options.modelAPI ?? new DetachedModelAPI();
+  }
+
+  /**
+   * サーバーを起動する
+   *
+   * 設定の読み込み → セキュリティ検証器の構築 → ツール登録 → トランスポート接続の順に初期化する
+   */
+  async start(): Promise<void> {
+    if (this.config) {
+      throw new Error('Server already started');
+    }
+
+    const loadStartedAt = performance.now();
+    const config = await this.configManager.loadConfig();
+    this.config = config;
+    this.configLoadStats = {
+      loadedAt: new Date().toISOString(),
+      durationMs: performance.now() - loadStartedAt,
+    };
+    this.loggingSystem.setLevel(config.logging.level);
+
+    const securityValidator = new SecurityValidator({
+      projectRoot: this.projectRoot,
+      blockedPatterns: this.blockedPatternsFor(config),
+      allowedDirectories: config.tools.fileOperations.allowedDirectories,
+      enforceProjectRoot: config.security.enforceProjectRoot,
+      roots: config.workspace?.roots,
+    });
+    // シンボリックリンク解決後のルートをツール側でも使用する
+    const projectRoot = securityValidator.getProjectRoot();
+
+    this.fileOperations = registerFileOperationsTools(
+      this.registry,
+      securityValidator,
+      projectRoot,
+      {
+        maxFileSize: config.tools.fileOperations.maxFileSize,
+        backupCount: config.tools.fileOperations.backupCount,
+      }
+    );
+    const projectManagement = registerProjectManagementTools(
+      this.registry,
+      securityValidator,
+      projectRoot,
+      { maxFileSize: config.tools.fileOperations.maxFileSize }
+    );
+    this.projectManagement = projectManagement;
+    this.resourceProvider = new FileResourceProvider(
+      this.fileOperations,
+      securityValidator,
+      projectRoot
+    );
+    const editorControl = registerEditorControlTools(this.registry, this.editorAPI);
+    const promptProvider = new ProjectPromptProvider(
+      editorControl,
+      projectManagement,
+      this.resourceProvider,
+      securityValidator,
+      path.join(this.configDir, 'prompts')
+    );
+    registerModelInfoTools(this.registry, this.modelAPI);
+    registerServerStatsTools(this.registry, {
+      getStartedAt: () => this.startedAt,
+      getExecutorStats: () => this.executor?.getStats() ?? null,
+      getConfigLoadStats: () => this.configLoadStats,
+    });
+
+    // 設定の許可リストに含まれないツールは無効化する
+    this.registry.applyAllowList(config.tools.allowedTools);
+
+    this.destructiveGuard = new DestructiveOperationGuard({
+      allowDestructiveOperations: config.security.allowDestructiveOperations,
+    });
+    const executor = new ToolExecutor(
+      this.registry,
+      {
+        maxConcurrency: config.server.maxConcurrentRequests,
+        timeoutMs: config.server.requestTimeoutMs,
+        maxQueueSize: config.server.maxQueueSize,
+        queueTimeoutMs: config.server.queueTimeoutMs,
+      },
+      this.destructiveGuard
+    );
+    this.executor = executor;
+    const protocolHandler = new MCPProtocolHandler(
+      {
+        name: config.server.name,
+        version: config.server.version,
+      },
+      this.registry,
+      executor,
+      this.resourceProvider,
+      promptProvider
+    );
+    this.registerRoutes(protocolHandler);
+
+    // 購読中のリソースの変更をクライアントへ通知する
+    this.resourceProvider.onUpdated((uri) => {
+      this.track(this.router.notify('notifications/resources/updated', { uri }));
+    });
+
+    // 初期化後のログを notifications/message としてクライアントへ転送する
+    this.loggingSystem.connectMcp((params) => {
+      if (protocolHandler.isInitialized() && !this.stoppingPromise) {
+        this.track(
+          this.router.notify('notifications/message', params as unknown as Record<string, unknown>)
+        );
+      }
+    });
+
+    this.configManager.watchConfig((newConfig) => {
+      this.applyConfigChange(newConfig, protocolHandler);
+    });
+
+    this.transport.onMessage((message) => {
+      this.track(this.router.handleMessage(message));
+    });
+    this.transport.onBatch((messages) => {
+      this.track(this.router.handleBatch(messages));
+    });
+    this.transport.onError((error) => {
+      this.logger.error('Transport error', error);
+    });
+    this.transport.onClose(() => {
+      void this.stop();
+    });
+
+    this.globalErrorHandler.setShutdownCallback(() => this.stop());
+    this.globalErrorHandler.setup();
+
+    await this.transport.start();
+    this.startedAt = new Date();
+
+    this.logger.info('CursorCLI-MCP Server started', {
+      projectRoot,
+      tools: this.registry.list().length,
+    });
+  }
+
+  /**
+   * サーバーを停止する（冪等）
+   */
+  async stop(): Promise<void> {
+    if (!this.stoppingPromise) {
+      this.stoppingPromise = (async () => {
+        this.logger.info('CursorCLI-MCP Server stopping...');
+        this.loggingSystem.disconnectMcp();
+
+        // 処理中のリクエストの完了を待ってから切断する
+        await Promise.allSettled(this.inFlight);
+        this.router.rejectPendingRequests(new Error('Server stopped'));
+        await this.transport.close();
+        await this.configManager.stopWatching();
+        await this.resourceProvider?.close();
+        this.globalErrorHandler.cleanup();
+
+        for (const callback of this.stopCallbacks) {
+          try {
+            await callback();
+          } catch (error) {
+            this.logger.error(
+              'Error in stop callback',
+              error instanceof Error ? error : new Error(String(error))
+            );
+          }
+        }
+      })();
+    }
+
+    return this.stoppingPromise;
+  }
+
+  /**
+   * 停止コールバックを登録する
+   */
+  onStop(callback: StopCallback): void {
+    this.stopCallbacks.push(callback);
+  }
+
+  /**
+   * ツールレジストリを取得する
+   */
+  getRegistry(): ToolRegistry {
+    return this.registry;
+  }
+
+  /**
+   * 読み込まれた設定を取得する
+   */
+  getConfig(): ServerConfig | null {
+    return this.config;
+  }
+
+  /**
+   * ツールからのアクセスを拒否するパターン（設定のパターンにサーバーのデータディレクトリを加える）
+   */
+  private blockedPatternsFor(config: ServerConfig): string[] {
+    const patterns = [...config.tools.fileOperations.blockedPatterns, ...SERVER_DATA_PATTERNS];
+
+    // 設定ディレクトリがプロジェクト内の別の場所にある場合はそれも拒否する
+    const configDir = path.relative(this.projectRoot, this.configDir);
+    if (configDir && !configDir.startsWith('..') && !path.isAbsolute(configDir)) {
+      const posixConfigDir = configDir.split(path.sep).join('/');
+      patterns.push(posixConfigDir, `${posixConfigDir}/**`);
+    }
+
+    return [...new Set(patterns)];
+  }
+
+  /**
+   * 設定ファイルの変更を反映する
+   *
+   * ツールの許可リストが変化した場合は、初期化済みのクライアントへ
+   * notifications/tools/list_changed を送信する
+   */
+  private applyConfigChange(config: ServerConfig, protocolHandler: MCPProtocolHandler): void {
+    this.config = config;
+    this.loggingSystem.setLevel(config.logging.level);
+
+    this.destructiveGuard?.setAllowDestructiveOperations(
+      config.security.allowDestructiveOperations
+    );
+    this.fileOperations?.setMaxFileSize(config.tools.fileOperations.maxFileSize);
+    this.projectManagement?.setMaxFileSize(config.tools.fileOperations.maxFileSize);
+
+    const changed = this.registry.applyAllowList(config.tools.allowedTools);
+    this.logger.info('Configuration reloaded', { toolsChanged: changed });
+
+    if (changed && protocolHandler.isInitialized()) {
+      this.track(this.router.notify('notifications/tools/list_changed'));
+    }
+  }
+
+  /**
+   * JSON-RPCメソッドと通知のハンドラーを登録する
+   */
+  private registerRoutes(protocolHandler: MCPProtocolHandler): void {
+    this.router.onRequest('initialize', (params) =>
+      protocolHandler.initialize(params as unknown as InitializeRequest)
+    );
+    this.router.onRequest('tools/list', () => protocolHandler.listTools());
+    this.router.onRequest('tools/call', (params, { id, signal }) =>
+      protocolHandler.callTool(params as unknown as CallToolRequest, id, signal)
+    );
+    this.router.onRequest('resources/list', (params, { signal }) =>
+      protocolHandler.listResources(params as ListResourcesRequest | undefined, signal)
+    );
+    this.router.onRequest('resources/templates/list', () =>
+      protocolHandler.listResourceTemplates()
+    );
+    this.router.onRequest('resources/read', (params, { signal }) =>
+      protocolHandler.readResource(params as unknown as ReadResourceRequest, signal)
+    );
+    this.router.onRequest('resources/subscribe', (params) =>
+      protocolHandler.subscribeResource(params as unknown as SubscribeRequest)
+    );
+    this.router.onRequest('resources/unsubscribe', (params) =>
+      protocolHandler.unsubscribeResource(params as unknown as SubscribeRequest)
+    );
+    this.router.onRequest('prompts/list', () => protocolHandler.listPrompts());
+    this.router.onRequest('prompts/get', (params, { signal }) =>
+      protocolHandler.getPrompt(params as unknown as GetPromptRequest, signal)
+    );
+    this.router.onRequest('logging/setLevel', (params) => {
+      protocolHandler.setLogLevel(params as unknown as SetLevelRequest);
+      return Promise.resolve({});
+    });
+    this.router.onRequest('ping', () => Promise.resolve({}));
+
+    this.router.onNotification('notifications/initialized', () => {
+      this.logger.info('Client initialized', {
+        client: protocolHandler.getClientInfo()?.name,
+      });
+    });
+    this.router.onNotification('notifications/cancelled', (params) => {
+      const { requestId, reason } = (params ?? {}) as {
+        requestId?: string | number;
+        reason?: string;
+      };
+      if (requestId === undefined) {
+        return;
+      }
+
+      const cancelled = this.router.cancel(requestId, reason);
+      this.logger.debug('Cancellation requested', { requestId, reason, cancelled });
+    });
+  }
+
+  /**
+   * 処理中のメッセージを追跡する（停止時に完了を待つため）
+   */
+  private track(pending: Promise<void>): void {
+    this.inFlight.add(pending);
+    void pending.finally(() => this.inFlight.delete(pending));
+  }
+}
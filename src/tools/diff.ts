@@ -0,0 +1,470 @@
+/**
+ * Unified Diff
+ *
+ * ファイル編集結果の差分をunified diff形式で生成する
+ */
+
+/**
+ * 行単位の差分操作
+ */
+interface DiffOperation {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+/**
+ * unified diff 生成のオプション
+ */
+export interface UnifiedDiffOptions {
+  /** ヘッダーに表示する変更前のパス */
+  oldPath: string;
+  /** ヘッダーに表示する変更後のパス（デフォルト: oldPath） */
+  newPath?: string;
+  /** 変更箇所の前後に含めるコンテキスト行数（デフォルト: 3） */
+  context?: number;
+}
+
+/**
+ * テキストを行に分割する（末尾の改行は空行として扱わない）
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * 差分の探索で保持する履歴の要素数の上限
+ *
+ * 履歴は編集距離 D に対して O(D^2) となるため、上限を超える場合は最短の編集スクリプトを求めず、
+ * 共通の先頭・末尾を除いた範囲を置き換えとして扱う
+ */
+const MAX_TRACE_SIZE = 10_000_000;
+
+/**
+ * Myersのアルゴリズムで行単位の最短編集スクリプトを求める
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOperation[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] は d 手目の探索前の v のうち、d 手目で参照する k = -(d - 1) .. d - 1 の範囲のみを保持する
+  const trace: Int32Array[] = [];
+  let traceSize = 0;
+
+  outer: for (let d = 0; d <= max; d++) {
+    traceSize += Math.max(0, 2 * d - 1);
+    if (traceSize > MAX_TRACE_SIZE) {
+      return replaceLines(oldLines, newLines);
+    }
+    trace.push(v.slice(offset - d + 1, offset + d));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // 探索の履歴を逆にたどって編集操作を復元する
+  const operations: DiffOperation[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const at = (k: number) => vd[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d > 0 ? at(prevK) : 0;
+    const prevY = d > 0 ? prevX - prevK : 0;
+
+    while (x > prevX && y > prevY) {
+      operations.push({ type: 'equal', line: oldLines[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        operations.push({ type: 'insert', line: newLines[--y] });
+      } else {
+        operations.push({ type: 'delete', line: oldLines[--x] });
+      }
+    }
+  }
+
+  return operations.reverse();
+}
+
+/**
+ * 共通の先頭・末尾の行を除いた範囲を、削除と挿入で置き換える編集操作を求める
+ */
+function replaceLines(oldLines: string[], newLines: string[]): DiffOperation[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const equal = (line: string): DiffOperation => ({ type: 'equal', line });
+  return [
+    ...oldLines.slice(0, prefix).map(equal),
+    ...oldLines
+      .slice(prefix, oldLines.length - suffix)
+      .map((line): DiffOperation => ({ type: 'delete', line })),
+    ...newLines
+      .slice(prefix, newLines.length - suffix)
+      .map((line): DiffOperation => ({ type: 'insert', line })),
+    ...oldLines.slice(oldLines.length - suffix).map(equal),
+  ];
+}
+
+/**
+ * 2つのテキストのunified diffを生成する（差分がない場合は空文字列）
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions
+): string {
+  const context = options.context ?? 3;
+  const operations = diffLines(splitLines(oldText), splitLines(newText));
+
+  // 変更操作の位置から、コンテキストを含むハンクの範囲を求める
+  const ranges: Array<{ start: number; end: number }> = [];
+  operations.forEach((operation, index) => {
+    if (operation.type === 'equal') {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(operations.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  if (ranges.length === 0) {
+    return '';
+  }
+
+  const output = [`--- a/${options.oldPath}`, `+++ b/${options.newPath ?? options.oldPath}`];
+
+  // 各操作の直前までの行番号を数えながらハンクを出力する
+  let oldLine = 0;
+  let newLine = 0;
+  let cursor = 0;
+  for (const range of ranges) {
+    for (; cursor < range.start; cursor++) {
+      if (operations[cursor].type !== 'insert') {
+        oldLine++;
+      }
+      if (operations[cursor].type !== 'delete') {
+        newLine++;
+      }
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (; cursor < range.end; cursor++) {
+      const operation = operations[cursor];
+      if (operation.type === 'equal') {
+        body.push(` ${operation.line}`);
+        oldCount++;
+        newCount++;
+      } else if (operation.type === 'delete') {
+        body.push(`-${operation.line}`);
+        oldCount++;
+      } else {
+        body.push(`+${operation.line}`);
+        newCount++;
+      }
+    }
+
+    const oldStart = oldCount === 0 ? oldLine : oldLine + 1;
+    const newStart = newCount === 0 ? newLine : newLine + 1;
+    // 大きなハンクでも引数の上限を超えないよう、本文は結合してから追加する
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, body.join('\n'));
+    oldLine += oldCount;
+    newLine += newCount;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * unified diff のハンク
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  /** 先頭に ' ' / '-' / '+' を持つ行 */
+  lines: string[];
+  /** 変更前の最終行に改行がない（"\ No newline at end of file"） */
+  oldNoNewlineAtEnd: boolean;
+  /** 変更後の最終行に改行がない */
+  newNoNewlineAtEnd: boolean;
+}
+
+/**
+ * unified diff の1ファイル分のパッチ
+ */
+export interface FilePatch {
+  /** 変更前のパス（新規作成の場合は null） */
+  oldPath: string | null;
+  /** 変更後のパス（削除の場合は null） */
+  newPath: string | null;
+  hunks: DiffHunk[];
+}
+
+/**
+ * パッチの解析エラー
+ */
+export class PatchParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number
+  ) {
+    super(`${message} (patch line ${line})`);
+    this.name = 'PatchParseError';
+  }
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * ---/+++ ヘッダーのパスを取り出す（a/ b/ の接頭辞とタイムスタンプを除去）
+ */
+function parseHeaderPath(header: string): string | null {
+  let value = header.slice(4).split('\t')[0].trim();
+  if (value.startsWith('"') && value.endsWith('"')) {
+    value = value.slice(1, -1);
+  }
+  if (value === '/dev/null') {
+    return null;
+  }
+  return /^[ab]\//.test(value) ? value.slice(2) : value;
+}
+
+/**
+ * unified diff（複数ファイル可、git diff 形式を含む）を解析する
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.split(/\r?\n/);
+  const files: FilePatch[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (!lines[i].startsWith('--- ') || !lines[i + 1]?.startsWith('+++ ')) {
+      i++;
+      continue;
+    }
+
+    const file: FilePatch = {
+      oldPath: parseHeaderPath(lines[i]),
+      newPath: parseHeaderPath(lines[i + 1]),
+      hunks: [],
+    };
+    if (file.oldPath === null && file.newPath === null) {
+      throw new PatchParseError('Both file paths are /dev/null', i + 1);
+    }
+    i += 2;
+
+    while (i < lines.length && lines[i].startsWith('@@')) {
+      const match = HUNK_HEADER.exec(lines[i]);
+      if (!match) {
+        throw new PatchParseError(`Invalid hunk header: ${lines[i]}`, i + 1);
+      }
+
+      const hunk: DiffHunk = {
+        oldStart: Number(match[1]),
+        oldCount: match[2] === undefined ? 1 : Number(match[2]),
+        newStart: Number(match[3]),
+        newCount: match[4] === undefined ? 1 : Number(match[4]),
+        lines: [],
+        oldNoNewlineAtEnd: false,
+        newNoNewlineAtEnd: false,
+      };
+      i++;
+
+      // ヘッダーの行数に達するまで本文を読み取る
+      let oldRemaining = hunk.oldCount;
+      let newRemaining = hunk.newCount;
+      while (
+        i < lines.length &&
+        (oldRemaining > 0 || newRemaining > 0 || lines[i].startsWith('\\'))
+      ) {
+        const line = lines[i];
+
+        // "\ No newline at end of file" は直前の行に改行がないことを表す
+        if (line.startsWith('\\')) {
+          const previous = hunk.lines[hunk.lines.length - 1] ?? ' ';
+          hunk.oldNoNewlineAtEnd ||= !previous.startsWith('+');
+          hunk.newNoNewlineAtEnd ||= !previous.startsWith('-');
+          i++;
+          continue;
+        }
+
+        // 空行は空のコンテキスト行として扱う（末尾の空白を削除するエディタ対策）
+        const prefix = line === '' ? ' ' : line[0];
+        if (prefix === ' ') {
+          oldRemaining--;
+          newRemaining--;
+        } else if (prefix === '-') {
+          oldRemaining--;
+        } else if (prefix === '+') {
+          newRemaining--;
+        } else {
+          break;
+        }
+        hunk.lines.push(line === '' ? ' ' : line);
+        i++;
+      }
+
+      if (oldRemaining !== 0 || newRemaining !== 0) {
+        throw new PatchParseError('Hunk body does not match its header line counts', i + 1);
+      }
+
+      file.hunks.push(hunk);
+    }
+
+    files.push(file);
+  }
+
+  return files;
+}
+
+/**
+ * ハンクの適用結果
+ */
+export interface HunkResult {
+  /** ファイル内でのハンクの番号（0始まり） */
+  index: number;
+  applied: boolean;
+  /** ヘッダーの位置からのずれ（行数） */
+  offset?: number;
+  reason?: string;
+}
+
+/**
+ * パッチの適用結果
+ */
+export interface ApplyHunksResult {
+  lines: string[];
+  hunks: HunkResult[];
+  endsWithNewline: boolean;
+}
+
+/**
+ * 行を比較する（CRLFの差異は無視する）
+ */
+function sameLine(a: string, b: string): boolean {
+  return a === b || a.replace(/\r$/, '') === b.replace(/\r$/, '');
+}
+
+/**
+ * ハンクの変更前の行が指定位置に一致するか判定する
+ */
+function matchesAt(lines: string[], expected: string[], at: number): boolean {
+  if (at < 0 || at + expected.length > lines.length) {
+    return false;
+  }
+  return expected.every((line, j) => sameLine(lines[at + j], line));
+}
+
+/**
+ * 行の配列にハンクを順に適用する
+ *
+ * 各ハンクはヘッダーの位置から前後に最大 maxOffset 行ずれた位置まで探索して適用する。
+ * 適用できなかったハンクは結果に理由を記録し、残りのハンクの適用を続ける
+ */
+export function applyHunks(
+  lines: string[],
+  endsWithNewline: boolean,
+  hunks: DiffHunk[],
+  maxOffset = Infinity
+): ApplyHunksResult {
+  const result = [...lines];
+  const results: HunkResult[] = [];
+  let newlineAtEnd = endsWithNewline;
+  // 先行するハンクで増減した行数
+  let delta = 0;
+  // 先行するハンクが適用された位置より前には適用しない
+  let minPosition = 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldLines = hunk.lines.filter((l) => !l.startsWith('+')).map((l) => l.slice(1));
+    const newLines = hunk.lines.filter((l) => !l.startsWith('-')).map((l) => l.slice(1));
+
+    // 変更前が空のハンク（新規作成や末尾への追加）はヘッダーの位置に挿入する
+    const expected = (hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta;
+
+    let position = -1;
+    const limit = Math.min(maxOffset, result.length);
+    for (let offset = 0; offset <= limit; offset++) {
+      if (expected - offset >= minPosition && matchesAt(result, oldLines, expected - offset)) {
+        position = expected - offset;
+        break;
+      }
+      if (offset > 0 && matchesAt(result, oldLines, expected + offset)) {
+        position = expected + offset;
+        break;
+      }
+    }
+
+    if (position === -1) {
+      results.push({
+        index,
+        applied: false,
+        reason: `Hunk #${index + 1} (@@ -${hunk.oldStart},${hunk.oldCount} @@) does not match the file content`,
+      });
+      return;
+    }
+
+    result.splice(position, oldLines.length, ...newLines);
+    results.push({ index, applied: true, offset: position - expected });
+    delta += newLines.length - oldLines.length;
+    minPosition = position + newLines.length;
+
+    // 最終行に触れるハンクは末尾の改行の有無を更新する
+    if (position + newLines.length === result.length) {
+      if (hunk.newNoNewlineAtEnd) {
+        newlineAtEnd = false;
+      } else if (hunk.oldNoNewlineAtEnd) {
+        newlineAtEnd = true;
+      }
+    }
+  });
+
+  return { lines: result, hunks: results, endsWithNewline: newlineAtEnd };
+}
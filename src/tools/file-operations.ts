@@ -5,29 +5,106 @@
  * Requirements: 2.1-2.6, 8.3
  */
 
-import { promises as fs } from 'fs';
+import { createHash, randomUUID } from 'crypto';
+import { constants as fsConstants, createReadStream, promises as fs, type Stats } from 'fs';
 import * as path from 'path';
+import * as readline from 'readline';
 import { z } from 'zod';
 import { minimatch } from 'minimatch';
-import type { SecurityValidator } from '../security/validator.js';
+import {
+  applyHunks,
+  createUnifiedDiff,
+  parseUnifiedDiff,
+  PatchParseError,
+  splitLines,
+  type FilePatch,
+  type HunkResult,
+} from './diff.js';
+import {
+  compareNames,
+  cursorScope,
+  decodeCursor,
+  encodeCursor,
+  resumeDecision,
+  type TraversalPosition,
+} from './pagination.js';
+import { IgnoreRules } from './ignore-rules.js';
+import {
+  BusinessRuleViolationError,
+  ResourceExhaustedError,
+  ValidationError,
+} from '../errors/index.js';
+import type { SecurityValidator, WorkspaceRoot } from '../security/validator.js';
+
+/**
+ * ファイルサイズ上限のデフォルト値（10MB）
+ */
+export const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * 保持するバックアップ世代数のデフォルト値
+ */
+export const DEFAULT_BACKUP_COUNT = 5;
+
+/**
+ * 移動元として記録するパスの最大数（超えた場合は古い記録から破棄する）
+ */
+const MAX_REMOVED_PATHS = 1000;
+
+/**
+ * FileOperationsToolのオプション
+ */
+export interface FileOperationsOptions {
+  /** 読み書きできるファイルサイズの上限（バイト、tools.fileOperations.maxFileSize） */
+  maxFileSize?: number;
+  /** バックアップの保存先（デフォルト: <projectRoot>/.cursorcli-mcp/backups） */
+  backupDir?: string;
+  /** ファイルごとに保持するバックアップ世代数（tools.fileOperations.backupCount） */
+  backupCount?: number;
+  /** delete_path の trash モードの移動先（デフォルト: <projectRoot>/.cursorcli-mcp/trash） */
+  trashDir?: string;
+}
+
+/**
+ * 内容のSHA-256（hex）を計算する
+ */
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
 
 /**
  * read_file ツールのスキーマ
  */
 export const ReadFileSchema = z.object({
-  path: z.string().describe('読み取るファイルの相対パスまたは絶対パス'),
-  encoding: z.enum(['utf-8', 'utf-16le', 'binary']).default('utf-8').optional(),
+  path: z.string().describe('読み取るファイルの相対パス・絶対パス、または `ルート名:相対パス`'),
+  encoding: z
+    .enum(['utf-8', 'utf-16le', 'binary', 'auto'])
+    .default('utf-8')
+    .optional()
+    .describe('エンコーディング（auto: BOMと内容から判定し、画像はimageコンテンツで返却）'),
   offset: z.number().min(0).optional().describe('読み取り開始位置（バイト）'),
   length: z
     .number()
     .min(1)
-    .max(10_000_000)
+    .max(100 * 1024 * 1024)
     .optional()
-    .describe('読み取りサイズ（バイト、最大10MB）'),
+    .describe('読み取りサイズ（バイト、設定のmaxFileSizeが上限）'),
+  startLine: z.number().int().min(1).optional().describe('読み取り開始行（1始まり、この行を含む）'),
+  endLine: z.number().int().min(1).optional().describe('読み取り終了行（この行を含む）'),
+  maxLines: z.number().int().min(1).optional().describe('読み取る最大行数'),
+  lineNumbers: z
+    .boolean()
+    .optional()
+    .describe('行単位の読み取り時に各行へ行番号を付与する（デフォルト: true）'),
 });
 
 export type ReadFileParams = z.infer<typeof ReadFileSchema>;
 
+/**
+ * 自動判定されたエンコーディング
+ */
+export type DetectedEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'binary';
+
 /**
  * read_file ツールの結果
  */
@@ -37,21 +114,272 @@ export interface ReadFileResult {
   encoding: string;
   truncated: boolean;
   lastModified: string;
+  /** ファイル全体を読み取った場合: 内容のSHA-256（write_file の expectedHash に指定可能） */
+  hash?: string;
+  /** 行単位の読み取り時: 返却した最初の行番号 */
+  startLine?: number;
+  /** 行単位の読み取り時: 返却した最後の行番号（行を返却しない場合は startLine - 1） */
+  endLine?: number;
+  /** 行単位の読み取り時: ファイル全体の行数 */
+  totalLines?: number;
+  /** encoding: 'auto' の場合: 判定されたエンコーディング */
+  detectedEncoding?: DetectedEncoding;
+  /** encoding: 'auto' の場合: バイナリと判定されたか（content はbase64） */
+  isBinary?: boolean;
+  /** encoding: 'auto' で画像と判定された場合のMIMEタイプ */
+  mimeType?: string;
+}
+
+/**
+ * 自動判定に使用する先頭バイト数
+ */
+const DETECTION_SAMPLE_SIZE = 8192;
+
+/**
+ * 不正なUTF-8シーケンスの割合がこれを超える場合はバイナリとみなす
+ */
+const INVALID_UTF8_RATIO_THRESHOLD = 0.1;
+
+/**
+ * 画像のマジックナンバー
+ */
+const IMAGE_SIGNATURES: Array<{ mimeType: string; matches: (buffer: Buffer) => boolean }> = [
+  {
+    mimeType: 'image/png',
+    matches: (b) =>
+      b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  {
+    mimeType: 'image/jpeg',
+    matches: (b) => b.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  },
+  { mimeType: 'image/gif', matches: (b) => b.subarray(0, 4).toString('latin1') === 'GIF8' },
+  {
+    mimeType: 'image/webp',
+    matches: (b) =>
+      b.subarray(0, 4).toString('latin1') === 'RIFF' &&
+      b.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+];
+
+/**
+ * 内容の判定結果
+ */
+interface ContentDetection {
+  encoding: DetectedEncoding;
+  bomLength: number;
+  mimeType?: string;
+}
+
+/**
+ * BOM・画像のマジックナンバー・NULバイト・不正なUTF-8の割合から内容を判定する
+ *
+ * @param atStart - bufferがファイル先頭から始まる場合は true（BOMと画像の判定を行う）
+ */
+function detectContent(buffer: Buffer, atStart: boolean): ContentDetection {
+  if (atStart) {
+    if (buffer.subarray(0, 3).equals(Buffer.from([0xef, 0xbb, 0xbf]))) {
+      return { encoding: 'utf-8', bomLength: 3 };
+    }
+    if (buffer.subarray(0, 2).equals(Buffer.from([0xff, 0xfe]))) {
+      return { encoding: 'utf-16le', bomLength: 2 };
+    }
+    if (buffer.subarray(0, 2).equals(Buffer.from([0xfe, 0xff]))) {
+      return { encoding: 'utf-16be', bomLength: 2 };
+    }
+
+    const image = IMAGE_SIGNATURES.find((signature) => signature.matches(buffer));
+    if (image) {
+      return { encoding: 'binary', bomLength: 0, mimeType: image.mimeType };
+    }
+  }
+
+  const sample = buffer.subarray(0, DETECTION_SAMPLE_SIZE);
+  if (sample.includes(0)) {
+    return { encoding: 'binary', bomLength: 0 };
+  }
+
+  // サンプル末尾で分断されたマルチバイト文字は不正として数えない
+  const decoded = sample.subarray(0, Math.max(0, sample.length - 3)).toString('utf8');
+  const invalidCount = decoded.split('\ufffd').length - 1;
+  if (decoded.length > 0 && invalidCount / decoded.length > INVALID_UTF8_RATIO_THRESHOLD) {
+    return { encoding: 'binary', bomLength: 0 };
+  }
+
+  return { encoding: 'utf-8', bomLength: 0 };
+}
+
+/**
+ * 判定結果に従ってデコードする（バイナリはbase64）
+ */
+function decodeDetected(buffer: Buffer, detection: ContentDetection): string {
+  const body = buffer.subarray(detection.bomLength);
+
+  switch (detection.encoding) {
+    case 'binary':
+      return body.toString('base64');
+    case 'utf-16le':
+      return body.toString('utf16le');
+    case 'utf-16be':
+      return Buffer.from(body).swap16().toString('utf16le');
+    default:
+      return body.toString('utf8');
+  }
 }
 
 /**
  * write_file ツールのスキーマ
  */
 export const WriteFileSchema = z.object({
-  path: z.string().describe('書き込み先ファイルの相対パスまたは絶対パス'),
+  path: z.string().describe('書き込み先ファイルの相対パス・絶対パス、または `ルート名:相対パス`'),
   content: z.string().describe('書き込む内容'),
   encoding: z.enum(['utf-8', 'utf-16le']).optional().describe('エンコーディング'),
   createDirectories: z.boolean().optional().describe('親ディレクトリの自動作成'),
   overwrite: z.boolean().optional().describe('既存ファイルの上書き許可'),
+  expectedMtime: z
+    .string()
+    .optional()
+    .describe('読み取り時の lastModified（ファイルが変更されていた場合は競合エラー）'),
+  expectedHash: z
+    .string()
+    .optional()
+    .describe('読み取り時の hash（内容が変更されていた場合は競合エラー）'),
+  backup: z
+    .boolean()
+    .optional()
+    .describe('上書き前の内容を .cursorcli-mcp/backups に .bak として保存'),
 });
 
 export type WriteFileParams = z.infer<typeof WriteFileSchema>;
 
+/**
+ * edit_file の編集（テキストの置換または行範囲の置換）
+ */
+const FileEditSchema = z.union([
+  z.object({
+    oldText: z.string().min(1).describe('置換対象のテキスト（ファイル内で一意である必要がある）'),
+    newText: z.string().describe('置換後のテキスト'),
+    replaceAll: z.boolean().optional().describe('一致する全ての箇所を置換'),
+  }),
+  z.object({
+    startLine: z.number().int().min(1).describe('置換する最初の行番号（1始まり）'),
+    endLine: z.number().int().min(1).describe('置換する最後の行番号（この行を含む）'),
+    newText: z.string().describe('置換後のテキスト（空文字列の場合は行を削除）'),
+  }),
+]);
+
+export type FileEdit = z.infer<typeof FileEditSchema>;
+
+/**
+ * edit_file ツールのスキーマ
+ */
+export const EditFileSchema = z.object({
+  path: z.string().describe('編集するファイルの相対パス・絶対パス、または `ルート名:相対パス`'),
+  edits: z
+    .array(FileEditSchema)
+    .min(1)
+    .describe('適用する編集の一覧（全て編集前の内容を基準に解釈される）'),
+  encoding: z.enum(['utf-8', 'utf-16le']).optional().describe('エンコーディング'),
+  expectedMtime: z
+    .string()
+    .optional()
+    .describe('読み取り時の lastModified（ファイルが変更されていた場合は競合エラー）'),
+  expectedHash: z
+    .string()
+    .optional()
+    .describe('読み取り時の hash（内容が変更されていた場合は競合エラー）'),
+  backup: z
+    .boolean()
+    .optional()
+    .describe('編集前の内容を .cursorcli-mcp/backups に .bak として保存'),
+  dryRun: z.boolean().optional().describe('ファイルを変更せずに差分のみを返却'),
+});
+
+export type EditFileParams = z.infer<typeof EditFileSchema>;
+
+/**
+ * edit_file ツールの結果
+ */
+export interface EditFileResult {
+  success: boolean;
+  path: string;
+  editsApplied: number;
+  /** 編集内容のunified diff */
+  diff: string;
+  dryRun: boolean;
+  size: number;
+  /** 編集後の lastModified（dryRun の場合は編集前の値） */
+  lastModified: string;
+  /** 編集後の内容のSHA-256 */
+  hash: string;
+  /** バックアップを作成した場合の保存先 */
+  backupPath?: string;
+}
+
+/**
+ * apply_patch ツールのスキーマ
+ */
+export const ApplyPatchSchema = z.object({
+  patch: z.string().min(1).describe('unified diff 形式のパッチ（複数ファイル可）'),
+  maxOffset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('ハンクをヘッダーの行番号からずらして探索する最大行数（デフォルト: 無制限）'),
+  backup: z
+    .boolean()
+    .optional()
+    .describe('変更前の内容を .cursorcli-mcp/backups に .bak として保存'),
+  dryRun: z.boolean().optional().describe('ファイルを変更せずに、各ハンクが適用できるかを返却'),
+});
+
+export type ApplyPatchParams = z.infer<typeof ApplyPatchSchema>;
+
+/**
+ * apply_patch のファイルごとの結果
+ */
+export interface PatchFileResult {
+  path: string;
+  operation: 'create' | 'modify' | 'delete' | 'rename';
+  /** rename の場合の変更後のパス */
+  newPath?: string;
+  hunks: HunkResult[];
+  /** ファイル単位で適用できない場合の理由 */
+  error?: string;
+}
+
+/**
+ * apply_patch ツールの結果
+ */
+export interface ApplyPatchResult {
+  success: boolean;
+  dryRun: boolean;
+  files: PatchFileResult[];
+  /** バックアップを作成した場合の保存先 */
+  backupPaths?: string[];
+}
+
+/**
+ * パッチ適用中のファイルの状態（content が null の場合は存在しない）
+ */
+interface PatchedFile {
+  original: Buffer | null;
+  stats?: Stats;
+  content: string | null;
+  eol: string;
+}
+
+/**
+ * 編集前の内容における置換範囲
+ */
+interface EditSpan {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
 /**
  * write_file ツールの結果
  */
@@ -60,8 +388,102 @@ export interface WriteFileResult {
   path: string;
   size: number;
   created: boolean;
+  /** 書き込み後の lastModified（次回の expectedMtime に指定可能） */
+  lastModified: string;
+  /** 書き込んだ内容のSHA-256（次回の expectedHash に指定可能） */
+  hash: string;
+  /** バックアップを作成した場合の保存先 */
+  backupPath?: string;
+}
+
+/**
+ * delete_path ツールのスキーマ
+ */
+export const DeletePathSchema = z.object({
+  path: z.string().describe('削除するファイルまたはディレクトリのパス'),
+  recursive: z.boolean().optional().describe('空でないディレクトリを中身ごと削除'),
+  trash: z.boolean().optional().describe('削除せずに .cursorcli-mcp/trash へ移動（復元可能）'),
+});
+
+export type DeletePathParams = z.infer<typeof DeletePathSchema>;
+
+/**
+ * delete_path ツールの結果
+ */
+export interface DeletePathResult {
+  success: boolean;
+  path: string;
+  type: 'file' | 'directory';
+  /** trash モードの場合の移動先 */
+  trashPath?: string;
+}
+
+/**
+ * move_path ツールのスキーマ
+ */
+export const MovePathSchema = z.object({
+  source: z.string().describe('移動元のパス'),
+  destination: z.string().describe('移動先のパス'),
+  overwrite: z.boolean().optional().describe('移動先が存在する場合に置き換える'),
+  createDirectories: z.boolean().optional().describe('移動先の親ディレクトリの自動作成'),
+});
+
+export type MovePathParams = z.infer<typeof MovePathSchema>;
+
+/**
+ * copy_path ツールのスキーマ
+ */
+export const CopyPathSchema = z.object({
+  source: z.string().describe('コピー元のパス'),
+  destination: z.string().describe('コピー先のパス'),
+  recursive: z.boolean().optional().describe('ディレクトリを中身ごとコピー'),
+  overwrite: z.boolean().optional().describe('コピー先が存在する場合に置き換える'),
+  createDirectories: z.boolean().optional().describe('コピー先の親ディレクトリの自動作成'),
+});
+
+export type CopyPathParams = z.infer<typeof CopyPathSchema>;
+
+/**
+ * move_path / copy_path ツールの結果
+ */
+export interface TransferPathResult {
+  success: boolean;
+  source: string;
+  destination: string;
+  type: 'file' | 'directory';
+  /** 既存のパスを置き換えた場合は true */
+  overwritten: boolean;
+}
+
+/**
+ * create_directory ツールのスキーマ
+ */
+export const CreateDirectorySchema = z.object({
+  path: z.string().describe('作成するディレクトリのパス'),
+  recursive: z
+    .boolean()
+    .default(true)
+    .optional()
+    .describe('親ディレクトリもあわせて作成（デフォルト: true）'),
+});
+
+export type CreateDirectoryParams = z.infer<typeof CreateDirectorySchema>;
+
+/**
+ * create_directory ツールの結果
+ */
+export interface CreateDirectoryResult {
+  success: boolean;
+  path: string;
+  /** 既に存在していた場合は false */
+  created: boolean;
 }
 
+/**
+ * list_directory の1ページあたりのエントリ数のデフォルト値
+ */
+export const DEFAULT_LIST_PAGE_SIZE = 1000;
+
 /**
  * list_directory ツールのスキーマ
  */
@@ -70,6 +492,20 @@ export const ListDirectorySchema = z.object({
   recursive: z.boolean().default(false).optional().describe('サブディレクトリの再帰的取得'),
   includeHidden: z.boolean().default(false).optional().describe('隠しファイルの含有'),
   pattern: z.string().optional().describe('ファイル名のglob パターン（例: *.ts）'),
+  includeIgnored: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe('.gitignore / .cursorignore 対象の含有'),
+  cursor: z.string().optional().describe('前回の結果の nextCursor（続きのページを取得）'),
+  pageSize: z
+    .number()
+    .int()
+    .min(1)
+    .max(10000)
+    .default(DEFAULT_LIST_PAGE_SIZE)
+    .optional()
+    .describe('1ページに含める最大エントリ数'),
 });
 
 export type ListDirectoryParams = z.infer<typeof ListDirectorySchema>;
@@ -91,8 +527,178 @@ export interface FileEntry {
  */
 export interface ListDirectoryResult {
   entries: FileEntry[];
+  /**
+   * このページに含まれるエントリ数（returnedCount と同じ値）
+   *
+   * 走査はページ単位で打ち切るため、全ページの総数ではない
+   */
   totalCount: number;
+  /** このページに含まれるエントリ数 */
+  returnedCount: number;
   path: string;
+  /** 続きのエントリがある場合: 次のページを取得するためのカーソル */
+  nextCursor?: string;
+}
+
+/**
+ * バックアップやゴミ箱の中での保存先の相対パス
+ *
+ * プロジェクトルート（roots の先頭）以外のルートのファイルは _roots/<ルート名> 配下、
+ * ルート外のファイルは絶対パスをそのままディレクトリ構造にする
+ */
+function toStoragePath(roots: WorkspaceRoot[], targetPath: string): string {
+  for (const [index, root] of roots.entries()) {
+    const relativePath = path.relative(root.path, targetPath);
+    if (!relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+      return index === 0 ? relativePath : path.join('_roots', root.name, relativePath);
+    }
+  }
+  return path.join('_external', targetPath.replace(/^([A-Za-z]:)?[\\/]+/, ''));
+}
+
+/**
+ * diff のヘッダーに表示するパス（プロジェクトルート外は絶対パス）
+ */
+function toDiffPath(projectRoot: string, resolvedPath: string): string {
+  const relativePath = path.relative(projectRoot, resolvedPath);
+  return relativePath.startsWith('..') || path.isAbsolute(relativePath)
+    ? resolvedPath
+    : relativePath.split(path.sep).join('/');
+}
+
+/**
+ * 編集を編集前の内容上の置換範囲に解決する
+ */
+function resolveEditSpans(content: string, edits: FileEdit[]): EditSpan[] {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  // CRLFのファイルでは、LFで渡された編集内容の改行をCRLFに揃える
+  const normalize = (text: string) => (eol === '\n' ? text : text.replace(/\r?\n/g, eol));
+  const spans: EditSpan[] = [];
+
+  // 各行の開始位置（最後の要素はファイル末尾）
+  const lineStarts = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+    lineStarts.push(i + 1);
+  }
+  if (lineStarts[lineStarts.length - 1] !== content.length) {
+    lineStarts.push(content.length);
+  }
+  const totalLines = lineStarts.length - 1;
+
+  edits.forEach((edit, index) => {
+    const field = `edits[${index}]`;
+
+    if ('oldText' in edit) {
+      const oldText = normalize(edit.oldText);
+      const newText = normalize(edit.newText);
+      const matches: number[] = [];
+      for (
+        let at = content.indexOf(oldText);
+        at !== -1;
+        at = content.indexOf(oldText, at + oldText.length)
+      ) {
+        matches.push(at);
+      }
+
+      if (matches.length === 0) {
+        throw new ValidationError(`${field}: oldText not found in file`, field, edit.oldText);
+      }
+      if (matches.length > 1 && !edit.replaceAll) {
+        throw new ValidationError(
+          `${field}: oldText matches ${matches.length} locations; add surrounding context to make it unique or set replaceAll`,
+          field,
+          edit.oldText
+        );
+      }
+
+      for (const at of matches) {
+        spans.push({ index, start: at, end: at + oldText.length, text: newText });
+      }
+      return;
+    }
+
+    if (edit.endLine < edit.startLine) {
+      throw new ValidationError(
+        `${field}: endLine (${edit.endLine}) must be greater than or equal to startLine (${edit.startLine})`,
+        field,
+        edit
+      );
+    }
+    if (edit.endLine > totalLines) {
+      throw new ValidationError(
+        `${field}: line range ${edit.startLine}-${edit.endLine} exceeds file length (${totalLines} lines)`,
+        field,
+        edit
+      );
+    }
+
+    // 置換範囲は行末の改行を含むため、置換後のテキストにも改行を補う
+    const end = lineStarts[edit.endLine];
+    const endsWithNewline = content.slice(0, end).endsWith('\n');
+    let text = normalize(edit.newText);
+    if (text !== '' && endsWithNewline && !text.endsWith('\n')) {
+      text += eol;
+    }
+    spans.push({ index, start: lineStarts[edit.startLine - 1], end, text });
+  });
+
+  return spans.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * 編集を適用した内容を返す
+ */
+function applyEdits(content: string, edits: FileEdit[]): string {
+  const spans = resolveEditSpans(content, edits);
+
+  for (let i = 1; i < spans.length; i++) {
+    if (spans[i].start < spans[i - 1].end) {
+      throw new ValidationError(
+        `edits[${spans[i - 1].index}] and edits[${spans[i].index}] overlap`,
+        `edits[${spans[i].index}]`
+      );
+    }
+  }
+
+  let result = '';
+  let cursor = 0;
+  for (const span of spans) {
+    result += content.slice(cursor, span.start) + span.text;
+    cursor = span.end;
+  }
+  return result + content.slice(cursor);
+}
+
+/**
+ * 移動先が移動元の配下でないことを確認する
+ */
+function assertNotInside(source: string, destination: string): void {
+  if (isSameOrInside(source, destination)) {
+    throw new Error(`Cannot move or copy a directory into itself: ${destination}`);
+  }
+}
+
+/**
+ * target が parent 自身またはその配下のパスかを判定する
+ */
+function isSameOrInside(parent: string, target: string): boolean {
+  const relativePath = path.relative(parent, target);
+  return relativePath === '' || (!relativePath.startsWith('..') && !path.isAbsolute(relativePath));
+}
+
+/**
+ * パスを移動する（異なるファイルシステム間ではコピーしてから削除する）
+ */
+async function movePath(source: string, destination: string): Promise<void> {
+  try {
+    await fs.rename(source, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await fs.cp(source, destination, { recursive: true, errorOnExist: true, force: false });
+    await fs.rm(source, { recursive: true });
+  }
 }
 
 /**
@@ -100,14 +706,87 @@ export interface ListDirectoryResult {
  *
  * Requirement 2.1-2.6: ファイル操作機能のMCPツール化
  * Requirement 8.3: 大容量ファイルの分割読み込み
+ * - 読み込みは maxFileSize で切り詰め、書き込みは maxFileSize を超える内容を拒否する
  */
 export class FileOperationsTool {
-  private readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+  private maxFileSize: number;
+  private readonly backupDir: string;
+  private readonly backupCount: number;
+  private readonly trashDir: string;
+  /** 同一ファイルへの書き込みを直列化するためのロック */
+  private readonly writeLocks = new Map<string, Promise<void>>();
+  /** move_path の移動元として取り除き、まだ再作成していないパス */
+  private readonly removedPaths = new Set<string>();
 
   constructor(
     private securityValidator: SecurityValidator,
-    private projectRoot: string
-  ) {}
+    private projectRoot: string,
+    options: FileOperationsOptions = {}
+  ) {
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    this.backupDir = options.backupDir ?? path.join(projectRoot, '.cursorcli-mcp', 'backups');
+    this.backupCount = options.backupCount ?? DEFAULT_BACKUP_COUNT;
+    this.trashDir = options.trashDir ?? path.join(projectRoot, '.cursorcli-mcp', 'trash');
+  }
+
+  /**
+   * ファイルサイズの上限を変更する（設定のホットリロード時）
+   */
+  setMaxFileSize(maxFileSize: number): void {
+    this.maxFileSize = maxFileSize;
+  }
+
+  /**
+   * ファイルサイズの上限を取得する
+   */
+  getMaxFileSize(): number {
+    return this.maxFileSize;
+  }
+
+  /**
+   * パスまたはその祖先を move_path の移動元として取り除き、まだ再作成していないかを判定する
+   *
+   * 移動した後に同じパスへ書き込むと既存の内容を確認なしに置き換えられるため、
+   * 破壊的操作の判定に使用する（確認を経て再作成した時点で記録から外す）
+   */
+  wasRemoved(targetPath: string): boolean {
+    let resolvedPath: string;
+    try {
+      resolvedPath = this.securityValidator.sanitizePath(targetPath);
+    } catch {
+      return false;
+    }
+
+    for (const removedPath of this.removedPaths) {
+      if (isSameOrInside(removedPath, resolvedPath)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 移動元として取り除いたパスを記録する
+   */
+  private markRemoved(resolvedPath: string): void {
+    this.removedPaths.delete(resolvedPath);
+    this.removedPaths.add(resolvedPath);
+    if (this.removedPaths.size > MAX_REMOVED_PATHS) {
+      const [oldest] = this.removedPaths;
+      this.removedPaths.delete(oldest);
+    }
+  }
+
+  /**
+   * 再作成したパスとその配下を取り除いたパスの記録から外す
+   */
+  private forgetRemoved(resolvedPath: string): void {
+    for (const removedPath of this.removedPaths) {
+      if (isSameOrInside(resolvedPath, removedPath)) {
+        this.removedPaths.delete(removedPath);
+      }
+    }
+  }
 
   /**
    * ファイルを読み込む
@@ -117,15 +796,15 @@ export class FileOperationsTool {
    * Requirement 2.5: 詳細なエラー情報の返却
    * Requirement 2.6: 相対パスの解決
    * Requirement 8.3: 大容量ファイルの処理
+   *
+   * startLine / endLine / maxLines を指定した場合は行単位で読み取る
    */
-  async readFile(params: ReadFileParams): Promise<ReadFileResult> {
+  async readFile(params: ReadFileParams, signal?: AbortSignal): Promise<ReadFileResult> {
     // パラメータのバリデーション
     const validated = ReadFileSchema.parse(params);
 
-    // パスの解決（相対パス対応）
-    const resolvedPath = path.isAbsolute(validated.path)
-      ? validated.path
-      : path.join(this.projectRoot, validated.path);
+    // パスの解決（相対パス・`ルート名:相対パス` 形式に対応）
+    const resolvedPath = this.securityValidator.sanitizePath(validated.path);
 
     // セキュリティ検証
     const securityResult = this.securityValidator.validatePath(resolvedPath);
@@ -144,17 +823,26 @@ export class FileOperationsTool {
       const fileSize = stats.size;
       const encoding = validated.encoding || 'utf-8';
 
+      // 行単位の読み取り
+      if (
+        validated.startLine !== undefined ||
+        validated.endLine !== undefined ||
+        validated.maxLines !== undefined
+      ) {
+        return await this.readLines(resolvedPath, validated, stats.mtime, signal);
+      }
+
       // 読み取りオフセットと長さの決定
       const readOffset = validated.offset ?? 0;
       const availableBytes = Math.max(0, fileSize - readOffset);
-      const requestedLength = validated.length ?? Math.min(availableBytes, this.MAX_FILE_SIZE);
-      const desiredLength = Math.min(requestedLength, this.MAX_FILE_SIZE, availableBytes);
+      const requestedLength = validated.length ?? Math.min(availableBytes, this.maxFileSize);
+      const desiredLength = Math.min(requestedLength, this.maxFileSize, availableBytes);
 
       // truncatedフラグの判定
-      // 1. lengthが未指定で、利用可能バイト数がMAX_FILE_SIZEを超える場合
+      // 1. lengthが未指定で、利用可能バイト数がmaxFileSizeを超える場合
       // 2. lengthが指定されたが、実際に読める長さがそれより小さい場合
       const truncated =
-        (validated.length === undefined && availableBytes > this.MAX_FILE_SIZE) ||
+        (validated.length === undefined && availableBytes > this.maxFileSize) ||
         (validated.length !== undefined && desiredLength < validated.length);
 
       let content: string;
@@ -178,6 +866,25 @@ export class FileOperationsTool {
         }
       }
 
+      // ファイル全体を読み取った場合は write_file の expectedHash に使えるハッシュを返却
+      const hash = readOffset === 0 && buffer.length === fileSize ? sha256(buffer) : undefined;
+
+      // 自動判定
+      if (encoding === 'auto') {
+        const detection = detectContent(buffer, readOffset === 0);
+        return {
+          content: decodeDetected(buffer, detection),
+          size: buffer.length,
+          encoding: detection.encoding,
+          truncated,
+          lastModified: stats.mtime.toISOString(),
+          ...(hash ? { hash } : {}),
+          detectedEncoding: detection.encoding,
+          isBinary: detection.encoding === 'binary',
+          ...(detection.mimeType ? { mimeType: detection.mimeType } : {}),
+        };
+      }
+
       // エンコーディングに応じて変換
       if (encoding === 'binary') {
         content = buffer.toString('base64');
@@ -193,6 +900,7 @@ export class FileOperationsTool {
         encoding,
         truncated,
         lastModified: stats.mtime.toISOString(),
+        ...(hash ? { hash } : {}),
       };
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
@@ -205,6 +913,114 @@ export class FileOperationsTool {
     }
   }
 
+  /**
+   * ファイルを行単位で読み取る
+   *
+   * ストリーミングで読み込むため、ファイル全体をメモリに載せない。
+   * totalLines を求めるため範囲外の行も走査するが、保持するのは範囲内の行のみ
+   */
+  private async readLines(
+    resolvedPath: string,
+    validated: ReadFileParams,
+    lastModified: Date,
+    signal?: AbortSignal
+  ): Promise<ReadFileResult> {
+    const encoding = validated.encoding || 'utf-8';
+    if (encoding === 'binary') {
+      throw new ValidationError(
+        'Line-based reading is not supported for binary encoding',
+        'encoding',
+        encoding
+      );
+    }
+    if (validated.offset !== undefined || validated.length !== undefined) {
+      throw new ValidationError(
+        'offset/length cannot be combined with startLine/endLine/maxLines',
+        'offset'
+      );
+    }
+
+    const startLine = validated.startLine ?? 1;
+    const endLine = validated.endLine ?? Infinity;
+    if (endLine < startLine) {
+      throw new ValidationError(
+        `endLine (${endLine}) must be greater than or equal to startLine (${startLine})`,
+        'endLine',
+        endLine
+      );
+    }
+    const maxLines = validated.maxLines ?? Infinity;
+    const lineNumbers = validated.lineNumbers ?? true;
+
+    // 自動判定の場合は先頭を読み取ってエンコーディングを決定する
+    let detection: ContentDetection | undefined;
+    if (encoding === 'auto') {
+      const fileHandle = await fs.open(resolvedPath, 'r');
+      try {
+        const head = Buffer.alloc(DETECTION_SAMPLE_SIZE);
+        const { bytesRead } = await fileHandle.read(head, 0, DETECTION_SAMPLE_SIZE, 0);
+        detection = detectContent(head.subarray(0, bytesRead), true);
+      } finally {
+        await fileHandle.close();
+      }
+
+      if (detection.encoding === 'binary' || detection.encoding === 'utf-16be') {
+        throw new ValidationError(
+          `Line-based reading is not supported for ${detection.encoding} content`,
+          'encoding',
+          detection.encoding
+        );
+      }
+    }
+
+    const bufferEncoding: BufferEncoding =
+      (detection?.encoding ?? encoding) === 'utf-16le' ? 'utf16le' : 'utf8';
+
+    const lines: string[] = [];
+    let size = 0;
+    let totalLines = 0;
+    let truncated = false;
+
+    const rl = readline.createInterface({
+      input: createReadStream(resolvedPath, {
+        encoding: bufferEncoding,
+        start: detection?.bomLength ?? 0,
+        signal,
+      }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of rl) {
+      totalLines++;
+      if (totalLines < startLine || totalLines > endLine || truncated) {
+        continue;
+      }
+
+      // maxLines または maxFileSize に達した場合は以降の行を返却しない
+      const text = lineNumbers ? `${totalLines}\t${line}` : line;
+      const lineSize = Buffer.byteLength(text, bufferEncoding) + (lines.length > 0 ? 1 : 0);
+      if (lines.length >= maxLines || size + lineSize > this.maxFileSize) {
+        truncated = true;
+        continue;
+      }
+
+      lines.push(text);
+      size += lineSize;
+    }
+
+    return {
+      content: lines.join('\n'),
+      size,
+      encoding,
+      truncated,
+      lastModified: lastModified.toISOString(),
+      startLine,
+      endLine: startLine + lines.length - 1,
+      totalLines,
+      ...(detection ? { detectedEncoding: detection.encoding, isBinary: false } : {}),
+    };
+  }
+
   /**
    * ファイルに書き込む
    *
@@ -213,15 +1029,52 @@ export class FileOperationsTool {
    * Requirement 2.5: 詳細なエラー情報の返却
    * Requirement 2.6: 相対パスの解決
    * Requirement 5.5: 破壊的操作の確認フラグチェック
+   *
+   * 一時ファイルへ書き込んでからリネームするアトミック書き込みを行う。
+   * expectedMtime / expectedHash を指定した場合は、読み取り後に変更されていないことを確認する
    */
   async writeFile(params: WriteFileParams): Promise<WriteFileResult> {
     // パラメータのバリデーション
     const validated = WriteFileSchema.parse(params);
 
-    // パスの解決（相対パス対応）
-    const resolvedPath = path.isAbsolute(validated.path)
-      ? validated.path
-      : path.join(this.projectRoot, validated.path);
+    // パスの解決（相対パス・`ルート名:相対パス` 形式に対応）
+    const resolvedPath = this.securityValidator.sanitizePath(validated.path);
+
+    // セキュリティ検証
+    const securityResult = this.securityValidator.validatePath(resolvedPath);
+    if (!securityResult.ok) {
+      throw new Error(`Security error: ${securityResult.error.message}`);
+    }
+
+    try {
+      return await this.withWriteLock(resolvedPath, async () => {
+        const result = await this.writeAtomically(resolvedPath, validated);
+        this.forgetRemoved(resolvedPath);
+        return result;
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Parent directory does not exist: ${path.dirname(validated.path)}`);
+      }
+      if ((error as NodeJS.ErrnoException).code === 'EACCES') {
+        throw new Error(`Permission denied: ${validated.path}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * ファイルに検索・置換または行範囲の編集を適用する
+   *
+   * 全ての編集は編集前の内容を基準に解決し、一致しない・一意でない・重なり合う編集がある場合は
+   * ファイルを変更せずにエラーをスローする。結果にはunified diffを含める
+   */
+  async editFile(params: EditFileParams): Promise<EditFileResult> {
+    // パラメータのバリデーション
+    const validated = EditFileSchema.parse(params);
+
+    // パスの解決（相対パス・`ルート名:相対パス` 形式に対応）
+    const resolvedPath = this.securityValidator.sanitizePath(validated.path);
 
     // セキュリティ検証
     const securityResult = this.securityValidator.validatePath(resolvedPath);
@@ -230,58 +1083,788 @@ export class FileOperationsTool {
     }
 
     try {
-      // ファイルの存在確認
-      let fileExists = false;
+      return await this.withWriteLock(resolvedPath, async () => {
+        const existing = await fs.stat(resolvedPath);
+        if (!existing.isFile()) {
+          throw new Error(`Path is not a file: ${validated.path}`);
+        }
+        if (existing.size > this.maxFileSize) {
+          throw new ResourceExhaustedError(
+            `File size ${existing.size} bytes exceeds maxFileSize ${this.maxFileSize} bytes: ${validated.path}`,
+            'file_size',
+            existing.size,
+            this.maxFileSize,
+            { path: validated.path }
+          );
+        }
+
+        await this.checkPreconditions(resolvedPath, validated, existing);
+
+        const bufferEncoding = validated.encoding === 'utf-16le' ? 'utf16le' : 'utf8';
+        const original = (await fs.readFile(resolvedPath)).toString(bufferEncoding);
+        const edited = applyEdits(original, validated.edits);
+        const data = Buffer.from(edited, bufferEncoding);
+        const diff = createUnifiedDiff(original, edited, {
+          oldPath: toDiffPath(this.projectRoot, resolvedPath),
+        });
+
+        const result = {
+          success: true,
+          path: resolvedPath,
+          editsApplied: validated.edits.length,
+          diff,
+          hash: sha256(data),
+        };
+
+        // ドライランでも実際の編集と同じく、上限を超える編集結果は拒否する
+        if (data.length > this.maxFileSize) {
+          throw new ResourceExhaustedError(
+            `Content size ${data.length} bytes exceeds maxFileSize ${this.maxFileSize} bytes: ${validated.path}`,
+            'file_size',
+            data.length,
+            this.maxFileSize,
+            { path: validated.path }
+          );
+        }
+
+        if (validated.dryRun) {
+          return {
+            ...result,
+            dryRun: true,
+            size: data.length,
+            lastModified: existing.mtime.toISOString(),
+          };
+        }
+
+        const { stats, backupPath } = await this.replaceFile(
+          resolvedPath,
+          data,
+          existing,
+          validated.backup ?? false
+        );
+
+        return {
+          ...result,
+          dryRun: false,
+          size: stats.size,
+          lastModified: stats.mtime.toISOString(),
+          ...(backupPath ? { backupPath } : {}),
+        };
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`File not found: ${validated.path}`);
+      }
+      if ((error as NodeJS.ErrnoException).code === 'EACCES') {
+        throw new Error(`Permission denied: ${validated.path}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 前提条件を確認し、一時ファイルへの書き込みとリネームでアトミックに置き換える
+   *
+   * 書き込み途中でプロセスが終了しても、元のファイルが途中まで書かれた状態にはならない
+   */
+  private async writeAtomically(
+    resolvedPath: string,
+    validated: WriteFileParams
+  ): Promise<WriteFileResult> {
+    // ファイルの存在確認
+    let existing: Stats | undefined;
+    try {
+      const stats = await fs.stat(resolvedPath);
+      existing = stats.isFile() ? stats : undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const fileExists = existing !== undefined;
+
+    // デフォルト値の設定
+    const overwrite = validated.overwrite ?? true;
+    const createDirectories = validated.createDirectories ?? false;
+    const encoding = validated.encoding || 'utf-8';
+
+    // 上書き確認
+    if (fileExists && !overwrite) {
+      throw new Error(`File already exists and overwrite is disabled: ${validated.path}`);
+    }
+
+    // 楽観的並行性制御: 読み取り後に他のエージェントが変更していないか確認
+    await this.checkPreconditions(resolvedPath, validated, existing);
+
+    // サイズ上限の確認
+    const writeEncoding = encoding === 'utf-16le' ? 'utf16le' : 'utf8';
+    const data = Buffer.from(validated.content, writeEncoding);
+    if (data.length > this.maxFileSize) {
+      throw new ResourceExhaustedError(
+        `Content size ${data.length} bytes exceeds maxFileSize ${this.maxFileSize} bytes: ${validated.path}`,
+        'file_size',
+        data.length,
+        this.maxFileSize,
+        { path: validated.path }
+      );
+    }
+
+    // 親ディレクトリの作成
+    if (createDirectories) {
+      await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+    }
+
+    const { stats, backupPath } = await this.replaceFile(
+      resolvedPath,
+      data,
+      existing,
+      validated.backup ?? false
+    );
+
+    return {
+      success: true,
+      path: resolvedPath,
+      size: stats.size,
+      created: !fileExists,
+      lastModified: stats.mtime.toISOString(),
+      hash: sha256(data),
+      ...(backupPath ? { backupPath } : {}),
+    };
+  }
+
+  /**
+   * 一時ファイルへの書き込みとリネームでファイルを置き換える
+   *
+   * 既存ファイルのパーミッションを引き継ぎ、backup が true の場合は置き換え前にバックアップを作成する
+   */
+  private async replaceFile(
+    resolvedPath: string,
+    data: Buffer,
+    existing: Stats | undefined,
+    backup: boolean
+  ): Promise<{ stats: Stats; backupPath?: string }> {
+    // シンボリックリンクはリンク自体ではなくリンク先を置き換える
+    const targetPath = existing ? await fs.realpath(resolvedPath) : resolvedPath;
+
+    const backupPath = existing && backup ? await this.createBackup(targetPath) : undefined;
+
+    const tempPath = path.join(
+      path.dirname(targetPath),
+      `.${path.basename(targetPath)}.${randomUUID()}.tmp`
+    );
+    try {
+      await fs.writeFile(tempPath, data, { flag: 'wx' });
+      if (existing) {
+        await fs.chmod(tempPath, existing.mode & 0o7777);
+      }
+      await fs.rename(tempPath, targetPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    // 書き込み後のファイル情報を取得
+    return { stats: await fs.stat(targetPath), backupPath };
+  }
+
+  /**
+   * expectedMtime / expectedHash の前提条件を確認する
+   *
+   * ファイルが読み取り後に変更または削除されていた場合は WRITE_CONFLICT をスローする
+   */
+  private async checkPreconditions(
+    resolvedPath: string,
+    validated: Pick<WriteFileParams, 'path' | 'expectedMtime' | 'expectedHash'>,
+    existing: Stats | undefined
+  ): Promise<void> {
+    const { expectedMtime, expectedHash } = validated;
+    if (expectedMtime === undefined && expectedHash === undefined) {
+      return;
+    }
+
+    const conflict = (reason: string, context: Record<string, unknown>) =>
+      new BusinessRuleViolationError(
+        `Write conflict: ${validated.path} ${reason}. Read the file again before writing.`,
+        'WRITE_CONFLICT',
+        { path: validated.path, ...context }
+      );
+
+    if (!existing) {
+      throw conflict('no longer exists', { expectedMtime, expectedHash });
+    }
+
+    if (expectedMtime !== undefined) {
+      const expected = Date.parse(expectedMtime);
+      if (Number.isNaN(expected)) {
+        throw new ValidationError(
+          `expectedMtime is not a valid date: ${expectedMtime}`,
+          'expectedMtime',
+          expectedMtime
+        );
+      }
+
+      const actualMtime = existing.mtime.toISOString();
+      if (existing.mtime.getTime() !== expected) {
+        throw conflict('has been modified since it was read', { expectedMtime, actualMtime });
+      }
+    }
+
+    if (expectedHash !== undefined) {
+      const actualHash = sha256(await fs.readFile(resolvedPath));
+      if (actualHash !== expectedHash.toLowerCase()) {
+        throw conflict('has been modified since it was read', { expectedHash, actualHash });
+      }
+    }
+  }
+
+  /**
+   * 既存ファイルをバックアップディレクトリへコピーし、古い世代をローテーションする
+   *
+   * <backupDir>/<プロジェクトルートからの相対パス>.bak が最新、.bak.1 以降が古い世代
+   */
+  private async createBackup(targetPath: string): Promise<string> {
+    const backupPath = path.join(
+      this.backupDir,
+      `${toStoragePath(this.securityValidator.getRoots(), targetPath)}.bak`
+    );
+
+    await fs.mkdir(path.dirname(backupPath), { recursive: true });
+
+    // 古い世代を1つずつずらし、上限を超えた世代は削除する
+    const generation = (n: number) => (n === 0 ? backupPath : `${backupPath}.${n}`);
+    await fs.rm(generation(this.backupCount - 1), { force: true });
+    for (let n = this.backupCount - 2; n >= 0; n--) {
       try {
-        const stats = await fs.stat(resolvedPath);
-        fileExists = stats.isFile();
+        await fs.rename(generation(n), generation(n + 1));
       } catch (error) {
         if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
           throw error;
         }
       }
+    }
 
-      // デフォルト値の設定
-      const overwrite = validated.overwrite ?? true;
-      const createDirectories = validated.createDirectories ?? false;
-      const encoding = validated.encoding || 'utf-8';
+    await fs.copyFile(targetPath, backupPath);
+    return backupPath;
+  }
+
+  /**
+   * unified diff 形式のパッチを適用する
+   *
+   * 全てのファイル・ハンクが適用できる場合のみ書き込む（all-or-nothing）。
+   * 書き込み中にエラーが発生した場合は、書き込み済みのファイルを元に戻す
+   */
+  async applyPatch(params: ApplyPatchParams): Promise<ApplyPatchResult> {
+    // パラメータのバリデーション
+    const validated = ApplyPatchSchema.parse(params);
 
-      // 上書き確認
-      if (fileExists && !overwrite) {
-        throw new Error(`File already exists and overwrite is disabled: ${validated.path}`);
+    let patches: FilePatch[];
+    try {
+      patches = parseUnifiedDiff(validated.patch);
+    } catch (error) {
+      if (error instanceof PatchParseError) {
+        throw new ValidationError(`Invalid patch: ${error.message}`, 'patch');
       }
+      throw error;
+    }
+    if (patches.length === 0) {
+      throw new ValidationError('No file changes found in patch', 'patch');
+    }
 
-      // 親ディレクトリの作成
-      const dirPath = path.dirname(resolvedPath);
-      if (createDirectories) {
-        await fs.mkdir(dirPath, { recursive: true });
+    // 全ての対象パスを事前にセキュリティ検証する
+    const resolve = (filePath: string) => {
+      const resolvedPath = this.securityValidator.sanitizePath(filePath);
+      const securityResult = this.securityValidator.validatePath(resolvedPath);
+      if (!securityResult.ok) {
+        throw new Error(`Security error: ${securityResult.error.message}`);
       }
+      return resolvedPath;
+    };
+    const targets = patches.map((patch) => ({
+      patch,
+      source: resolve(patch.oldPath ?? patch.newPath ?? ''),
+      target: patch.newPath === null ? null : resolve(patch.newPath),
+    }));
 
-      // エンコーディングに応じて書き込み
-      const writeEncoding = encoding === 'utf-16le' ? 'utf16le' : 'utf8';
+    const lockPaths = [
+      ...new Set(targets.flatMap(({ source, target }) => (target ? [source, target] : [source]))),
+    ].sort();
 
-      await fs.writeFile(resolvedPath, validated.content, writeEncoding as BufferEncoding);
+    return this.withWriteLocks(lockPaths, async () => {
+      const files = new Map<string, PatchedFile>();
+      const results: PatchFileResult[] = [];
 
-      // 書き込み後のファイルサイズを取得
-      const stats = await fs.stat(resolvedPath);
+      for (const { patch, source, target } of targets) {
+        const operation =
+          patch.oldPath === null
+            ? 'create'
+            : patch.newPath === null
+              ? 'delete'
+              : source !== target
+                ? 'rename'
+                : 'modify';
+        const result: PatchFileResult = {
+          path: source,
+          operation,
+          ...(operation === 'rename' && target ? { newPath: target } : {}),
+          hunks: [],
+        };
+        results.push(result);
+
+        const file = await this.loadPatchedFile(files, source);
+        if (operation === 'create' ? file.content !== null : file.content === null) {
+          result.error = operation === 'create' ? 'File already exists' : 'File not found';
+          continue;
+        }
+        if (
+          operation === 'rename' &&
+          target &&
+          (await this.loadPatchedFile(files, target)).content !== null
+        ) {
+          result.error = `Rename target already exists: ${target}`;
+          continue;
+        }
+
+        const content = file.content ?? '';
+        const applied = applyHunks(
+          splitLines(content),
+          content === '' || content.endsWith('\n'),
+          patch.hunks,
+          validated.maxOffset
+        );
+        result.hunks = applied.hunks;
+        if (applied.hunks.some((hunk) => !hunk.applied)) {
+          continue;
+        }
+
+        const patched =
+          applied.lines.length === 0
+            ? ''
+            : applied.lines.join(file.eol) + (applied.endsWithNewline ? file.eol : '');
+
+        if (operation === 'delete') {
+          if (patched !== '') {
+            result.error = 'File content remains after applying the deletion patch';
+            continue;
+          }
+          file.content = null;
+        } else if (operation === 'rename' && target) {
+          file.content = null;
+          const renamed = await this.loadPatchedFile(files, target);
+          renamed.content = patched;
+          renamed.eol = file.eol;
+        } else {
+          file.content = patched;
+        }
+      }
+
+      const success = results.every(
+        (result) => !result.error && result.hunks.every((hunk) => hunk.applied)
+      );
+
+      if (!success && !validated.dryRun) {
+        const failures = results.flatMap((result) =>
+          result.error
+            ? [`${result.path}: ${result.error}`]
+            : result.hunks
+                .filter((hunk) => !hunk.applied)
+                .map((hunk) => `${result.path}: ${hunk.reason}`)
+        );
+        throw new ValidationError(
+          `Patch does not apply; no files were changed:\n${failures.join('\n')}`,
+          'patch',
+          undefined,
+          { files: results }
+        );
+      }
+
+      if (validated.dryRun) {
+        return { success, dryRun: true, files: results };
+      }
 
+      const backupPaths = await this.commitPatchedFiles(files, validated.backup ?? false);
       return {
         success: true,
-        path: resolvedPath,
-        size: stats.size,
-        created: !fileExists,
+        dryRun: false,
+        files: results,
+        ...(backupPaths.length > 0 ? { backupPaths } : {}),
       };
+    });
+  }
+
+  /**
+   * パッチ適用中のファイルの状態を取得する（初回はディスクから読み込む）
+   */
+  private async loadPatchedFile(
+    files: Map<string, PatchedFile>,
+    resolvedPath: string
+  ): Promise<PatchedFile> {
+    let file = files.get(resolvedPath);
+    if (file) {
+      return file;
+    }
+
+    let stats: Stats | undefined;
+    try {
+      stats = await fs.stat(resolvedPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    if (stats && !stats.isFile()) {
+      throw new Error(`Path is not a file: ${resolvedPath}`);
+    }
+    if (stats && stats.size > this.maxFileSize) {
+      throw new ResourceExhaustedError(
+        `File size ${stats.size} bytes exceeds maxFileSize ${this.maxFileSize} bytes: ${resolvedPath}`,
+        'file_size',
+        stats.size,
+        this.maxFileSize,
+        { path: resolvedPath }
+      );
+    }
+
+    const original = stats ? await fs.readFile(resolvedPath) : null;
+    const content = original ? original.toString('utf8') : null;
+    file = {
+      original,
+      stats,
+      content,
+      eol: content?.includes('\r\n') ? '\r\n' : '\n',
+    };
+    files.set(resolvedPath, file);
+    return file;
+  }
+
+  /**
+   * パッチ適用後の内容を書き込む
+   *
+   * 途中で失敗した場合は、書き込み済みのファイルを元の内容に戻してからエラーをスローする
+   */
+  private async commitPatchedFiles(
+    files: Map<string, PatchedFile>,
+    backup: boolean
+  ): Promise<string[]> {
+    const committed: Array<[string, PatchedFile]> = [];
+    const backupPaths: string[] = [];
+
+    try {
+      for (const [resolvedPath, file] of files) {
+        const unchanged =
+          file.content === null
+            ? file.original === null
+            : file.original !== null && file.original.toString('utf8') === file.content;
+        if (unchanged) {
+          continue;
+        }
+
+        if (file.content === null) {
+          if (backup) {
+            backupPaths.push(await this.createBackup(await fs.realpath(resolvedPath)));
+          }
+          await fs.rm(resolvedPath);
+        } else {
+          const data = Buffer.from(file.content, 'utf8');
+          if (data.length > this.maxFileSize) {
+            throw new ResourceExhaustedError(
+              `Content size ${data.length} bytes exceeds maxFileSize ${this.maxFileSize} bytes: ${resolvedPath}`,
+              'file_size',
+              data.length,
+              this.maxFileSize,
+              { path: resolvedPath }
+            );
+          }
+          if (!file.stats) {
+            await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+          }
+          const { backupPath } = await this.replaceFile(resolvedPath, data, file.stats, backup);
+          this.forgetRemoved(resolvedPath);
+          if (backupPath) {
+            backupPaths.push(backupPath);
+          }
+        }
+        committed.push([resolvedPath, file]);
+      }
+    } catch (error) {
+      // 元に戻せなかったファイルがあっても、最初のエラーを優先して返却する
+      for (const [resolvedPath, file] of committed.reverse()) {
+        await (
+          file.original === null
+            ? fs.rm(resolvedPath, { force: true })
+            : fs.writeFile(resolvedPath, file.original)
+        ).catch(() => undefined);
+      }
+      throw error;
+    }
+
+    return backupPaths;
+  }
+
+  /**
+   * 複数ファイルへの書き込みを直列化する（デッドロックを避けるためパスの順に取得する）
+   */
+  private withWriteLocks<T>(filePaths: string[], task: () => Promise<T>): Promise<T> {
+    return filePaths.reduceRight<() => Promise<T>>(
+      (next, filePath) => () => this.withWriteLock(filePath, next),
+      task
+    )();
+  }
+
+  /**
+   * 同一ファイルへの書き込みを直列化する
+   */
+  private async withWriteLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writeLocks.get(filePath) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const chained = previous.then(() => current);
+    this.writeLocks.set(filePath, chained);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+      if (this.writeLocks.get(filePath) === chained) {
+        this.writeLocks.delete(filePath);
+      }
+    }
+  }
+
+  /**
+   * ファイルまたはディレクトリを削除する
+   *
+   * trash: true の場合は削除せずにゴミ箱ディレクトリへ移動する。
+   * 空でないディレクトリの削除には recursive: true を要求する
+   */
+  async deletePath(params: DeletePathParams): Promise<DeletePathResult> {
+    const validated = DeletePathSchema.parse(params);
+    const resolvedPath = this.resolveManagedPath(validated.path);
+
+    if (
+      this.securityValidator
+        .getRoots()
+        .some((root) => path.resolve(root.path) === path.resolve(resolvedPath))
+    ) {
+      throw new Error('Cannot delete the project root');
+    }
+
+    return this.withWriteLock(resolvedPath, async () => {
+      const stats = await this.statManagedPath(resolvedPath, validated.path);
+      const type = stats.isDirectory() ? 'directory' : 'file';
+
+      if (type === 'directory') {
+        const entries = await fs.readdir(resolvedPath);
+        if (entries.length > 0 && !validated.recursive) {
+          throw new Error(`Directory is not empty (set recursive to delete): ${validated.path}`);
+        }
+        await this.assertTreeAccessible(resolvedPath);
+      }
+
+      if (validated.trash) {
+        const trashPath = path.join(
+          this.trashDir,
+          `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}`,
+          toStoragePath(this.securityValidator.getRoots(), resolvedPath)
+        );
+        await fs.mkdir(path.dirname(trashPath), { recursive: true });
+        await movePath(resolvedPath, trashPath);
+        return { success: true, path: resolvedPath, type, trashPath };
+      }
+
+      await fs.rm(resolvedPath, { recursive: type === 'directory' });
+      return { success: true, path: resolvedPath, type };
+    });
+  }
+
+  /**
+   * ファイルまたはディレクトリを移動（名前変更）する
+   */
+  async movePath(params: MovePathParams): Promise<TransferPathResult> {
+    const validated = MovePathSchema.parse(params);
+    const source = this.resolveManagedPath(validated.source);
+    const destination = this.resolveManagedPath(validated.destination);
+
+    return this.withWriteLocks([source, destination].sort(), async () => {
+      const stats = await this.statManagedPath(source, validated.source);
+      const type = stats.isDirectory() ? 'directory' : 'file';
+      if (type === 'directory') {
+        assertNotInside(source, destination);
+        await this.assertTreeAccessible(source);
+      }
+
+      const overwritten = await this.prepareDestination(destination, validated);
+      await movePath(source, destination);
+      this.forgetRemoved(destination);
+      this.markRemoved(source);
+
+      return { success: true, source, destination, type, overwritten };
+    });
+  }
+
+  /**
+   * ファイルまたはディレクトリをコピーする
+   *
+   * ディレクトリのコピーには recursive: true を要求する
+   */
+  async copyPath(params: CopyPathParams): Promise<TransferPathResult> {
+    const validated = CopyPathSchema.parse(params);
+    const source = this.resolveManagedPath(validated.source);
+    const destination = this.resolveManagedPath(validated.destination);
+
+    return this.withWriteLock(destination, async () => {
+      const stats = await this.statManagedPath(source, validated.source);
+      const type = stats.isDirectory() ? 'directory' : 'file';
+      if (type === 'directory') {
+        if (!validated.recursive) {
+          throw new Error(`Source is a directory (set recursive to copy): ${validated.source}`);
+        }
+        assertNotInside(source, destination);
+        await this.assertTreeAccessible(source);
+      } else if (stats.size > this.maxFileSize) {
+        throw new ResourceExhaustedError(
+          `File size ${stats.size} bytes exceeds maxFileSize ${this.maxFileSize} bytes: ${validated.source}`,
+          'file_size',
+          stats.size,
+          this.maxFileSize,
+          { path: validated.source }
+        );
+      }
+
+      const overwritten = await this.prepareDestination(destination, validated);
+      if (type === 'directory') {
+        await fs.cp(source, destination, { recursive: true, errorOnExist: true, force: false });
+      } else {
+        await fs.copyFile(source, destination, fsConstants.COPYFILE_EXCL);
+      }
+      this.forgetRemoved(destination);
+
+      return { success: true, source, destination, type, overwritten };
+    });
+  }
+
+  /**
+   * ディレクトリを作成する
+   */
+  async createDirectory(params: CreateDirectoryParams): Promise<CreateDirectoryResult> {
+    const validated = CreateDirectorySchema.parse(params);
+    const resolvedPath = this.resolveManagedPath(validated.path);
+
+    try {
+      const stats = await fs.stat(resolvedPath);
+      if (!stats.isDirectory()) {
+        throw new Error(`Path exists and is not a directory: ${validated.path}`);
+      }
+      return { success: true, path: resolvedPath, created: false };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    try {
+      await fs.mkdir(resolvedPath, { recursive: validated.recursive ?? true });
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         throw new Error(`Parent directory does not exist: ${path.dirname(validated.path)}`);
       }
-      if ((error as NodeJS.ErrnoException).code === 'EACCES') {
-        throw new Error(`Permission denied: ${validated.path}`);
+      throw error;
+    }
+    return { success: true, path: resolvedPath, created: true };
+  }
+
+  /**
+   * パスを解決し、セキュリティ検証を行う
+   */
+  private resolveManagedPath(targetPath: string): string {
+    const resolvedPath = this.securityValidator.sanitizePath(targetPath);
+
+    const securityResult = this.securityValidator.validatePath(resolvedPath);
+    if (!securityResult.ok) {
+      throw new Error(`Security error: ${securityResult.error.message}`);
+    }
+    return resolvedPath;
+  }
+
+  /**
+   * パスの情報を取得する（シンボリックリンクはリンク自体を対象とする）
+   */
+  private async statManagedPath(resolvedPath: string, displayPath: string): Promise<Stats> {
+    try {
+      return await fs.lstat(resolvedPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Path not found: ${displayPath}`);
       }
       throw error;
     }
   }
 
+  /**
+   * 移動先・コピー先を準備する
+   *
+   * 既存のパスは overwrite: true の場合のみ削除し、createDirectories: true の場合は親ディレクトリを作成する
+   *
+   * @returns 既存のパスを削除した場合は true
+   */
+  private async prepareDestination(
+    destination: string,
+    options: { destination: string; overwrite?: boolean; createDirectories?: boolean }
+  ): Promise<boolean> {
+    let existing: Stats | undefined;
+    try {
+      existing = await fs.lstat(destination);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    if (existing) {
+      if (!options.overwrite) {
+        throw new Error(`Destination already exists: ${options.destination}`);
+      }
+      if (existing.isDirectory()) {
+        await this.assertTreeAccessible(destination);
+      }
+      await fs.rm(destination, { recursive: true });
+    }
+
+    if (options.createDirectories) {
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+    } else {
+      try {
+        await fs.access(path.dirname(destination));
+      } catch {
+        throw new Error(`Parent directory does not exist: ${path.dirname(options.destination)}`);
+      }
+    }
+
+    return existing !== undefined;
+  }
+
+  /**
+   * ディレクトリ配下にブロックされたパスが含まれないことを確認する
+   *
+   * 再帰的な削除・移動・コピーでブロック対象（.git など）に影響を与えないため
+   */
+  private async assertTreeAccessible(dirPath: string): Promise<void> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name);
+      const securityResult = this.securityValidator.validatePath(entryPath);
+      if (!securityResult.ok) {
+        throw new Error(`Security error: ${securityResult.error.message}`);
+      }
+      if (entry.isDirectory()) {
+        await this.assertTreeAccessible(entryPath);
+      }
+    }
+  }
+
   /**
    * ディレクトリの内容を一覧取得する
    *
@@ -289,19 +1872,22 @@ export class FileOperationsTool {
    * Requirement 2.4: プロジェクトルート外アクセスの拒否
    * Requirement 2.5: 詳細なエラー情報の返却
    * Requirement 2.6: 相対パスの解決
+   *
+   * @param signal - abortされた場合は走査を中断する
    */
-  async listDirectory(params: ListDirectoryParams): Promise<ListDirectoryResult> {
+  async listDirectory(
+    params: ListDirectoryParams,
+    signal?: AbortSignal
+  ): Promise<ListDirectoryResult> {
     // パラメータのバリデーション
     const validated = ListDirectorySchema.parse(params);
 
-    // パスの解決（相対パス対応）
-    const resolvedPath = path.isAbsolute(validated.path)
-      ? validated.path
-      : path.join(this.projectRoot, validated.path);
+    // パスの解決（相対パス・`ルート名:相対パス` 形式に対応）
+    const resolvedPath = this.securityValidator.sanitizePath(validated.path);
 
-    // セキュリティ検証
+    // セキュリティ検証（許可ディレクトリの祖先は一覧取得のみ許可）
     const securityResult = this.securityValidator.validatePath(resolvedPath);
-    if (!securityResult.ok) {
+    if (!securityResult.ok && !this.securityValidator.canTraverse(resolvedPath)) {
       throw new Error(`Security error: ${securityResult.error.message}`);
     }
 
@@ -317,20 +1903,53 @@ export class FileOperationsTool {
       const recursive = validated.recursive ?? false;
       const includeHidden = validated.includeHidden ?? false;
       const pattern = validated.pattern;
+      const includeIgnored = validated.includeIgnored ?? false;
+      const pageSize = validated.pageSize ?? DEFAULT_LIST_PAGE_SIZE;
 
-      // エントリを収集
+      // カーソルは同一の条件で発行されたものに限り受け付ける
+      const scope = cursorScope({
+        path: resolvedPath,
+        recursive,
+        includeHidden,
+        pattern,
+        includeIgnored,
+      });
+      const cursor = validated.cursor ? decodeCursor(validated.cursor, scope) : undefined;
+
+      // エントリを収集（次のページの有無を判定するため1件多く収集する）
       const entries: FileEntry[] = [];
       await this.collectEntries(resolvedPath, entries, {
         recursive,
         includeHidden,
         pattern,
         basePath: resolvedPath,
+        ignoreRules: includeIgnored
+          ? undefined
+          : new IgnoreRules(
+              this.securityValidator.getRootFor(resolvedPath)?.path ?? this.projectRoot
+            ),
+        cursor,
+        limit: pageSize + 1,
+        signal,
       });
 
+      const hasMore = entries.length > pageSize;
+      const page = entries.slice(0, pageSize);
+      const last = page[page.length - 1];
+
       return {
-        entries,
-        totalCount: entries.length,
+        entries: page,
+        totalCount: page.length,
+        returnedCount: page.length,
         path: resolvedPath,
+        ...(hasMore
+          ? {
+              nextCursor: encodeCursor(
+                path.relative(resolvedPath, last.path).split(path.sep),
+                scope
+              ),
+            }
+          : {}),
       };
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
@@ -344,7 +1963,9 @@ export class FileOperationsTool {
   }
 
   /**
-   * ディレクトリエントリを再帰的に収集する
+   * ディレクトリエントリを名前順に再帰的に収集する
+   *
+   * cursor より前のエントリは読み飛ばし、limit 件に達した時点で走査を終了する
    */
   private async collectEntries(
     dirPath: string,
@@ -354,11 +1975,21 @@ export class FileOperationsTool {
       includeHidden: boolean;
       pattern?: string;
       basePath: string;
+      ignoreRules?: IgnoreRules;
+      cursor?: TraversalPosition;
+      limit: number;
+      signal?: AbortSignal;
     }
   ): Promise<void> {
-    const dirEntries = await fs.readdir(dirPath);
+    options.signal?.throwIfAborted();
+    const dirEntries = (await fs.readdir(dirPath)).sort(compareNames);
 
     for (const entryName of dirEntries) {
+      options.signal?.throwIfAborted();
+      if (entries.length >= options.limit) {
+        return;
+      }
+
       // 隠しファイルのフィルタリング
       if (!options.includeHidden && entryName.startsWith('.')) {
         continue;
@@ -366,9 +1997,32 @@ export class FileOperationsTool {
 
       const entryPath = path.join(dirPath, entryName);
 
+      // 前のページで返却済みのエントリは読み飛ばす
+      const decision = resumeDecision(
+        path.relative(options.basePath, entryPath).split(path.sep),
+        options.cursor
+      );
+      if (decision === 'skip') {
+        continue;
+      }
+
       // lstatを使用（シンボリックリンクをそのまま扱う）
       const stats = await fs.lstat(entryPath);
 
+      // ブロックされたパスや許可ディレクトリ外のエントリは除外（許可ディレクトリの祖先ディレクトリは残す）
+      const access = this.securityValidator.validatePath(entryPath);
+      if (!access.ok && !(stats.isDirectory() && this.securityValidator.canTraverse(entryPath))) {
+        continue;
+      }
+
+      // 無視ルールのチェック
+      if (
+        options.ignoreRules &&
+        (await options.ignoreRules.isIgnored(entryPath, stats.isDirectory()))
+      ) {
+        continue;
+      }
+
       // エントリタイプの判定
       let type: 'file' | 'directory' | 'symlink';
       if (stats.isSymbolicLink()) {
@@ -393,9 +2047,10 @@ export class FileOperationsTool {
 
       // エントリを追加（パターンマッチする場合、またはディレクトリで再帰モードの場合）
       if (
-        !options.pattern ||
-        minimatch(entryName, options.pattern) ||
-        (options.recursive && type === 'directory')
+        decision === 'include' &&
+        (!options.pattern ||
+          minimatch(entryName, options.pattern) ||
+          (options.recursive && type === 'directory'))
       ) {
         entries.push({
           name: entryName,
@@ -0,0 +1,170 @@
+/**
+ * Ignore Rules
+ *
+ * プロジェクト走査で共通に使用する無視ルール
+ *
+ * git と同様に、以下のルールを浅い階層から順に評価し、後に一致したルールを優先する
+ * （否定パターン `!pattern` による再包含に対応）:
+ * - git のグローバルな除外ファイル（core.excludesFile、未設定の場合は $XDG_CONFIG_HOME/git/ignore）
+ * - プロジェクトルートの .git/info/exclude
+ * - 各ディレクトリの .gitignore
+ * - 各ディレクトリの .cursorignore
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ignore, { type Ignore } from 'ignore';
+
+/**
+ * 各ディレクトリで読み込む無視ファイル（後のファイルほど優先）
+ */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.cursorignore'] as const;
+
+/**
+ * ファイルを読み込む（存在しない・読み込めない場合は null）
+ */
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * git の設定ファイルの内容から core.excludesFile の値を取得する（未設定の場合は null）
+ */
+function parseExcludesFile(config: string): string | null {
+  let inCore = false;
+  let value: string | null = null;
+
+  for (const rawLine of config.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inCore = /^\[\s*core\s*\]/i.test(line);
+      continue;
+    }
+
+    const match = inCore ? /^excludesfile\s*=\s*(.*)$/i.exec(line) : null;
+    if (match) {
+      // 行末のコメントと値を囲む引用符を取り除く（同じキーは後の値を優先する）
+      const raw = match[1].replace(/\s+[#;].*$/, '').trim();
+      value = raw.replace(/^"(.*)"$/, '$1');
+    }
+  }
+
+  return value || null;
+}
+
+/**
+ * git のグローバルな除外ファイルのパスを取得する
+ *
+ * core.excludesFile をリポジトリの .git/config、~/.gitconfig、$XDG_CONFIG_HOME/git/config の
+ * 順に探し、未設定の場合は $XDG_CONFIG_HOME/git/ignore（既定: ~/.config/git/ignore）を使用する
+ */
+async function resolveGlobalExcludesFile(root: string): Promise<string> {
+  // git と同様に HOME 環境変数を優先する
+  const home = process.env.HOME || os.homedir();
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(home, '.config');
+  const configs = [
+    path.join(root, '.git', 'config'),
+    path.join(home, '.gitconfig'),
+    path.join(configHome, 'git', 'config'),
+  ];
+
+  for (const configPath of configs) {
+    const content = await readOptionalFile(configPath);
+    const excludesFile = content === null ? null : parseExcludesFile(content);
+    if (excludesFile) {
+      // ~ はホームディレクトリ、相対パスはルートからのパスとして解決する
+      return excludesFile.startsWith('~/')
+        ? path.join(home, excludesFile.slice(2))
+        : path.resolve(root, excludesFile);
+    }
+  }
+
+  return path.join(configHome, 'git', 'ignore');
+}
+
+/**
+ * 無視ルール
+ *
+ * ディレクトリごとの無視ファイルは初回の判定時に読み込んでキャッシュする。
+ * 走査中の無視ファイルの変更を反映しないため、インスタンスは走査ごとに作成する
+ */
+export class IgnoreRules {
+  private readonly root: string;
+  private readonly rulesByDir = new Map<string, Promise<Ignore | null>>();
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  /**
+   * 指定パスが無視対象か判定する
+   *
+   * ルート外のパスとルート自身は常に無視対象外とする
+   */
+  async isIgnored(targetPath: string, isDirectory: boolean): Promise<boolean> {
+    const relativePath = path.relative(this.root, targetPath);
+    if (relativePath === '' || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return false;
+    }
+
+    const segments = relativePath.split(path.sep);
+    let ignored = false;
+
+    // ルートから親ディレクトリまで、各階層のルールをその階層からの相対パスで評価する
+    for (let depth = 0; depth < segments.length; depth++) {
+      const rules = await this.loadRules(path.join(this.root, ...segments.slice(0, depth)));
+      if (!rules) {
+        continue;
+      }
+
+      const candidate = segments.slice(depth).join('/') + (isDirectory ? '/' : '');
+      const result = rules.test(candidate);
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    }
+
+    return ignored;
+  }
+
+  /**
+   * ディレクトリの無視ルールを読み込む（ルールがない場合は null）
+   */
+  private loadRules(dir: string): Promise<Ignore | null> {
+    let rules = this.rulesByDir.get(dir);
+    if (!rules) {
+      rules = this.readRules(dir);
+      this.rulesByDir.set(dir, rules);
+    }
+    return rules;
+  }
+
+  private async readRules(dir: string): Promise<Ignore | null> {
+    const sources = IGNORE_FILE_NAMES.map((name) => path.join(dir, name));
+    if (dir === this.root) {
+      sources.unshift(
+        await resolveGlobalExcludesFile(dir),
+        path.join(dir, '.git', 'info', 'exclude')
+      );
+    }
+
+    const contents = await Promise.all(sources.map(readOptionalFile));
+    const present = contents.filter((content): content is string => content !== null);
+    if (present.length === 0) {
+      return null;
+    }
+
+    const rules = ignore();
+    for (const content of present) {
+      rules.add(content);
+    }
+    return rules;
+  }
+}
@@ -5,19 +5,30 @@
  * Requirement: 5.4
  */
 
-import type { ToolRegistry } from '../protocol/registry.js';
+import { existsSync } from 'fs';
+import { ToolPriority, type ToolRegistry } from '../protocol/registry.js';
 import type { SecurityValidator } from '../security/validator.js';
 import {
   FileOperationsTool,
   ReadFileSchema,
   WriteFileSchema,
+  EditFileSchema,
+  ApplyPatchSchema,
+  DeletePathSchema,
+  MovePathSchema,
+  CopyPathSchema,
+  CreateDirectorySchema,
   ListDirectorySchema,
+  FileOperationsOptions,
 } from './file-operations.js';
 import {
   ProjectManagementTool,
   GetProjectInfoSchema,
+  ListWorkspacesSchema,
   SearchFilesSchema,
+  SearchContentSchema,
   GetWorkspaceStructureSchema,
+  ProjectManagementOptions,
 } from './project-management.js';
 import {
   EditorControlTool,
@@ -34,6 +45,20 @@ import {
   TrackTokenUsageSchema,
   GetModelStatisticsSchema,
 } from './model-info.js';
+import { ServerStatsTool, ServerStatsSource, GetServerStatsSchema } from './server-stats.js';
+
+/**
+ * パスが既存のファイルまたはディレクトリを指すか判定する（破壊的操作の判定用）
+ *
+ * パスを解決できない場合は安全側に倒して存在するものとして扱う
+ */
+function pathExists(securityValidator: SecurityValidator, targetPath: string): boolean {
+  try {
+    return existsSync(securityValidator.sanitizePath(targetPath));
+  } catch {
+    return true;
+  }
+}
 
 /**
  * ファイル操作ツールをツールレジストリに登録する
@@ -43,18 +68,39 @@ import {
 export function registerFileOperationsTools(
   registry: ToolRegistry,
   securityValidator: SecurityValidator,
-  projectRoot: string
-): void {
-  const fileOps = new FileOperationsTool(securityValidator, projectRoot);
+  projectRoot: string,
+  options: FileOperationsOptions = {}
+): FileOperationsTool {
+  const fileOps = new FileOperationsTool(securityValidator, projectRoot, options);
 
   // read_file ツールを登録
   registry.register({
     name: 'read_file',
-    description: 'ファイルの内容を読み取ります。相対パスまたは絶対パスを指定できます。',
+    description:
+      'ファイルの内容を読み取ります。相対パスまたは絶対パスを指定できます。startLine/endLine/maxLinesで行単位の読み取りも可能です。encoding: autoでエンコーディングとバイナリを自動判定し、画像はimageコンテンツで返却します。',
     schema: ReadFileSchema,
-    handler: async (params) => {
+    handler: async (params, signal) => {
       try {
-        const result = await fileOps.readFile(params);
+        const result = await fileOps.readFile(params, signal);
+
+        // 画像は image コンテンツとして返却し、メタデータをテキストで添える
+        if (result.mimeType && !result.truncated) {
+          const { content, ...metadata } = result;
+          return {
+            content: [
+              {
+                type: 'image',
+                data: content,
+                mimeType: result.mimeType,
+              },
+              {
+                type: 'text',
+                text: JSON.stringify(metadata, null, 2),
+              },
+            ],
+          };
+        }
+
         return {
           content: [
             {
@@ -81,8 +127,14 @@ export function registerFileOperationsTools(
   // write_file ツールを登録
   registry.register({
     name: 'write_file',
-    description: 'ファイルに内容を書き込みます。相対パスまたは絶対パスを指定できます。',
+    description:
+      'ファイルに内容をアトミックに書き込みます。相対パスまたは絶対パスを指定できます。read_fileのlastModified/hashをexpectedMtime/expectedHashに指定すると、読み取り後の変更を競合として検出します。',
     schema: WriteFileSchema,
+    // 既存ファイルを上書きする場合のみ破壊的操作として扱う（新規作成は確認不要）。
+    // 移動元として取り除いたパスへの書き込みは、置き換えと同じため確認を要求する
+    destructive: (params) =>
+      (params.overwrite !== false && pathExists(securityValidator, params.path)) ||
+      fileOps.wasRemoved(params.path),
     handler: async (params) => {
       try {
         const result = await fileOps.writeFile(params);
@@ -109,15 +161,212 @@ export function registerFileOperationsTools(
     },
   });
 
+  // edit_file ツールを登録
+  registry.register({
+    name: 'edit_file',
+    description:
+      'ファイルに検索・置換（oldText/newText）または行範囲（startLine/endLine）の編集をアトミックに適用し、unified diffを返却します。oldTextはファイル内で一意である必要があります。IDEの起動は不要です。',
+    schema: EditFileSchema,
+    destructive: true,
+    handler: async (params) => {
+      try {
+        const result = await fileOps.editFile(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  });
+
+  // apply_patch ツールを登録
+  registry.register({
+    name: 'apply_patch',
+    description:
+      'unified diff形式のパッチ（複数ファイル可）を適用します。ハンクの行番号のずれは自動で補正し、全てのハンクが適用できる場合のみファイルを変更します。dryRunで各ハンクの適用可否を確認できます。',
+    schema: ApplyPatchSchema,
+    destructive: true,
+    handler: async (params) => {
+      try {
+        const result = await fileOps.applyPatch(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  });
+
+  // delete_path ツールを登録
+  registry.register({
+    name: 'delete_path',
+    description:
+      'ファイルまたはディレクトリを削除します。空でないディレクトリはrecursive: trueが必要です。trash: trueの場合は完全には削除せず.cursorcli-mcp/trashへ移動します（ゴミ箱はツールから参照できません）。',
+    schema: DeletePathSchema,
+    // ゴミ箱はツールから参照・復元できないため、ゴミ箱への移動も確認を要求する
+    destructive: true,
+    handler: async (params) => {
+      try {
+        const result = await fileOps.deletePath(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  });
+
+  // move_path ツールを登録
+  registry.register({
+    name: 'move_path',
+    description:
+      'ファイルまたはディレクトリを移動（名前変更）します。移動先が存在する場合はoverwrite: trueが必要です。',
+    schema: MovePathSchema,
+    destructive: (params) => params.overwrite === true || fileOps.wasRemoved(params.destination),
+    handler: async (params) => {
+      try {
+        const result = await fileOps.movePath(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  });
+
+  // copy_path ツールを登録
+  registry.register({
+    name: 'copy_path',
+    description:
+      'ファイルまたはディレクトリをコピーします。ディレクトリはrecursive: true、既存のコピー先の置き換えにはoverwrite: trueが必要です。',
+    schema: CopyPathSchema,
+    destructive: (params) => params.overwrite === true || fileOps.wasRemoved(params.destination),
+    handler: async (params) => {
+      try {
+        const result = await fileOps.copyPath(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  });
+
+  // create_directory ツールを登録
+  registry.register({
+    name: 'create_directory',
+    description: 'ディレクトリを作成します。既に存在する場合は何もしません。',
+    schema: CreateDirectorySchema,
+    handler: async (params) => {
+      try {
+        const result = await fileOps.createDirectory(params);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  });
+
   // list_directory ツールを登録
   registry.register({
     name: 'list_directory',
     description:
-      'ディレクトリの内容を一覧表示します。再帰的な取得やglobパターンフィルタリングに対応しています。',
+      'ディレクトリの内容を一覧表示します。再帰的な取得やglobパターンフィルタリングに対応し、.gitignore / .cursorignore 対象は除外します。結果が pageSize を超える場合は nextCursor を cursor に指定して続きを取得します。',
     schema: ListDirectorySchema,
-    handler: async (params) => {
+    handler: async (params, signal) => {
       try {
-        const result = await fileOps.listDirectory(params);
+        const result = await fileOps.listDirectory(params, signal);
         return {
           content: [
             {
@@ -140,6 +389,8 @@ export function registerFileOperationsTools(
       }
     },
   });
+
+  return fileOps;
 }
 
 /**
@@ -150,14 +401,16 @@ export function registerFileOperationsTools(
 export function registerProjectManagementTools(
   registry: ToolRegistry,
   securityValidator: SecurityValidator,
-  projectRoot: string
-): void {
-  const projectMgmt = new ProjectManagementTool(projectRoot, securityValidator);
+  projectRoot: string,
+  options: ProjectManagementOptions = {}
+): ProjectManagementTool {
+  const projectMgmt = new ProjectManagementTool(projectRoot, securityValidator, options);
 
   // get_project_info ツールを登録
   registry.register({
     name: 'get_project_info',
-    description: 'プロジェクトの情報（名前、ルートパス、設定、言語、フレームワーク）を取得します。',
+    description:
+      'プロジェクトの情報（名前、ルートパス、設定、言語、フレームワーク、パッケージマネージャー、モノレポ構成、実行可能なスクリプト）を取得します。ビルドやテストの方法の判断に使用できます。',
     schema: GetProjectInfoSchema,
     handler: async () => {
       try {
@@ -185,15 +438,81 @@ export function registerProjectManagementTools(
     },
   });
 
+  // list_workspaces ツールを登録
+  registry.register({
+    name: 'list_workspaces',
+    description:
+      'モノレポのワークスペース（npm/yarn/pnpm workspaces、Cargo workspace、go.work、Maven/Gradle のモジュール、Nx/Turbo のプロジェクト）を一覧表示し、パッケージごとのプロジェクト情報を返します。search_files と get_workspace_structure の workspace に名前または相対パスを指定して走査範囲を絞り込めます。',
+    schema: ListWorkspacesSchema,
+    handler: async (_params, signal) => {
+      try {
+        const result = await projectMgmt.listWorkspaces(signal);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  });
+
   // search_files ツールを登録
   registry.register({
     name: 'search_files',
     description:
-      'glob パターンでファイルを検索します。.gitignore対応、最大結果数制限、ファイルタイプフィルタリングが可能です。',
+      'glob パターンでファイルを検索します。.gitignore / .cursorignore 対応、最大結果数制限、ファイルタイプフィルタリングが可能です。結果が maxResults を超える場合は nextCursor を cursor に指定して続きを取得します。',
     schema: SearchFilesSchema,
-    handler: async (params) => {
+    priority: ToolPriority.LOW,
+    handler: async (params, signal) => {
+      try {
+        const result = await projectMgmt.searchFiles(params, signal);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  });
+
+  // search_content ツールを登録
+  registry.register({
+    name: 'search_content',
+    description:
+      'プロジェクト内のファイルの内容を文字列または正規表現で検索します。大文字小文字の区別、前後の行の表示、include/excludeのglobパターン、.gitignore / .cursorignore 対応、バイナリファイルの除外、最大結果数制限が可能です。',
+    schema: SearchContentSchema,
+    priority: ToolPriority.LOW,
+    handler: async (params, signal) => {
       try {
-        const result = await projectMgmt.searchFiles(params);
+        const result = await projectMgmt.searchContent(params, signal);
         return {
           content: [
             {
@@ -221,11 +540,12 @@ export function registerProjectManagementTools(
   registry.register({
     name: 'get_workspace_structure',
     description:
-      'プロジェクトのディレクトリツリー構造をJSON形式で取得します。最大深さ制限と除外パターンに対応しています。',
+      'プロジェクトのディレクトリツリー構造をJSON形式で取得します。最大深さ制限と除外パターンに対応し、.gitignore / .cursorignore 対象は除外します。',
     schema: GetWorkspaceStructureSchema,
-    handler: async (params) => {
+    priority: ToolPriority.LOW,
+    handler: async (params, signal) => {
       try {
-        const result = await projectMgmt.getWorkspaceStructure(params);
+        const result = await projectMgmt.getWorkspaceStructure(params, signal);
         return {
           content: [
             {
@@ -248,6 +568,8 @@ export function registerProjectManagementTools(
       }
     },
   });
+
+  return projectMgmt;
 }
 
 /**
@@ -258,7 +580,7 @@ export function registerProjectManagementTools(
 export function registerEditorControlTools(
   registry: ToolRegistry,
   editorAPI: CursorEditorAPI
-): void {
+): EditorControlTool {
   const editorControl = new EditorControlTool(editorAPI);
 
   // open_file_in_editor ツールを登録
@@ -267,6 +589,7 @@ export function registerEditorControlTools(
     description:
       'Cursor IDEでファイルを開きます。行番号や列番号を指定してカーソル位置を移動できます。',
     schema: OpenFileSchema,
+    priority: ToolPriority.HIGH,
     handler: async (params) => {
       try {
         const result = await editorControl.openFileInEditor(params);
@@ -299,6 +622,7 @@ export function registerEditorControlTools(
     description:
       '現在Cursor IDEでアクティブになっているファイルの情報（パス、カーソル位置、選択範囲）を取得します。',
     schema: GetActiveFileSchema,
+    priority: ToolPriority.HIGH,
     handler: async () => {
       try {
         const result = await editorControl.getActiveFile();
@@ -331,6 +655,7 @@ export function registerEditorControlTools(
     description:
       '指定された位置にテキストを挿入します。位置を省略した場合は現在のカーソル位置に挿入します。',
     schema: InsertTextSchema,
+    priority: ToolPriority.HIGH,
     handler: async (params) => {
       try {
         const result = await editorControl.insertText(params);
@@ -362,6 +687,7 @@ export function registerEditorControlTools(
     name: 'replace_text',
     description: '指定された範囲のテキストを置換します。複数行にまたがる範囲も指定できます。',
     schema: ReplaceTextSchema,
+    priority: ToolPriority.HIGH,
     handler: async (params) => {
       try {
         const result = await editorControl.replaceText(params);
@@ -387,6 +713,8 @@ export function registerEditorControlTools(
       }
     },
   });
+
+  return editorControl;
 }
 
 /**
@@ -498,30 +826,96 @@ export function registerModelInfoTools(registry: ToolRegistry, modelAPI: CursorM
   });
 }
 
+/**
+ * サーバー統計ツールをツールレジストリに登録する
+ *
+ * Requirement 8.1, 8.2: 実行時間と並行実行状況の診断
+ */
+export function registerServerStatsTools(registry: ToolRegistry, source: ServerStatsSource): void {
+  const serverStats = new ServerStatsTool(source);
+
+  // get_server_stats ツールを登録
+  registry.register({
+    name: 'get_server_stats',
+    description:
+      'サーバーの統計情報（稼働時間、ツール別の呼び出し数・エラー数、レイテンシのp50/p95/p99、並行実行数と待機数、設定読み込み時間、メモリ使用量）を取得します。',
+    schema: GetServerStatsSchema,
+    priority: ToolPriority.HIGH,
+    handler: () => {
+      try {
+        const result = serverStats.getServerStats();
+        return Promise.resolve({
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return Promise.resolve({
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        });
+      }
+    },
+  });
+}
+
 export { FileOperationsTool } from './file-operations.js';
 export { ProjectManagementTool } from './project-management.js';
 export { EditorControlTool } from './editor-control.js';
 export { ModelInfoTool } from './model-info.js';
+export { ServerStatsTool } from './server-stats.js';
+export { FileResourceProvider } from './resources.js';
+export { ProjectPromptProvider } from './prompts.js';
 
 export type {
   ReadFileParams,
   ReadFileResult,
   WriteFileParams,
   WriteFileResult,
+  EditFileParams,
+  EditFileResult,
+  FileEdit,
+  ApplyPatchParams,
+  ApplyPatchResult,
+  PatchFileResult,
+  DeletePathParams,
+  DeletePathResult,
+  MovePathParams,
+  CopyPathParams,
+  TransferPathResult,
+  CreateDirectoryParams,
+  CreateDirectoryResult,
   ListDirectoryParams,
   ListDirectoryResult,
   FileEntry,
+  FileOperationsOptions,
 } from './file-operations.js';
 
 export type {
   ProjectInfo,
+  ListWorkspacesParams,
+  ListWorkspacesResult,
+  WorkspacePackage,
   SearchFilesParams,
   SearchFilesResult,
   SearchResult,
+  SearchContentParams,
+  SearchContentResult,
+  ContentMatch,
   GetWorkspaceStructureParams,
   WorkspaceStructure,
   DirectoryNode,
   FileNode,
+  ProjectManagementOptions,
 } from './project-management.js';
 
 export type {
@@ -545,3 +939,11 @@ export type {
   ModelUsage,
   CursorModelAPI,
 } from './model-info.js';
+
+export type {
+  GetServerStatsParams,
+  ServerStats,
+  MemoryStats,
+  ConfigLoadStats,
+  ServerStatsSource,
+} from './server-stats.js';
@@ -0,0 +1,127 @@
+/**
+ * Pagination
+ *
+ * ディレクトリ走査結果のカーソルベースのページネーション
+ *
+ * 走査はエントリ名でソートした深さ優先（親が子より先）の順序で行い、
+ * カーソルには最後に返却したエントリの位置（基準ディレクトリからのパス要素）を保持する。
+ * 再開時はカーソル以前のサブツリーを読み飛ばすため、ページ数に比例した再走査は発生しない
+ */
+
+import { createHash } from 'crypto';
+import { ValidationError } from '../errors/index.js';
+
+/**
+ * 走査順序上の位置（基準ディレクトリからのパス要素）
+ */
+export type TraversalPosition = string[];
+
+/**
+ * カーソルの内容
+ */
+interface CursorPayload {
+  /** 最後に返却したエントリの位置 */
+  p: TraversalPosition;
+  /** カーソルを発行したクエリの識別子 */
+  s: string;
+}
+
+/**
+ * クエリの識別子を計算する（異なるクエリのカーソルの流用を検出するため）
+ */
+export function cursorScope(query: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(query) ?? '')
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * カーソルを発行する
+ */
+export function encodeCursor(position: TraversalPosition, scope: string): string {
+  const payload: CursorPayload = { p: position, s: scope };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * カーソルを検証して位置を取り出す
+ *
+ * 形式が不正な場合や、異なるクエリで発行されたカーソルの場合は ValidationError をスローする
+ */
+export function decodeCursor(cursor: string, scope: string): TraversalPosition {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8')
+    ) as Partial<CursorPayload>;
+  } catch {
+    throw new ValidationError('Invalid cursor', 'cursor', cursor);
+  }
+
+  if (
+    typeof payload !== 'object' ||
+    payload === null ||
+    !Array.isArray(payload.p) ||
+    payload.p.length === 0 ||
+    !payload.p.every((segment) => typeof segment === 'string')
+  ) {
+    throw new ValidationError('Invalid cursor', 'cursor', cursor);
+  }
+  if (payload.s !== scope) {
+    throw new ValidationError(
+      'Cursor was issued for a different query; restart without cursor',
+      'cursor',
+      cursor
+    );
+  }
+
+  return payload.p;
+}
+
+/**
+ * エントリ名を比較する（ロケールに依存しない安定した順序）
+ */
+export function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * 走査順序上の位置を比較する（親は子より前）
+ */
+export function comparePositions(a: TraversalPosition, b: TraversalPosition): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const result = compareNames(a[i], b[i]);
+    if (result !== 0) {
+      return result;
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * カーソルに対するエントリの扱い
+ *
+ * - 'include': カーソルより後のエントリ
+ * - 'descend': 返却済みだが、配下にカーソルより後のエントリがあり得る
+ * - 'skip': エントリも配下も返却済み
+ */
+export type CursorDecision = 'include' | 'descend' | 'skip';
+
+/**
+ * カーソルに対するエントリの扱いを判定する
+ */
+export function resumeDecision(
+  position: TraversalPosition,
+  cursor: TraversalPosition | undefined
+): CursorDecision {
+  if (!cursor || comparePositions(position, cursor) > 0) {
+    return 'include';
+  }
+
+  // カーソル自身とその祖先は、配下にカーソルより後のエントリを含み得る
+  const isAncestorOrSelf =
+    position.length <= cursor.length && position.every((segment, i) => segment === cursor[i]);
+  return isAncestorOrSelf ? 'descend' : 'skip';
+}
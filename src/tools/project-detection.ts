@@ -0,0 +1,577 @@
+/**
+ * Project Detection
+ *
+ * プロジェクトルートのマニフェストファイルから、言語・フレームワーク・パッケージマネージャー・
+ * モノレポ構成・実行可能なスクリプトを推測する
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * モノレポ構成
+ */
+export interface MonorepoInfo {
+  /** モノレポを構成しているツール（pnpm, turbo, cargo など） */
+  tools: string[];
+  /** ワークスペースのメンバー（glob パターンを含む） */
+  packages: string[];
+}
+
+/**
+ * プロジェクトの検出結果
+ */
+export interface ProjectDetection {
+  name?: string;
+  /** 検出した言語（主要な言語が先頭） */
+  languages: string[];
+  /** 検出したフレームワーク（メタフレームワークが先頭） */
+  frameworks: string[];
+  packageManager?: string;
+  /** 検出の根拠となったマニフェストファイル */
+  manifests: string[];
+  /** 実行可能なスクリプト（スクリプト名 → コマンド） */
+  scripts: Record<string, string>;
+  monorepo?: MonorepoInfo;
+}
+
+/**
+ * 言語エコシステムごとの検出結果
+ */
+interface EcosystemDetection {
+  language: string;
+  name?: string;
+  frameworks?: string[];
+  packageManager?: string;
+  manifests: string[];
+  scripts?: Record<string, string>;
+  monorepo?: MonorepoInfo;
+}
+
+/**
+ * 検出処理のコンテキスト
+ */
+interface DetectionContext {
+  /** プロジェクトルート直下のエントリ名 */
+  entries: Set<string>;
+  /** プロジェクトルートからの相対パスでファイルを読み込む（存在しない場合は null） */
+  read: (name: string) => Promise<string | null>;
+}
+
+type Detector = (context: DetectionContext) => Promise<EcosystemDetection | null>;
+
+/**
+ * npm パッケージ名とフレームワーク名の対応（メタフレームワークを先に判定する）
+ */
+const NODE_FRAMEWORKS: ReadonlyArray<readonly [string, string]> = [
+  ['next', 'next'],
+  ['nuxt', 'nuxt'],
+  ['@sveltejs/kit', 'sveltekit'],
+  ['@remix-run/react', 'remix'],
+  ['astro', 'astro'],
+  ['@nestjs/core', 'nestjs'],
+  ['@angular/core', 'angular'],
+  ['angular', 'angular'],
+  ['react', 'react'],
+  ['vue', 'vue'],
+  ['svelte', 'svelte'],
+  ['express', 'express'],
+  ['fastify', 'fastify'],
+  ['vite', 'vite'],
+];
+
+/**
+ * ロックファイルとパッケージマネージャーの対応
+ */
+const NODE_LOCKFILES: ReadonlyArray<readonly [string, string]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm'],
+];
+
+/**
+ * JavaScript 系のモノレポツールの設定ファイル
+ */
+const NODE_MONOREPO_FILES: ReadonlyArray<readonly [string, string]> = [
+  ['pnpm-workspace.yaml', 'pnpm'],
+  ['lerna.json', 'lerna'],
+  ['nx.json', 'nx'],
+  ['turbo.json', 'turbo'],
+];
+
+const PYTHON_MANIFESTS = ['pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt', 'Pipfile'];
+const PYTHON_FRAMEWORKS = ['django', 'flask', 'fastapi'];
+const RUST_FRAMEWORKS = ['axum', 'actix-web', 'rocket', 'tauri'];
+const PHP_FRAMEWORKS: ReadonlyArray<readonly [string, string]> = [
+  ['laravel/framework', 'laravel'],
+  ['symfony/framework-bundle', 'symfony'],
+];
+
+/**
+ * オブジェクトか判定する
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON オブジェクトとして解析する（解析できない場合は空のオブジェクト）
+ */
+function parseJsonObject(content: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 文字列の配列を取り出す（文字列以外の要素は除外）
+ */
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+/**
+ * 重複を除いて連結する
+ */
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/**
+ * TOML のテーブル（[header] から次のテーブルまで）を取り出す
+ */
+function tomlTable(content: string, header: string): string | null {
+  const lines = content.split(/\r?\n/);
+  const start = lines.findIndex((line) => line.trim() === `[${header}]`);
+  if (start === -1) {
+    return null;
+  }
+
+  const end = lines.findIndex((line, i) => i > start && line.trim().startsWith('['));
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n');
+}
+
+/**
+ * TOML のテーブルから文字列の値を取り出す
+ */
+function tomlString(table: string | null, key: string): string | undefined {
+  return table?.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']*)["']`, 'm'))?.[1];
+}
+
+/**
+ * TOML のテーブルから文字列の配列を取り出す
+ */
+function tomlStringArray(table: string | null, key: string): string[] {
+  const body = table?.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'))?.[1];
+  return body ? quotedStrings(body) : [];
+}
+
+/**
+ * 引用符で囲まれた文字列を全て取り出す
+ */
+function quotedStrings(text: string): string[] {
+  return [...text.matchAll(/["']([^"']+)["']/g)].map((match) => match[1]);
+}
+
+/**
+ * テキストにパッケージ名が単語として含まれるか判定する
+ */
+function mentionsPackage(text: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  return new RegExp(`(^|[^\\w-])${escaped}([^\\w-]|$)`, 'im').test(text);
+}
+
+/**
+ * pnpm-workspace.yaml の packages を取り出す
+ */
+function parsePnpmWorkspace(content: string): string[] {
+  const packages: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (!inPackages || line.trim() === '' || line.trim().startsWith('#')) {
+      continue;
+    }
+
+    const item = line.match(/^\s+-\s*["']?([^"'#\s]+)["']?/);
+    if (!item) {
+      break;
+    }
+    packages.push(item[1]);
+  }
+
+  return packages;
+}
+
+/**
+ * JavaScript / TypeScript（package.json）
+ */
+const detectNode: Detector = async ({ entries, read }) => {
+  const content = await read('package.json');
+  if (content === null) {
+    return null;
+  }
+
+  const pkg = parseJsonObject(content);
+  const dependencies = {
+    ...(isRecord(pkg.dependencies) ? pkg.dependencies : {}),
+    ...(isRecord(pkg.devDependencies) ? pkg.devDependencies : {}),
+  };
+
+  // packageManager フィールド（例: pnpm@9.0.0）を優先し、なければロックファイルから推測
+  const declaredManager =
+    typeof pkg.packageManager === 'string' ? pkg.packageManager.split('@')[0] : undefined;
+  const packageManager =
+    declaredManager || (NODE_LOCKFILES.find(([file]) => entries.has(file))?.[1] ?? 'npm');
+
+  const tools: string[] = [];
+  const packages: string[] = [];
+  const workspaces = isRecord(pkg.workspaces)
+    ? stringArray(pkg.workspaces.packages)
+    : stringArray(pkg.workspaces);
+  if (workspaces.length > 0) {
+    tools.push(packageManager);
+    packages.push(...workspaces);
+  }
+  for (const [file, tool] of NODE_MONOREPO_FILES) {
+    if (entries.has(file)) {
+      tools.push(tool);
+    }
+  }
+  const pnpmWorkspace = await read('pnpm-workspace.yaml');
+  if (pnpmWorkspace !== null) {
+    packages.push(...parsePnpmWorkspace(pnpmWorkspace));
+  }
+  const lerna = await read('lerna.json');
+  if (lerna !== null) {
+    packages.push(...stringArray(parseJsonObject(lerna).packages));
+  }
+
+  const scripts: Record<string, string> = {};
+  if (isRecord(pkg.scripts)) {
+    for (const [name, command] of Object.entries(pkg.scripts)) {
+      if (typeof command === 'string') {
+        scripts[name] = command;
+      }
+    }
+  }
+
+  return {
+    language: entries.has('tsconfig.json') ? 'typescript' : 'javascript',
+    name: typeof pkg.name === 'string' ? pkg.name : undefined,
+    frameworks: NODE_FRAMEWORKS.filter(([dependency]) => dependency in dependencies).map(
+      ([, framework]) => framework
+    ),
+    packageManager,
+    manifests: ['package.json'],
+    scripts,
+    monorepo: tools.length > 0 ? { tools: unique(tools), packages: unique(packages) } : undefined,
+  };
+};
+
+/**
+ * Python（pyproject.toml / setup.py / requirements.txt など）
+ */
+const detectPython: Detector = async ({ entries, read }) => {
+  const manifests = PYTHON_MANIFESTS.filter((file) => entries.has(file));
+  if (manifests.length === 0) {
+    return null;
+  }
+
+  const pyproject = (await read('pyproject.toml')) ?? '';
+  const dependencyText = [
+    pyproject,
+    (await read('requirements.txt')) ?? '',
+    (await read('Pipfile')) ?? '',
+  ].join('\n');
+  const poetry = tomlTable(pyproject, 'tool.poetry');
+
+  let packageManager = 'pip';
+  if (entries.has('uv.lock')) {
+    packageManager = 'uv';
+  } else if (entries.has('poetry.lock') || poetry !== null) {
+    packageManager = 'poetry';
+  } else if (entries.has('pdm.lock')) {
+    packageManager = 'pdm';
+  } else if (entries.has('Pipfile')) {
+    packageManager = 'pipenv';
+  }
+
+  const members = tomlStringArray(tomlTable(pyproject, 'tool.uv.workspace'), 'members');
+
+  return {
+    language: 'python',
+    name: tomlString(tomlTable(pyproject, 'project'), 'name') ?? tomlString(poetry, 'name'),
+    frameworks: PYTHON_FRAMEWORKS.filter((name) => mentionsPackage(dependencyText, name)),
+    packageManager,
+    manifests,
+    monorepo: members.length > 0 ? { tools: ['uv'], packages: members } : undefined,
+  };
+};
+
+/**
+ * Go（go.mod / go.work）
+ */
+const detectGo: Detector = async ({ read }) => {
+  const goMod = await read('go.mod');
+  const goWork = await read('go.work');
+  if (goMod === null && goWork === null) {
+    return null;
+  }
+
+  // use ./a または use ( ./a ./b ) 形式のディレクティブ
+  const members: string[] = [];
+  for (const match of (goWork ?? '').matchAll(/^use\s*(?:\(([^)]*)\)|(\S+))/gm)) {
+    const block = match[1] ?? match[2];
+    members.push(...block.split(/\s+/).filter((member) => member && !member.startsWith('//')));
+  }
+
+  return {
+    language: 'go',
+    name: goMod?.match(/^module\s+(\S+)/m)?.[1],
+    packageManager: 'go',
+    manifests: [...(goMod !== null ? ['go.mod'] : []), ...(goWork !== null ? ['go.work'] : [])],
+    monorepo: members.length > 0 ? { tools: ['go'], packages: members } : undefined,
+  };
+};
+
+/**
+ * Rust（Cargo.toml）
+ */
+const detectRust: Detector = async ({ read }) => {
+  const cargo = await read('Cargo.toml');
+  if (cargo === null) {
+    return null;
+  }
+
+  const members = tomlStringArray(tomlTable(cargo, 'workspace'), 'members');
+
+  return {
+    language: 'rust',
+    name: tomlString(tomlTable(cargo, 'package'), 'name'),
+    frameworks: RUST_FRAMEWORKS.filter((name) => mentionsPackage(cargo, name)),
+    packageManager: 'cargo',
+    manifests: ['Cargo.toml'],
+    monorepo: members.length > 0 ? { tools: ['cargo'], packages: members } : undefined,
+  };
+};
+
+/**
+ * Java（Maven の pom.xml / Gradle のビルドスクリプト）
+ */
+const detectJava: Detector = async ({ entries, read }) => {
+  const pom = await read('pom.xml');
+  if (pom !== null) {
+    // 親プロジェクトの artifactId を除外してから取り出す
+    const ownPom = pom.replace(/<parent>[\s\S]*?<\/parent>/, '');
+    const modules = [...pom.matchAll(/<module>\s*([^<\s]+)\s*<\/module>/g)].map(
+      (match) => match[1]
+    );
+
+    return {
+      language: 'java',
+      name: ownPom.match(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/)?.[1],
+      frameworks: pom.includes('spring-boot') ? ['spring-boot'] : [],
+      packageManager: 'maven',
+      manifests: ['pom.xml'],
+      monorepo: modules.length > 0 ? { tools: ['maven'], packages: modules } : undefined,
+    };
+  }
+
+  const manifests = [
+    'build.gradle',
+    'build.gradle.kts',
+    'settings.gradle',
+    'settings.gradle.kts',
+  ].filter((file) => entries.has(file));
+  if (manifests.length === 0) {
+    return null;
+  }
+
+  const contents = await Promise.all(manifests.map((file) => read(file)));
+  const text = contents.join('\n');
+  const includes = [...text.matchAll(/^\s*include\b(.*)$/gm)].flatMap((match) =>
+    quotedStrings(match[1]).map((project) => project.replace(/^:/, '').replace(/:/g, '/'))
+  );
+
+  return {
+    language: 'java',
+    name: text.match(/rootProject\.name\s*=\s*["']([^"']+)["']/)?.[1],
+    frameworks: text.includes('spring-boot') ? ['spring-boot'] : [],
+    packageManager: 'gradle',
+    manifests,
+    monorepo: includes.length > 0 ? { tools: ['gradle'], packages: includes } : undefined,
+  };
+};
+
+/**
+ * Ruby（Gemfile）
+ */
+const detectRuby: Detector = async ({ read }) => {
+  const gemfile = await read('Gemfile');
+  if (gemfile === null) {
+    return null;
+  }
+
+  return {
+    language: 'ruby',
+    frameworks: ['rails', 'sinatra'].filter((name) =>
+      new RegExp(`^\\s*gem\\s+["']${name}["']`, 'm').test(gemfile)
+    ),
+    packageManager: 'bundler',
+    manifests: ['Gemfile'],
+  };
+};
+
+/**
+ * .NET（*.sln / *.csproj / *.fsproj）
+ */
+const detectDotnet: Detector = async ({ entries, read }) => {
+  const solutions = [...entries].filter((entry) => entry.endsWith('.sln'));
+  const projects = [...entries].filter((entry) => /\.(cs|fs|vb)proj$/.test(entry));
+  if (solutions.length === 0 && projects.length === 0) {
+    return null;
+  }
+
+  // Project("{GUID}") = "Name", "path/to/Name.csproj", "{GUID}"
+  const solutionProjects: string[] = [];
+  for (const solution of solutions) {
+    const content = (await read(solution)) ?? '';
+    for (const match of content.matchAll(/^Project\([^)]*\)\s*=\s*"[^"]*",\s*"([^"]+proj)"/gm)) {
+      solutionProjects.push(match[1].replace(/\\/g, '/'));
+    }
+  }
+
+  const allProjects = [...projects, ...solutionProjects];
+  const main = solutions[0] ?? projects[0];
+
+  return {
+    language: allProjects.some((project) => project.endsWith('.fsproj')) ? 'fsharp' : 'csharp',
+    name: path.basename(main, path.extname(main)),
+    packageManager: 'dotnet',
+    manifests: [...solutions, ...projects],
+    monorepo:
+      solutionProjects.length > 1 ? { tools: ['dotnet'], packages: solutionProjects } : undefined,
+  };
+};
+
+/**
+ * PHP（composer.json）
+ */
+const detectPhp: Detector = async ({ read }) => {
+  const content = await read('composer.json');
+  if (content === null) {
+    return null;
+  }
+
+  const composer = parseJsonObject(content);
+  const dependencies = {
+    ...(isRecord(composer.require) ? composer.require : {}),
+    ...(isRecord(composer['require-dev']) ? composer['require-dev'] : {}),
+  };
+
+  // composer のスクリプトは文字列または文字列の配列
+  const scripts: Record<string, string> = {};
+  if (isRecord(composer.scripts)) {
+    for (const [name, command] of Object.entries(composer.scripts)) {
+      const commands = typeof command === 'string' ? [command] : stringArray(command);
+      if (commands.length > 0) {
+        scripts[name] = commands.join(' && ');
+      }
+    }
+  }
+
+  return {
+    language: 'php',
+    name: typeof composer.name === 'string' ? composer.name : undefined,
+    frameworks: PHP_FRAMEWORKS.filter(([dependency]) => dependency in dependencies).map(
+      ([, framework]) => framework
+    ),
+    packageManager: 'composer',
+    manifests: ['composer.json'],
+    scripts,
+  };
+};
+
+/**
+ * 判定順（先に検出された言語を主要な言語とする）
+ */
+const DETECTORS: Detector[] = [
+  detectNode,
+  detectPython,
+  detectGo,
+  detectRust,
+  detectJava,
+  detectRuby,
+  detectDotnet,
+  detectPhp,
+];
+
+/**
+ * プロジェクトを検出する
+ *
+ * 複数の言語のマニフェストがある場合は全て検出し、判定順で先のものを主要な言語とする。
+ * スクリプトは同名のものがあれば先に検出したものを優先する
+ */
+export async function detectProject(projectRoot: string): Promise<ProjectDetection> {
+  let entries: Set<string>;
+  try {
+    entries = new Set(await fs.readdir(projectRoot));
+  } catch {
+    entries = new Set();
+  }
+
+  const context: DetectionContext = {
+    entries,
+    read: async (name) => {
+      if (!entries.has(name)) {
+        return null;
+      }
+      try {
+        return await fs.readFile(path.join(projectRoot, name), 'utf-8');
+      } catch {
+        return null;
+      }
+    },
+  };
+
+  const detections: EcosystemDetection[] = [];
+  for (const detector of DETECTORS) {
+    const detection = await detector(context);
+    if (detection) {
+      detections.push(detection);
+    }
+  }
+
+  const result: ProjectDetection = {
+    name: detections.find((detection) => detection.name)?.name,
+    languages: unique(detections.map((detection) => detection.language)),
+    frameworks: unique(detections.flatMap((detection) => detection.frameworks ?? [])),
+    packageManager: detections.find((detection) => detection.packageManager)?.packageManager,
+    manifests: detections.flatMap((detection) => detection.manifests),
+    scripts: {},
+  };
+
+  for (const detection of detections) {
+    result.scripts = { ...detection.scripts, ...result.scripts };
+    if (detection.monorepo) {
+      result.monorepo = {
+        tools: unique([...(result.monorepo?.tools ?? []), ...detection.monorepo.tools]),
+        packages: unique([...(result.monorepo?.packages ?? []), ...detection.monorepo.packages]),
+      };
+    }
+  }
+
+  return result;
+}
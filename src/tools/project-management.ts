@@ -9,8 +9,19 @@ import { promises as fs } from 'fs';
 import * as path from 'path';
 import { z } from 'zod';
 import { minimatch } from 'minimatch';
-import ignore from 'ignore';
+import { ValidationError } from '../errors/index.js';
 import type { SecurityValidator } from '../security/validator.js';
+import { IgnoreRules } from './ignore-rules.js';
+import { DEFAULT_REGEX_TIMEOUT_MS, RegexWorker, type LineMatch } from './regex-worker.js';
+import { detectProject, type MonorepoInfo, type ProjectDetection } from './project-detection.js';
+import { findWorkspaceDirectories, readNxProjectName } from './workspaces.js';
+import {
+  compareNames,
+  cursorScope,
+  decodeCursor,
+  encodeCursor,
+  resumeDecision,
+} from './pagination.js';
 
 /**
  * get_project_info ツールのスキーマ
@@ -26,8 +37,61 @@ export interface ProjectInfo {
   name: string;
   rootPath: string;
   settings: Record<string, unknown>;
+  /** 主要な言語 */
   language: string;
+  /** 主要なフレームワーク */
   framework?: string;
+  /** 検出した全ての言語 */
+  languages: string[];
+  /** 検出した全てのフレームワーク */
+  frameworks: string[];
+  packageManager?: string;
+  /** 検出の根拠となったマニフェストファイル */
+  manifests: string[];
+  /** 実行可能なスクリプト（スクリプト名 → コマンド） */
+  scripts: Record<string, string>;
+  /** モノレポの場合: 構成ツールとワークスペースのメンバー */
+  monorepo?: MonorepoInfo;
+  /** マルチルートワークスペースの場合: ルートごとのプロジェクト情報（プロジェクトルートが先頭） */
+  roots?: RootProjectInfo[];
+}
+
+/**
+ * マルチルートワークスペースのルートごとのプロジェクト情報
+ */
+export interface RootProjectInfo {
+  /** パス指定の接頭辞（`name:relative/path`）として使用するルート名 */
+  name: string;
+  path: string;
+  info: ProjectInfo;
+}
+
+/**
+ * list_workspaces ツールのスキーマ
+ */
+export const ListWorkspacesSchema = z.object({});
+
+export type ListWorkspacesParams = z.infer<typeof ListWorkspacesSchema>;
+
+/**
+ * モノレポのワークスペース（パッケージ）
+ */
+export interface WorkspacePackage {
+  name: string;
+  path: string;
+  /** プロジェクトルートからの相対パス（POSIX形式） */
+  relativePath: string;
+  info: ProjectInfo;
+}
+
+/**
+ * list_workspaces ツールの結果
+ */
+export interface ListWorkspacesResult {
+  monorepo: boolean;
+  /** モノレポを構成しているツール（pnpm, turbo, cargo など） */
+  tools: string[];
+  workspaces: WorkspacePackage[];
 }
 
 /**
@@ -35,10 +99,27 @@ export interface ProjectInfo {
  */
 export const SearchFilesSchema = z.object({
   pattern: z.string().describe('検索パターン（glob形式）'),
-  includeIgnored: z.boolean().default(false).optional().describe('.gitignore対象の含有'),
+  includeIgnored: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe('.gitignore / .cursorignore 対象の含有'),
   maxDepth: z.number().min(1).max(50).default(20).optional().describe('最大検索深度'),
-  maxResults: z.number().min(1).max(1000).default(100).optional().describe('最大結果数'),
+  maxResults: z
+    .number()
+    .min(1)
+    .max(1000)
+    .default(100)
+    .optional()
+    .describe('最大結果数（1ページあたりの件数）'),
   fileType: z.enum(['file', 'directory', 'all']).default('all').optional(),
+  cursor: z.string().optional().describe('前回の結果の nextCursor（続きのページを取得）'),
+  workspace: z
+    .string()
+    .optional()
+    .describe(
+      '検索対象とするワークスペースの名前または相対パス（list_workspaces の結果）、またはルート名'
+    ),
 });
 
 export type SearchFilesParams = z.infer<typeof SearchFilesSchema>;
@@ -58,10 +139,121 @@ export interface SearchResult {
  */
 export interface SearchFilesResult {
   files: SearchResult[];
+  /**
+   * このページに含まれる結果数（returnedCount と同じ値）
+   *
+   * 走査はページ単位で打ち切るため、全ページの総数ではない
+   */
   totalCount: number;
+  /** このページに含まれる結果数 */
+  returnedCount: number;
+  /** 続きの結果がある場合は true */
+  truncated: boolean;
+  /** 続きの結果がある場合: 次のページを取得するためのカーソル */
+  nextCursor?: string;
+}
+
+/**
+ * search_content ツールのスキーマ
+ */
+export const SearchContentSchema = z.object({
+  query: z.string().min(1).describe('検索する文字列または正規表現'),
+  regex: z.boolean().default(false).optional().describe('query を正規表現として扱う'),
+  caseSensitive: z.boolean().default(true).optional().describe('大文字と小文字を区別する'),
+  path: z
+    .string()
+    .optional()
+    .describe(
+      '検索対象のディレクトリ（デフォルト: プロジェクトルート。`ルート名:相対パス` で他のルートを指定）'
+    ),
+  include: z
+    .array(z.string())
+    .optional()
+    .describe('検索対象とするファイルのglobパターン（例: **/*.ts）'),
+  exclude: z.array(z.string()).optional().describe('検索対象から除外するglobパターン'),
+  contextLines: z
+    .number()
+    .int()
+    .min(0)
+    .max(10)
+    .default(0)
+    .optional()
+    .describe('一致行の前後に含める行数'),
+  includeIgnored: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe('.gitignore / .cursorignore 対象の含有'),
+  maxDepth: z.number().min(1).max(50).default(20).optional().describe('最大検索深度'),
+  maxResults: z.number().min(1).max(1000).default(100).optional().describe('最大結果数'),
+});
+
+export type SearchContentParams = z.infer<typeof SearchContentSchema>;
+
+/**
+ * 内容検索の一致箇所
+ */
+export interface ContentMatch {
+  path: string;
+  /** 1始まりの行番号 */
+  line: number;
+  /** 1始まりの列番号（最初の一致位置） */
+  column: number;
+  text: string;
+  /** contextLines 指定時: 一致行の前の行 */
+  before?: string[];
+  /** contextLines 指定時: 一致行の後の行 */
+  after?: string[];
+}
+
+/**
+ * search_content ツールの結果
+ */
+export interface SearchContentResult {
+  matches: ContentMatch[];
+  filesSearched: number;
+  filesWithMatches: number;
+  /** バイナリまたはサイズ上限超過のため検索しなかったファイル数 */
+  filesSkipped: number;
   truncated: boolean;
 }
 
+/**
+ * 内容検索の対象とするファイルサイズの上限のデフォルト値
+ */
+const DEFAULT_SEARCH_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * 正規表現として受け付ける検索文字列の最大長
+ */
+const MAX_REGEX_LENGTH = 1000;
+
+/**
+ * バイナリ判定に使用する先頭バイト数
+ */
+const BINARY_SAMPLE_SIZE = 8192;
+
+/**
+ * 正規表現の特殊文字をエスケープする
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 各行を照合し、一致した行を最大 limit 件返す（正規表現として扱わない検索文字列用）
+ */
+function findLines(pattern: RegExp, lines: string[], limit: number): LineMatch[] {
+  const found: LineMatch[] = [];
+  for (let line = 0; line < lines.length && found.length < limit; line++) {
+    const match = pattern.exec(lines[line]);
+    if (match) {
+      found.push({ line, index: match.index });
+    }
+  }
+  return found;
+}
+
 /**
  * get_workspace_structure ツールのスキーマ
  */
@@ -74,6 +266,17 @@ export const GetWorkspaceStructureSchema = z.object({
     .optional()
     .describe('ディレクトリツリーの最大深さ'),
   excludePatterns: z.array(z.string()).default([]).optional().describe('除外パターン'),
+  includeIgnored: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe('.gitignore / .cursorignore 対象の含有'),
+  workspace: z
+    .string()
+    .optional()
+    .describe(
+      '対象とするワークスペースの名前または相対パス（list_workspaces の結果）、またはルート名'
+    ),
 });
 
 export type GetWorkspaceStructureParams = z.infer<typeof GetWorkspaceStructureSchema>;
@@ -107,61 +310,133 @@ export interface WorkspaceStructure {
   totalDirectories: number;
 }
 
+/**
+ * ProjectManagementTool のオプション
+ */
+export interface ProjectManagementOptions {
+  /** search_content の対象とするファイルサイズの上限（バイト、デフォルト: 10MB） */
+  maxFileSize?: number;
+  /** search_content の正規表現の照合の期限（1ファイルあたり、ミリ秒、デフォルト: 1秒） */
+  regexTimeoutMs?: number;
+}
+
 /**
  * Project Management Tool
  *
  * Requirement 3.1-3.5: プロジェクト管理機能のMCPツール化
  */
 export class ProjectManagementTool {
+  private maxFileSize: number;
+  private readonly regexTimeoutMs: number;
+
   constructor(
     private readonly projectRoot: string,
-    private readonly securityValidator: SecurityValidator
-  ) {}
+    private readonly securityValidator: SecurityValidator,
+    options: ProjectManagementOptions = {}
+  ) {
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_SEARCH_MAX_FILE_SIZE;
+    this.regexTimeoutMs = options.regexTimeoutMs ?? DEFAULT_REGEX_TIMEOUT_MS;
+  }
+
+  /**
+   * 内容検索の対象とするファイルサイズの上限を変更する（設定のホットリロード時）
+   */
+  setMaxFileSize(maxFileSize: number): void {
+    this.maxFileSize = maxFileSize;
+  }
 
   /**
    * プロジェクト情報を取得
    */
   async getProjectInfo(): Promise<ProjectInfo> {
-    // プロジェクトが初期化されているか確認
-    const packageJsonPath = path.join(this.projectRoot, 'package.json');
-    const setupPyPath = path.join(this.projectRoot, 'setup.py');
+    const [primary, ...others] = this.securityValidator.getRoots();
 
-    let projectName = path.basename(this.projectRoot);
-    let language = 'unknown';
-    let framework: string | undefined;
-    let settings: Record<string, unknown> = {};
+    // マニフェストファイルから言語・フレームワークなどを推測
+    const detection = await detectProject(this.projectRoot);
+    if (others.length === 0) {
+      if (detection.languages.length === 0) {
+        throw new Error('プロジェクトが初期化されていません');
+      }
+      return this.buildProjectInfo(this.projectRoot, detection);
+    }
 
-    try {
-      // package.json から情報を取得
-      const packageJsonContent = await fs.readFile(packageJsonPath, 'utf-8');
-      const packageJson = JSON.parse(packageJsonContent);
-
-      projectName = packageJson.name || projectName;
-      language = 'typescript'; // package.json があれば TypeScript/JavaScript プロジェクトと推測
-
-      // フレームワークを推測
-      if (packageJson.dependencies) {
-        if (packageJson.dependencies.react) {
-          framework = 'react';
-        } else if (packageJson.dependencies.vue) {
-          framework = 'vue';
-        } else if (packageJson.dependencies.angular) {
-          framework = 'angular';
-        }
+    // マルチルートワークスペースの場合はルートごとの情報を含める
+    const roots: RootProjectInfo[] = [];
+    for (const root of [{ name: primary.name, path: this.projectRoot }, ...others]) {
+      const rootDetection =
+        root.path === this.projectRoot ? detection : await detectProject(root.path);
+      roots.push({
+        name: root.name,
+        path: root.path,
+        info: await this.buildProjectInfo(root.path, rootDetection),
+      });
+    }
+    if (roots.every((root) => root.info.languages.length === 0)) {
+      throw new Error('プロジェクトが初期化されていません');
+    }
+
+    return { ...roots[0].info, roots };
+  }
+
+  /**
+   * モノレポのワークスペースを一覧表示
+   *
+   * ワークスペース定義に一致するディレクトリのうち、マニフェストファイルまたは
+   * Nx の project.json を持つものを返す。モノレポでない場合は空の一覧を返す
+   *
+   * @param signal - abortされた場合は走査を中断する
+   */
+  async listWorkspaces(signal?: AbortSignal): Promise<ListWorkspacesResult> {
+    const detection = await detectProject(this.projectRoot);
+    if (!detection.monorepo) {
+      return { monorepo: false, tools: [], workspaces: [] };
+    }
+
+    const directories = await findWorkspaceDirectories(this.projectRoot, detection.monorepo, {
+      ignoreRules: new IgnoreRules(this.projectRoot),
+      isAllowed: (dirPath) =>
+        this.securityValidator.validatePath(dirPath).ok ||
+        this.securityValidator.canTraverse(dirPath),
+      signal,
+    });
+
+    const workspaces: WorkspacePackage[] = [];
+    for (const relativePath of directories) {
+      signal?.throwIfAborted();
+      const workspacePath = path.join(this.projectRoot, relativePath);
+      if (!this.securityValidator.validatePath(workspacePath).ok) {
+        continue;
       }
-    } catch (error) {
-      // package.json がない場合、他のファイルをチェック
-      try {
-        await fs.access(setupPyPath);
-        language = 'python';
-      } catch {
-        // どちらもない場合はエラー
-        throw new Error('プロジェクトが初期化されていません');
+
+      const packageDetection = await detectProject(workspacePath);
+      const nxProjectName = await readNxProjectName(workspacePath);
+      if (packageDetection.languages.length === 0 && nxProjectName === undefined) {
+        continue;
       }
+
+      const info = await this.buildProjectInfo(workspacePath, packageDetection);
+      workspaces.push({
+        name: nxProjectName ?? packageDetection.name ?? relativePath,
+        path: workspacePath,
+        relativePath,
+        info,
+      });
     }
 
+    return { monorepo: true, tools: detection.monorepo.tools, workspaces };
+  }
+
+  /**
+   * 検出結果と .cursor/settings.json からプロジェクト情報を組み立てる
+   */
+  private async buildProjectInfo(
+    rootPath: string,
+    detection: ProjectDetection
+  ): Promise<ProjectInfo> {
+    let settings: Record<string, unknown> = {};
+
     // .cursor/settings.json から設定を読み込み
-    const cursorSettingsPath = path.join(this.projectRoot, '.cursor', 'settings.json');
+    const cursorSettingsPath = path.join(rootPath, '.cursor', 'settings.json');
     try {
       const cursorSettingsContent = await fs.readFile(cursorSettingsPath, 'utf-8');
       settings = JSON.parse(cursorSettingsContent);
@@ -170,18 +445,60 @@ export class ProjectManagementTool {
     }
 
     return {
-      name: projectName,
-      rootPath: this.projectRoot,
+      name: detection.name ?? path.basename(rootPath),
+      rootPath,
       settings,
-      language,
-      framework,
+      language: detection.languages[0] ?? 'unknown',
+      framework: detection.frameworks[0],
+      languages: detection.languages,
+      frameworks: detection.frameworks,
+      packageManager: detection.packageManager,
+      manifests: detection.manifests,
+      scripts: detection.scripts,
+      monorepo: detection.monorepo,
     };
   }
 
+  /**
+   * パスを含むルート（ルート外の場合はプロジェクトルート）を取得する
+   */
+  private rootFor(targetPath: string): string {
+    return this.securityValidator.getRootFor(targetPath)?.path ?? this.projectRoot;
+  }
+
+  /**
+   * ワークスペースの名前・相対パス、またはルート名からディレクトリを解決する
+   */
+  private async resolveWorkspace(workspace: string, signal?: AbortSignal): Promise<string> {
+    // マルチルートワークスペースのルート名
+    const root = this.securityValidator
+      .getRoots()
+      .find((candidate) => candidate.name === workspace);
+    if (root) {
+      return root.path;
+    }
+
+    const normalized = workspace.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+    const { workspaces } = await this.listWorkspaces(signal);
+    const found =
+      workspaces.find((candidate) => candidate.relativePath === normalized) ??
+      workspaces.find((candidate) => candidate.name === workspace);
+    if (!found) {
+      throw new ValidationError(`Unknown workspace: ${workspace}`, 'workspace', workspace);
+    }
+    return found.path;
+  }
+
   /**
    * ファイルを検索
+   *
+   * エントリ名順に走査し、maxResults 件を超える結果が見つかった時点で走査を打ち切る。
+   * 続きは nextCursor を cursor に指定して取得する。
+   * workspace を指定した場合はそのワークスペースのみを走査し、pattern はワークスペースからの相対パスに適用する
+   *
+   * @param signal - abortされた場合は走査を中断する
    */
-  async searchFiles(params: SearchFilesParams): Promise<SearchFilesResult> {
+  async searchFiles(params: SearchFilesParams, signal?: AbortSignal): Promise<SearchFilesResult> {
     const {
       pattern,
       includeIgnored = false,
@@ -190,17 +507,21 @@ export class ProjectManagementTool {
       fileType = 'all',
     } = params;
 
-    // .gitignore を読み込み
-    let ig: ReturnType<typeof ignore> | null = null;
-    if (!includeIgnored) {
-      const gitignorePath = path.join(this.projectRoot, '.gitignore');
-      try {
-        const gitignoreContent = await fs.readFile(gitignorePath, 'utf-8');
-        ig = ignore().add(gitignoreContent);
-      } catch {
-        // .gitignore がない場合は無視
-      }
-    }
+    // カーソルは同一の条件で発行されたものに限り受け付ける
+    const scope = cursorScope({
+      pattern,
+      includeIgnored,
+      maxDepth,
+      fileType,
+      workspace: params.workspace,
+    });
+    const cursor = params.cursor ? decodeCursor(params.cursor, scope) : undefined;
+
+    const baseDir = params.workspace
+      ? await this.resolveWorkspace(params.workspace, signal)
+      : this.projectRoot;
+
+    const ignoreRules = includeIgnored ? null : new IgnoreRules(this.rootFor(baseDir));
 
     // ファイルを再帰的に検索
     const allFiles: SearchResult[] = [];
@@ -210,36 +531,59 @@ export class ProjectManagementTool {
         return;
       }
 
-      // セキュリティ検証
+      // セキュリティ検証（許可ディレクトリの祖先は走査のみ許可）
       const validateResult = this.securityValidator.validatePath(dir);
-      if (!validateResult.ok) {
+      if (!validateResult.ok && !this.securityValidator.canTraverse(dir)) {
         throw new Error(validateResult.error.message);
       }
 
-      const entries = await fs.readdir(dir, { withFileTypes: true });
+      signal?.throwIfAborted();
+      const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) =>
+        compareNames(a.name, b.name)
+      );
 
       for (const entry of entries) {
+        signal?.throwIfAborted();
+        // 次のページの有無を判定するため1件多く収集した時点で終了
+        if (allFiles.length > maxResults) {
+          return;
+        }
+
         const fullPath = path.join(dir, entry.name);
-        const relativePath = path.relative(this.projectRoot, fullPath);
+        const relativePath = path.relative(baseDir, fullPath);
+
+        // 前のページで返却済みのエントリは読み飛ばす
+        const decision = resumeDecision(relativePath.split(path.sep), cursor);
+        if (decision === 'skip') {
+          continue;
+        }
 
         // Windows対応: バックスラッシュをフォワードスラッシュに変換
         const posixPath = relativePath.replace(/\\/g, '/');
 
-        // .gitignore チェック（ディレクトリの場合は末尾に / を追加）
-        const pathToCheck = entry.isDirectory() ? `${posixPath}/` : posixPath;
-        if (ig && ig.ignores(pathToCheck)) {
+        // 無視ルールのチェック
+        if (ignoreRules && (await ignoreRules.isIgnored(fullPath, entry.isDirectory()))) {
           continue;
         }
 
         const isFile = entry.isFile();
         const isDirectory = entry.isDirectory();
 
+        // ブロックされたパスや許可ディレクトリ外のエントリは除外し、許可ディレクトリの祖先のみ走査を続ける
+        const access = this.securityValidator.validatePath(fullPath);
+        if (!access.ok) {
+          if (isDirectory && this.securityValidator.canTraverse(fullPath)) {
+            await searchDir(fullPath, depth + 1);
+          }
+          continue;
+        }
+
         // fileType フィルター
         if (fileType === 'file' && !isFile) continue;
         if (fileType === 'directory' && !isDirectory) continue;
 
         // glob パターンマッチング（POSIX形式のパスを使用）
-        if (minimatch(posixPath, pattern)) {
+        if (decision === 'include' && minimatch(posixPath, pattern)) {
           const stats = await fs.stat(fullPath);
           allFiles.push({
             path: fullPath,
@@ -256,25 +600,231 @@ export class ProjectManagementTool {
       }
     };
 
-    await searchDir(this.projectRoot, 0);
+    await searchDir(baseDir, 0);
 
     // 最大結果数を適用
-    const totalCount = allFiles.length;
-    const truncated = totalCount > maxResults;
+    const truncated = allFiles.length > maxResults;
     const files = allFiles.slice(0, maxResults);
+    const last = files[files.length - 1];
 
     return {
       files,
-      totalCount,
+      totalCount: files.length,
+      returnedCount: files.length,
+      truncated,
+      ...(truncated
+        ? {
+            nextCursor: encodeCursor(path.relative(baseDir, last.path).split(path.sep), scope),
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * ファイルの内容を検索
+   *
+   * .gitignore 対象・ブロックされたパス・バイナリファイルは検索しない。
+   * 一致数が maxResults に達した時点で走査を打ち切り、truncated を返却する。
+   * path にファイルを指定した場合はそのファイルのみを検索する。
+   * 正規表現の照合が期限を過ぎた場合は TimeoutError をスローする
+   *
+   * @param signal - abortされた場合は走査を中断する
+   */
+  async searchContent(
+    params: SearchContentParams,
+    signal?: AbortSignal
+  ): Promise<SearchContentResult> {
+    const {
+      query,
+      regex = false,
+      caseSensitive = true,
+      include = [],
+      exclude = [],
+      contextLines = 0,
+      includeIgnored = false,
+      maxDepth = 20,
+      maxResults = 100,
+    } = params;
+
+    if (regex && query.length > MAX_REGEX_LENGTH) {
+      throw new ValidationError(
+        `Regular expression is too long (max ${MAX_REGEX_LENGTH} characters)`,
+        'query',
+        query
+      );
+    }
+
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(regex ? query : escapeRegExp(query), caseSensitive ? '' : 'i');
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+        'query',
+        query
+      );
+    }
+
+    const searchRoot = params.path
+      ? this.securityValidator.sanitizePath(params.path)
+      : this.projectRoot;
+    const rootResult = this.securityValidator.validatePath(searchRoot);
+    if (!rootResult.ok && !this.securityValidator.canTraverse(searchRoot)) {
+      throw new Error(rootResult.error.message);
+    }
+
+    // include / exclude は検索対象を含むルートからの相対パスに適用する
+    const contentRoot = this.rootFor(searchRoot);
+    const ignoreRules = includeIgnored ? null : new IgnoreRules(contentRoot);
+    const globOptions = { dot: true, matchBase: true };
+    const matches: ContentMatch[] = [];
+    let filesSearched = 0;
+    let filesWithMatches = 0;
+    let filesSkipped = 0;
+    let truncated = false;
+
+    // 正規表現はイベントループをブロックしないようワーカースレッドで照合する
+    const worker = regex ? new RegexWorker(pattern, this.regexTimeoutMs) : null;
+
+    const searchFile = async (filePath: string): Promise<void> => {
+      const stats = await fs.stat(filePath);
+      if (stats.size > this.maxFileSize) {
+        filesSkipped++;
+        return;
+      }
+
+      const buffer = await fs.readFile(filePath);
+      if (buffer.subarray(0, BINARY_SAMPLE_SIZE).includes(0)) {
+        filesSkipped++;
+        return;
+      }
+
+      filesSearched++;
+      const lines = buffer.toString('utf8').split(/\r?\n/);
+      let matched = false;
+
+      // 結果数の上限を超える一致の有無を判定するため1件多く照合する
+      const limit = maxResults - matches.length + 1;
+      const found = worker
+        ? await worker.match(lines, limit, signal)
+        : findLines(pattern, lines, limit);
+
+      for (const { line: i, index } of found) {
+        if (matches.length >= maxResults) {
+          truncated = true;
+          return;
+        }
+
+        matched = true;
+        matches.push({
+          path: filePath,
+          line: i + 1,
+          column: index + 1,
+          text: lines[i],
+          ...(contextLines > 0
+            ? {
+                before: lines.slice(Math.max(0, i - contextLines), i),
+                after: lines.slice(i + 1, i + 1 + contextLines),
+              }
+            : {}),
+        });
+      }
+
+      if (matched) {
+        filesWithMatches++;
+      }
+    };
+
+    const searchDir = async (dir: string, depth: number): Promise<void> => {
+      if (depth > maxDepth) {
+        return;
+      }
+
+      signal?.throwIfAborted();
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+
+      for (const entry of entries) {
+        if (truncated) {
+          return;
+        }
+        signal?.throwIfAborted();
+
+        const fullPath = path.join(dir, entry.name);
+        const posixPath = path.relative(contentRoot, fullPath).replace(/\\/g, '/');
+
+        // 無視ルールのチェック
+        if (ignoreRules && (await ignoreRules.isIgnored(fullPath, entry.isDirectory()))) {
+          continue;
+        }
+
+        // ブロックされたパスは除外し、許可ディレクトリの祖先のみ走査を続ける
+        const access = this.securityValidator.validatePath(fullPath);
+        if (entry.isDirectory()) {
+          if (access.ok || this.securityValidator.canTraverse(fullPath)) {
+            await searchDir(fullPath, depth + 1);
+          }
+          continue;
+        }
+        if (!access.ok || !entry.isFile()) {
+          continue;
+        }
+
+        // include / exclude フィルター（POSIX形式のパスを使用）
+        if (
+          include.length > 0 &&
+          !include.some((glob) => minimatch(posixPath, glob, globOptions))
+        ) {
+          continue;
+        }
+        if (exclude.some((glob) => minimatch(posixPath, glob, globOptions))) {
+          continue;
+        }
+
+        await searchFile(fullPath);
+      }
+    };
+
+    try {
+      const rootStats = await fs.stat(searchRoot);
+      if (rootStats.isDirectory()) {
+        await searchDir(searchRoot, 0);
+      } else {
+        // ファイルを直接指定した場合は、そのファイル自体へのアクセスが許可されている必要がある
+        if (!rootResult.ok) {
+          throw new Error(rootResult.error.message);
+        }
+        await searchFile(searchRoot);
+      }
+    } finally {
+      await worker?.close();
+    }
+
+    return {
+      matches,
+      filesSearched,
+      filesWithMatches,
+      filesSkipped,
       truncated,
     };
   }
 
   /**
    * ワークスペース構造を取得
+   *
+   * workspace を指定した場合はそのワークスペースをルートとするツリーを返し、
+   * excludePatterns はワークスペースからの相対パスに適用する
+   *
+   * @param signal - abortされた場合は走査を中断する
    */
-  async getWorkspaceStructure(params: GetWorkspaceStructureParams): Promise<WorkspaceStructure> {
-    const { maxDepth = 5, excludePatterns = [] } = params;
+  async getWorkspaceStructure(
+    params: GetWorkspaceStructureParams,
+    signal?: AbortSignal
+  ): Promise<WorkspaceStructure> {
+    const { maxDepth = 5, excludePatterns = [], includeIgnored = false } = params;
+    const baseDir = params.workspace
+      ? await this.resolveWorkspace(params.workspace, signal)
+      : this.projectRoot;
+    const ignoreRules = includeIgnored ? null : new IgnoreRules(this.rootFor(baseDir));
 
     let totalFiles = 0;
     let totalDirectories = 0;
@@ -283,17 +833,22 @@ export class ProjectManagementTool {
       dirPath: string,
       currentDepth: number
     ): Promise<DirectoryNode | FileNode | null> => {
+      signal?.throwIfAborted();
       const stats = await fs.stat(dirPath);
-      const relativePath = path.relative(this.projectRoot, dirPath);
+      const relativePath = path.relative(baseDir, dirPath);
       const name = path.basename(dirPath);
 
       // Windows対応: バックスラッシュをフォワードスラッシュに変換してPOSIX形式に
       const posixPath = relativePath.replace(/\\/g, '/');
 
       // セキュリティ検証（POSIX形式のパスを使用）
+      // 許可ディレクトリの祖先は、配下の許可ディレクトリを表示するためにディレクトリとして残す
       if (posixPath !== '') {
         const validateResult = this.securityValidator.validatePath(dirPath);
-        if (!validateResult.ok) {
+        if (
+          !validateResult.ok &&
+          !(stats.isDirectory() && this.securityValidator.canTraverse(dirPath))
+        ) {
           return null; // ブロックされたパスは除外
         }
       }
@@ -308,6 +863,11 @@ export class ProjectManagementTool {
         }
       }
 
+      // 無視ルールのチェック
+      if (ignoreRules && (await ignoreRules.isIgnored(dirPath, stats.isDirectory()))) {
+        return null;
+      }
+
       if (stats.isFile()) {
         totalFiles++;
         return {
@@ -346,7 +906,7 @@ export class ProjectManagementTool {
       return null;
     };
 
-    const root = await buildTree(this.projectRoot, 0);
+    const root = await buildTree(baseDir, 0);
 
     if (!root || root.type !== 'directory') {
       throw new Error('Failed to build workspace structure');
@@ -0,0 +1,401 @@
+/**
+ * Project Prompts
+ *
+ * よく使うプロジェクト作業のプロンプト（MCP prompts）を提供する
+ *
+ * 組み込みのプロンプトは、アクティブなファイル（get_active_file）・プロジェクト情報
+ * （get_project_info）・ファイルの内容を引数から組み立てる。
+ * .cursorcli-mcp/prompts/*.md にテンプレートを置くと、リポジトリで共有するプロンプトとして提供する
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { NotFoundError, ValidationError } from '../errors/index.js';
+import type { PromptProvider, ResourceProvider } from '../protocol/handler.js';
+import type { GetPromptResult, Prompt, PromptMessage } from '../protocol/types.js';
+import type { SecurityValidator } from '../security/validator.js';
+import type { ActiveFileInfo, EditorControlTool } from './editor-control.js';
+import type { ProjectInfo, ProjectManagementTool } from './project-management.js';
+
+/**
+ * ユーザー定義のプロンプトテンプレートのファイル名（拡張子を除いた部分がプロンプト名）
+ */
+const TEMPLATE_FILE_PATTERN = /^([A-Za-z0-9][\w.-]*)\.md$/;
+
+/**
+ * テンプレート中のプレースホルダー（`{{引数名}}`）
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/**
+ * 組み込みのプロンプト
+ */
+const BUILTIN_PROMPTS: Prompt[] = [
+  {
+    name: 'explain_file',
+    description: 'ファイルの目的と主要な処理を説明する',
+    arguments: [
+      {
+        name: 'path',
+        description: '説明するファイルのパス（省略時: エディタでアクティブなファイル）',
+      },
+    ],
+  },
+  {
+    name: 'write_tests',
+    description: 'プロジェクトの規約に沿ってファイルのテストを書く',
+    arguments: [
+      {
+        name: 'path',
+        description: 'テスト対象のファイルのパス（省略時: エディタでアクティブなファイル）',
+      },
+      { name: 'framework', description: '使用するテストフレームワーク（例: jest, pytest）' },
+    ],
+  },
+  {
+    name: 'review_diff',
+    description: '差分をレビューし、問題点と改善案を挙げる',
+    arguments: [
+      { name: 'diff', description: 'レビューする unified diff', required: true },
+      { name: 'focus', description: '重点的に確認する観点（例: セキュリティ、性能）' },
+    ],
+  },
+];
+
+/**
+ * ユーザー定義のプロンプトテンプレート
+ */
+interface PromptTemplate {
+  prompt: Prompt;
+  body: string;
+}
+
+/**
+ * プロンプトの対象のファイル
+ */
+interface PromptTarget {
+  path: string;
+  /** プロンプトに表示するパス */
+  displayPath: string;
+  /** エディタでアクティブなファイルの場合: 選択範囲 */
+  selection?: ActiveFileInfo['selection'];
+}
+
+/**
+ * テキストのみのユーザーメッセージを作成する
+ */
+function userText(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+/**
+ * テンプレートを解析する
+ *
+ * 先頭の `---` で囲んだフロントマターで以下を指定できる:
+ * - description: プロンプトの説明
+ * - arguments: カンマ区切りの引数名（末尾に `?` を付けた引数は省略可能）
+ *
+ * arguments を省略した場合は、本文中のプレースホルダーを必須の引数とする
+ */
+export function parsePromptTemplate(name: string, source: string): PromptTemplate {
+  const text = source.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  const frontMatter = /^---\n([\s\S]*?)\n---\n?/.exec(text);
+  const body = frontMatter ? text.slice(frontMatter[0].length) : text;
+
+  const fields = new Map<string, string>();
+  for (const line of frontMatter?.[1].split('\n') ?? []) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      fields.set(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  }
+
+  const declared = fields.get('arguments');
+  const args =
+    declared !== undefined
+      ? declared
+          .split(',')
+          .map((arg) => arg.trim())
+          .filter((arg) => arg !== '')
+          .map((arg) =>
+            arg.endsWith('?')
+              ? { name: arg.slice(0, -1), required: false }
+              : { name: arg, required: true }
+          )
+      : [...new Set(Array.from(body.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]))].map(
+          (arg) => ({ name: arg, required: true })
+        );
+
+  const description = fields.get('description');
+  return {
+    prompt: {
+      name,
+      ...(description ? { description } : {}),
+      ...(args.length > 0 ? { arguments: args } : {}),
+    },
+    body,
+  };
+}
+
+/**
+ * Project Prompt Provider
+ *
+ * ユーザー定義のテンプレートは要求のたびに読み込むため、追加・変更は即座に反映される。
+ * 組み込みのプロンプトと同名のテンプレートは組み込みのプロンプトを置き換える
+ */
+export class ProjectPromptProvider implements PromptProvider {
+  constructor(
+    private readonly editorControl: EditorControlTool,
+    private readonly projectManagement: ProjectManagementTool,
+    private readonly resources: ResourceProvider,
+    private readonly securityValidator: SecurityValidator,
+    private readonly promptsDir: string
+  ) {}
+
+  /**
+   * プロンプトを名前順に列挙する
+   */
+  async listPrompts(): Promise<Prompt[]> {
+    const templates = await this.loadTemplates();
+    const builtins = BUILTIN_PROMPTS.filter((prompt) => !templates.has(prompt.name));
+
+    return [...builtins, ...[...templates.values()].map((template) => template.prompt)].sort(
+      (a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+    );
+  }
+
+  /**
+   * 引数を展開したプロンプトを取得する
+   */
+  async getPrompt(
+    name: string,
+    args: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<GetPromptResult> {
+    const template = (await this.loadTemplates()).get(name);
+    const prompt = template?.prompt ?? BUILTIN_PROMPTS.find((builtin) => builtin.name === name);
+    if (!prompt) {
+      throw new NotFoundError(`Prompt not found: ${name}`, 'prompt', name);
+    }
+
+    for (const [key, value] of Object.entries(args)) {
+      if (typeof value !== 'string') {
+        throw new ValidationError(`Prompt argument must be a string: ${key}`, key, value);
+      }
+    }
+    // Object.prototype のプロパティ（constructor など）を引数として扱わない
+    const argument = (key: string): string | undefined =>
+      Object.hasOwn(args, key) ? args[key] : undefined;
+
+    for (const arg of prompt.arguments ?? []) {
+      if (arg.required && !argument(arg.name)) {
+        throw new ValidationError(`Missing required argument: ${arg.name}`, arg.name);
+      }
+    }
+
+    if (template) {
+      const text = template.body.replace(
+        PLACEHOLDER_PATTERN,
+        (_, key: string) => argument(key) ?? ''
+      );
+      return {
+        ...(prompt.description ? { description: prompt.description } : {}),
+        messages: [userText(text)],
+      };
+    }
+
+    switch (name) {
+      case 'explain_file':
+        return this.explainFile(args, signal);
+      case 'write_tests':
+        return this.writeTests(args, signal);
+      default:
+        return this.reviewDiff(args);
+    }
+  }
+
+  /**
+   * explain_file: ファイルの内容を添えて説明を依頼する
+   */
+  private async explainFile(
+    args: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<GetPromptResult> {
+    const target = await this.resolveTarget(args.path);
+    const selection = target.selection
+      ? `\n特に ${target.selection.start.line} 行目から ${target.selection.end.line} 行目の選択範囲を詳しく説明してください。`
+      : '';
+
+    return {
+      description: `${target.displayPath} の説明`,
+      messages: [
+        userText(
+          `次のファイル ${target.displayPath} の目的、主要な処理の流れ、他のモジュールとの関係を説明してください。${selection}`
+        ),
+        await this.fileMessage(target.path, signal),
+      ],
+    };
+  }
+
+  /**
+   * write_tests: プロジェクト情報とファイルの内容を添えてテストの作成を依頼する
+   */
+  private async writeTests(
+    args: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<GetPromptResult> {
+    const target = await this.resolveTarget(args.path);
+    const info = await this.projectInfo();
+
+    const lines = [`次のファイル ${target.displayPath} のテストを書いてください。`];
+    if (args.framework) {
+      lines.push(`テストフレームワークには ${args.framework} を使用してください。`);
+    }
+    if (info) {
+      lines.push('', ...this.describeProject(info));
+      if (info.scripts.test) {
+        lines.push(`- テストの実行コマンド: ${info.scripts.test}`);
+      }
+    }
+    lines.push(
+      '',
+      '既存のテストの配置場所・命名・書き方に合わせ、正常系に加えて境界値とエラー時の振る舞いを確認してください。'
+    );
+
+    return {
+      description: `${target.displayPath} のテスト作成`,
+      messages: [userText(lines.join('\n')), await this.fileMessage(target.path, signal)],
+    };
+  }
+
+  /**
+   * review_diff: プロジェクト情報を添えて差分のレビューを依頼する
+   */
+  private async reviewDiff(args: Record<string, string>): Promise<GetPromptResult> {
+    const info = await this.projectInfo();
+
+    const lines = [
+      '次の差分をレビューしてください。バグ、境界条件の漏れ、エラー処理、既存のコードとの一貫性を確認し、問題点を重要度の高い順に具体的な修正案とともに挙げてください。',
+    ];
+    if (args.focus) {
+      lines.push(`特に「${args.focus}」の観点を重点的に確認してください。`);
+    }
+    if (info) {
+      lines.push('', ...this.describeProject(info));
+    }
+    lines.push('', '```diff', args.diff.replace(/\n$/, ''), '```');
+
+    return {
+      description: '差分のレビュー',
+      messages: [userText(lines.join('\n'))],
+    };
+  }
+
+  /**
+   * 対象のファイルを解決する（パス省略時はエディタでアクティブなファイル）
+   */
+  private async resolveTarget(filePath: string | undefined): Promise<PromptTarget> {
+    if (filePath) {
+      const resolvedPath = this.securityValidator.sanitizePath(filePath);
+      return { path: resolvedPath, displayPath: this.toDisplayPath(resolvedPath) };
+    }
+
+    let active: ActiveFileInfo | null;
+    try {
+      active = await this.editorControl.getActiveFile();
+    } catch {
+      active = null;
+    }
+    if (!active?.path) {
+      throw new ValidationError('path is required when no file is active in the editor', 'path');
+    }
+
+    const resolvedPath = this.securityValidator.sanitizePath(active.path);
+    return {
+      path: resolvedPath,
+      displayPath: this.toDisplayPath(resolvedPath),
+      ...(active.selection ? { selection: active.selection } : {}),
+    };
+  }
+
+  /**
+   * ファイルの内容を埋め込みリソースとして添えるメッセージを作成する
+   */
+  private async fileMessage(filePath: string, signal?: AbortSignal): Promise<PromptMessage> {
+    const [contents] = await this.resources.readResource(pathToFileURL(filePath).href, signal);
+    if (!('text' in contents)) {
+      throw new ValidationError(
+        `Binary files cannot be used in prompts: ${this.toDisplayPath(filePath)}`,
+        'path',
+        filePath
+      );
+    }
+    return { role: 'user', content: { type: 'resource', resource: contents } };
+  }
+
+  /**
+   * プロジェクト情報を取得する（プロジェクトを検出できない場合は null）
+   */
+  private async projectInfo(): Promise<ProjectInfo | null> {
+    try {
+      return await this.projectManagement.getProjectInfo();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * プロンプトに含めるプロジェクトの概要
+   */
+  private describeProject(info: ProjectInfo): string[] {
+    const lines = [`プロジェクト: ${info.name}`, `- 言語: ${info.languages.join(', ')}`];
+    if (info.frameworks.length > 0) {
+      lines.push(`- フレームワーク: ${info.frameworks.join(', ')}`);
+    }
+    if (info.packageManager) {
+      lines.push(`- パッケージマネージャー: ${info.packageManager}`);
+    }
+    return lines;
+  }
+
+  /**
+   * プロンプトに表示するパス（ルートからの相対パス、ルート外は絶対パス）
+   */
+  private toDisplayPath(filePath: string): string {
+    const root = this.securityValidator.getRootFor(filePath);
+    if (!root) {
+      return filePath;
+    }
+
+    const relativePath = path.relative(root.path, filePath).split(path.sep).join('/');
+    const roots = this.securityValidator.getRoots();
+    return root.name === roots[0].name ? relativePath : `${root.name}:${relativePath}`;
+  }
+
+  /**
+   * ユーザー定義のテンプレートを読み込む（ディレクトリが存在しない場合は空）
+   */
+  private async loadTemplates(): Promise<Map<string, PromptTemplate>> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.promptsDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+
+    const templates = new Map<string, PromptTemplate>();
+    for (const fileName of fileNames.sort()) {
+      const match = TEMPLATE_FILE_PATTERN.exec(fileName);
+      if (!match) {
+        continue;
+      }
+      const source = await fs.readFile(path.join(this.promptsDir, fileName), 'utf-8');
+      templates.set(match[1], parsePromptTemplate(match[1], source));
+    }
+    return templates;
+  }
+}
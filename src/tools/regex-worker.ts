@@ -0,0 +1,134 @@
+/**
+ * Regex Worker
+ *
+ * search_content の正規表現の照合をワーカースレッドで実行する
+ *
+ * 壊滅的なバックトラックを起こす正規表現（例: (a|a)*b）はメインスレッドで照合すると
+ * イベントループをブロックし、ツールのタイムアウトやキャンセルも効かなくなる。
+ * ワーカースレッドで照合し、期限を過ぎた場合やキャンセル時はワーカーを強制終了する
+ */
+
+import { Worker } from 'worker_threads';
+import { TimeoutError } from '../errors/index.js';
+
+/**
+ * 照合のデフォルトの期限（1ファイルあたり、ミリ秒）
+ */
+export const DEFAULT_REGEX_TIMEOUT_MS = 1000;
+
+/**
+ * 一致した行
+ */
+export interface LineMatch {
+  /** 0始まりの行番号 */
+  line: number;
+  /** 0始まりの一致位置 */
+  index: number;
+}
+
+/**
+ * ワーカースレッドで実行するスクリプト
+ *
+ * 受け取った行を順に照合し、limit 件に達した時点で一致した行を返す
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const pattern = new RegExp(workerData.source, workerData.flags);
+
+parentPort.on('message', ({ lines, limit }) => {
+  const found = [];
+  for (let line = 0; line < lines.length && found.length < limit; line++) {
+    const match = pattern.exec(lines[line]);
+    if (match) {
+      found.push({ line, index: match.index });
+    }
+  }
+  parentPort.postMessage(found);
+});
+`;
+
+/**
+ * 照合中の要求
+ */
+interface PendingMatch {
+  resolve: (found: LineMatch[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 正規表現の照合を行うワーカー
+ *
+ * 検索ごとに作成し、検索の終了時に close で終了する。
+ * 期限切れまたはキャンセルで強制終了した後は使用できない
+ */
+export class RegexWorker {
+  private readonly worker: Worker;
+  private readonly pattern: RegExp;
+  private readonly timeoutMs: number;
+  private pending: PendingMatch | undefined;
+
+  constructor(pattern: RegExp, timeoutMs: number = DEFAULT_REGEX_TIMEOUT_MS) {
+    this.pattern = pattern;
+    this.timeoutMs = timeoutMs;
+    this.worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { source: pattern.source, flags: pattern.flags },
+    });
+    this.worker.on('message', (found: LineMatch[]) => this.pending?.resolve(found));
+    this.worker.on('error', (error) => this.pending?.reject(error));
+    this.worker.on('exit', () =>
+      this.pending?.reject(new Error('Regular expression worker exited unexpectedly'))
+    );
+  }
+
+  /**
+   * 各行を照合し、一致した行を最大 limit 件返す
+   *
+   * @param signal - abortされた場合はワーカーを終了し、abortの理由で拒否する
+   */
+  match(lines: string[], limit: number, signal?: AbortSignal): Promise<LineMatch[]> {
+    signal?.throwIfAborted();
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending = undefined;
+      };
+      const fail = (error: Error) => {
+        settle();
+        void this.worker.terminate();
+        reject(error);
+      };
+      const onAbort = () => fail(signal?.reason as Error);
+
+      const timer = setTimeout(() => {
+        fail(
+          new TimeoutError(
+            `Regular expression matching exceeded ${this.timeoutMs}ms: ${this.pattern.source}`,
+            'search_content',
+            this.timeoutMs,
+            { query: this.pattern.source }
+          )
+        );
+      }, this.timeoutMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending = {
+        resolve: (found) => {
+          settle();
+          resolve(found);
+        },
+        reject: fail,
+      };
+      this.worker.postMessage({ lines, limit });
+    });
+  }
+
+  /**
+   * ワーカーを終了する
+   */
+  async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+}
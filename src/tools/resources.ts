@@ -0,0 +1,255 @@
+/**
+ * File Resources
+ *
+ * プロジェクト内のファイルを MCP リソース（file:/// URI）として公開する
+ *
+ * 一覧と読み取りは FileOperationsTool を経由するため、SecurityValidator による検証と
+ * .gitignore / .cursorignore・隠しファイルの除外は list_directory / read_file と同じになる。
+ * 購読したリソースの変更は chokidar で監視して通知する
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import chokidar from 'chokidar';
+import {
+  NotFoundError,
+  ResourceExhaustedError,
+  SecurityError,
+  ValidationError,
+} from '../errors/index.js';
+import type { ResourceProvider } from '../protocol/handler.js';
+import type { ListResourcesResult, ResourceContents, ResourceTemplate } from '../protocol/types.js';
+import type { SecurityValidator } from '../security/validator.js';
+import type { FileOperationsTool } from './file-operations.js';
+
+/**
+ * resources/list の1ページあたりに走査するエントリ数
+ */
+export const RESOURCE_PAGE_SIZE = 500;
+
+/**
+ * 拡張子ごとのMIMEタイプ（一覧では内容を読まずにこの表から決定する）
+ */
+const MIME_TYPES: Record<string, string> = {
+  '.c': 'text/x-c',
+  '.cpp': 'text/x-c++',
+  '.cs': 'text/x-csharp',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.gif': 'image/gif',
+  '.go': 'text/x-go',
+  '.h': 'text/x-c',
+  '.html': 'text/html',
+  '.java': 'text/x-java',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+  '.jsx': 'text/javascript',
+  '.md': 'text/markdown',
+  '.mjs': 'text/javascript',
+  '.pdf': 'application/pdf',
+  '.php': 'text/x-php',
+  '.png': 'image/png',
+  '.py': 'text/x-python',
+  '.rb': 'text/x-ruby',
+  '.rs': 'text/x-rust',
+  '.sh': 'text/x-shellscript',
+  '.sql': 'text/x-sql',
+  '.svg': 'image/svg+xml',
+  '.toml': 'text/x-toml',
+  '.ts': 'text/x-typescript',
+  '.tsx': 'text/x-typescript',
+  '.txt': 'text/plain',
+  '.webp': 'image/webp',
+  '.xml': 'application/xml',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+};
+
+/**
+ * 拡張子からMIMEタイプを推定する（不明な場合は undefined）
+ */
+function mimeTypeFor(filePath: string): string | undefined {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * File Resource Provider
+ *
+ * resources/list はプロジェクトルート配下のファイルを list_directory と同じ順序で列挙し、
+ * カーソルも list_directory のものをそのまま使用する
+ */
+export class FileResourceProvider implements ResourceProvider {
+  /** 購読中のファイルの監視（パス → 監視） */
+  private readonly subscriptions = new Map<string, chokidar.FSWatcher>();
+  private readonly listeners: Array<(uri: string) => void> = [];
+
+  constructor(
+    private readonly fileOps: FileOperationsTool,
+    private readonly securityValidator: SecurityValidator,
+    private readonly projectRoot: string
+  ) {}
+
+  /**
+   * プロジェクトルート配下のファイルをリソースとして列挙する
+   *
+   * ディレクトリは返却しないため、1ページのリソース数は RESOURCE_PAGE_SIZE 以下になる
+   */
+  async listResources(cursor?: string, signal?: AbortSignal): Promise<ListResourcesResult> {
+    const listing = await this.fileOps.listDirectory(
+      { path: this.projectRoot, recursive: true, cursor, pageSize: RESOURCE_PAGE_SIZE },
+      signal
+    );
+
+    const resources = listing.entries
+      .filter((entry) => entry.type === 'file')
+      .map((entry) => {
+        const mimeType = mimeTypeFor(entry.path);
+        return {
+          uri: pathToFileURL(entry.path).href,
+          name: path.relative(this.projectRoot, entry.path).split(path.sep).join('/'),
+          ...(mimeType ? { mimeType } : {}),
+          size: entry.size,
+        };
+      });
+
+    return {
+      resources,
+      ...(listing.nextCursor ? { nextCursor: listing.nextCursor } : {}),
+    };
+  }
+
+  /**
+   * プロジェクトルート配下の任意のファイルを指すURIテンプレートを返す
+   */
+  listResourceTemplates(): Promise<ResourceTemplate[]> {
+    return Promise.resolve([
+      {
+        uriTemplate: `${pathToFileURL(this.projectRoot).href}/{+path}`,
+        name: 'Project file',
+        description: 'プロジェクトルートからの相対パスで指定するファイル',
+      },
+    ]);
+  }
+
+  /**
+   * リソースを読み取る
+   *
+   * テキストは text、バイナリ（画像を含む）は base64 の blob で返却する。
+   * maxFileSize を超えるファイルは途中までの内容を返さずにエラーとする
+   */
+  async readResource(uri: string, signal?: AbortSignal): Promise<ResourceContents[]> {
+    const filePath = this.resolveUri(uri);
+
+    let isFile: boolean;
+    try {
+      isFile = (await fs.stat(filePath)).isFile();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      isFile = false;
+    }
+    if (!isFile) {
+      throw new NotFoundError(`Resource not found: ${uri}`, 'resource', uri);
+    }
+
+    const result = await this.fileOps.readFile({ path: filePath, encoding: 'auto' }, signal);
+    if (result.truncated) {
+      throw new ResourceExhaustedError(
+        `Resource exceeds the maximum file size: ${uri}`,
+        'fileSize',
+        undefined,
+        this.fileOps.getMaxFileSize()
+      );
+    }
+
+    if (result.isBinary) {
+      return [
+        {
+          uri,
+          mimeType: result.mimeType ?? mimeTypeFor(filePath) ?? 'application/octet-stream',
+          blob: result.content,
+        },
+      ];
+    }
+    return [{ uri, mimeType: mimeTypeFor(filePath) ?? 'text/plain', text: result.content }];
+  }
+
+  /**
+   * リソースの変更を購読する（購読済みの場合は何もしない）
+   *
+   * 未作成のファイルも購読でき、作成・変更・削除のいずれも通知対象とする
+   */
+  async subscribe(uri: string): Promise<void> {
+    const filePath = this.resolveUri(uri);
+    if (this.subscriptions.has(filePath)) {
+      return;
+    }
+
+    const watcher = chokidar.watch(filePath, {
+      persistent: true,
+      ignoreInitial: true,
+      awaitWriteFinish: {
+        stabilityThreshold: 100,
+        pollInterval: 50,
+      },
+    });
+    const notify = () => this.listeners.forEach((listener) => listener(uri));
+    watcher.on('add', notify).on('change', notify).on('unlink', notify);
+    this.subscriptions.set(filePath, watcher);
+
+    // 監視の開始前の変更を取りこぼさないよう、準備完了まで待つ
+    await new Promise<void>((resolve) => watcher.once('ready', () => resolve()));
+  }
+
+  /**
+   * リソースの購読を解除する（購読していない場合は何もしない）
+   */
+  async unsubscribe(uri: string): Promise<void> {
+    const filePath = this.resolveUri(uri);
+    const watcher = this.subscriptions.get(filePath);
+    if (!watcher) {
+      return;
+    }
+
+    this.subscriptions.delete(filePath);
+    await watcher.close();
+  }
+
+  /**
+   * 購読中のリソースの変更時に呼び出すリスナーを登録する
+   */
+  onUpdated(listener: (uri: string) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * 監視を停止する（サーバー停止時）
+   */
+  async close(): Promise<void> {
+    const watchers = [...this.subscriptions.values()];
+    this.subscriptions.clear();
+    await Promise.all(watchers.map((watcher) => watcher.close()));
+  }
+
+  /**
+   * file:/// URI をパスに変換し、アクセスできることを検証する
+   */
+  private resolveUri(uri: string): string {
+    let filePath: string;
+    try {
+      filePath = fileURLToPath(uri);
+    } catch {
+      throw new ValidationError(`Unsupported resource URI: ${uri}`, 'uri', uri);
+    }
+
+    const securityResult = this.securityValidator.validatePath(filePath);
+    if (!securityResult.ok) {
+      throw new SecurityError(`Security error: ${securityResult.error.message}`, filePath);
+    }
+    return filePath;
+  }
+}
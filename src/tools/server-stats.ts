@@ -0,0 +1,82 @@
+/**
+ * Server Stats Tool
+ *
+ * サーバーの稼働状況と実行統計を取得するツール実装
+ * Requirements: 8.1, 8.2
+ */
+
+import { z } from 'zod';
+import type { ExecutorStats } from '../protocol/executor.js';
+
+/**
+ * 設定読み込みの統計
+ */
+export interface ConfigLoadStats {
+  loadedAt: string;
+  durationMs: number;
+}
+
+/**
+ * サーバー統計の取得元
+ *
+ * サーバー本体が実装し、起動前はnullを返却する
+ */
+export interface ServerStatsSource {
+  getStartedAt(): Date | null;
+  getExecutorStats(): ExecutorStats | null;
+  getConfigLoadStats(): ConfigLoadStats | null;
+}
+
+/**
+ * get_server_stats ツールのスキーマ
+ */
+export const GetServerStatsSchema = z.object({});
+
+export type GetServerStatsParams = z.infer<typeof GetServerStatsSchema>;
+
+/**
+ * メモリ使用量（バイト）
+ */
+export interface MemoryStats {
+  rss: number;
+  heapUsed: number;
+  heapTotal: number;
+  external: number;
+}
+
+/**
+ * サーバー統計
+ */
+export interface ServerStats {
+  startedAt: string | null;
+  uptimeMs: number;
+  execution: ExecutorStats | null;
+  config: ConfigLoadStats | null;
+  memory: MemoryStats;
+}
+
+/**
+ * Server Stats Tool
+ *
+ * 稼働時間・ツール別の呼び出し数とエラー数・レイテンシ・並行実行状況・
+ * 設定読み込み時間・メモリ使用量を返却する
+ */
+export class ServerStatsTool {
+  constructor(private readonly source: ServerStatsSource) {}
+
+  /**
+   * サーバー統計を取得
+   */
+  getServerStats(): ServerStats {
+    const startedAt = this.source.getStartedAt();
+    const { rss, heapUsed, heapTotal, external } = process.memoryUsage();
+
+    return {
+      startedAt: startedAt ? startedAt.toISOString() : null,
+      uptimeMs: startedAt ? Date.now() - startedAt.getTime() : 0,
+      execution: this.source.getExecutorStats(),
+      config: this.source.getConfigLoadStats(),
+      memory: { rss, heapUsed, heapTotal, external },
+    };
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Workspace Discovery
+ *
+ * モノレポのワークスペース定義（npm/yarn/pnpm の workspaces、Cargo の members、go.work の use、
+ * Maven/Gradle のモジュールなど）から、各パッケージのディレクトリを列挙する
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import type { IgnoreRules } from './ignore-rules.js';
+import type { MonorepoInfo } from './project-detection.js';
+
+/**
+ * ワークスペースを探索する最大深さ（`**` を含むパターンや Nx のプロジェクト探索時）
+ */
+export const MAX_WORKSPACE_DEPTH = 6;
+
+/**
+ * 探索しないディレクトリ
+ */
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+/**
+ * ワークスペース探索のオプション
+ */
+export interface FindWorkspacesOptions {
+  /** 無視ルール（対象のディレクトリは探索しない） */
+  ignoreRules?: IgnoreRules;
+  /** ディレクトリへのアクセスが許可されているか */
+  isAllowed?: (dirPath: string) => boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * ワークスペースのメンバー指定を glob パターンに正規化する
+ *
+ * - 先頭の ./ と末尾の / を取り除く
+ * - プロジェクトファイル（*.csproj など）の指定はそのディレクトリに置き換える
+ */
+function normalizeMember(member: string): string {
+  let pattern = member.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  if (/\.\w+proj$/.test(pattern)) {
+    pattern = path.posix.dirname(pattern);
+  }
+  return pattern;
+}
+
+/**
+ * ワークスペースのディレクトリを列挙する
+ *
+ * メンバーの glob パターン（`!` で始まるものは除外）に一致するディレクトリと、
+ * Nx を使用している場合は project.json を含むディレクトリを返す。
+ * 結果はプロジェクトルートからの相対パス（POSIX形式）で、名前順にソートする
+ */
+export async function findWorkspaceDirectories(
+  projectRoot: string,
+  monorepo: MonorepoInfo,
+  options: FindWorkspacesOptions = {}
+): Promise<string[]> {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  for (const member of monorepo.packages) {
+    if (member.startsWith('!')) {
+      exclude.push(normalizeMember(member.slice(1)));
+    } else {
+      include.push(normalizeMember(member));
+    }
+  }
+  const findNxProjects = monorepo.tools.includes('nx');
+
+  if (include.length === 0 && !findNxProjects) {
+    return [];
+  }
+
+  // パターンの階層数だけ探索すれば十分（`**` を含む場合と Nx は上限まで）
+  const maxDepth =
+    findNxProjects || include.some((pattern) => pattern.includes('**'))
+      ? MAX_WORKSPACE_DEPTH
+      : Math.max(...include.map((pattern) => pattern.split('/').length));
+
+  const found: string[] = [];
+  const walk = async (dir: string, depth: number): Promise<void> => {
+    options.signal?.throwIfAborted();
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (
+        !entry.isDirectory() ||
+        entry.name.startsWith('.') ||
+        SKIPPED_DIRECTORIES.has(entry.name)
+      ) {
+        continue;
+      }
+
+      const fullPath = path.join(dir, entry.name);
+      if (
+        (options.isAllowed && !options.isAllowed(fullPath)) ||
+        (options.ignoreRules && (await options.ignoreRules.isIgnored(fullPath, true)))
+      ) {
+        continue;
+      }
+
+      const relativePath = path.relative(projectRoot, fullPath).replace(/\\/g, '/');
+      const matched =
+        include.some((pattern) => minimatch(relativePath, pattern)) ||
+        (findNxProjects && (await hasFile(fullPath, 'project.json')));
+      if (matched && !exclude.some((pattern) => minimatch(relativePath, pattern))) {
+        found.push(relativePath);
+      }
+
+      if (depth < maxDepth) {
+        await walk(fullPath, depth + 1);
+      }
+    }
+  };
+
+  await walk(projectRoot, 1);
+
+  return found.sort();
+}
+
+/**
+ * ディレクトリにファイルが存在するか判定する
+ */
+async function hasFile(dirPath: string, name: string): Promise<boolean> {
+  try {
+    return (await fs.stat(path.join(dirPath, name))).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Nx の project.json からプロジェクト名を読み込む（存在しない場合は undefined）
+ */
+export async function readNxProjectName(dirPath: string): Promise<string | undefined> {
+  try {
+    const parsed: unknown = JSON.parse(
+      await fs.readFile(path.join(dirPath, 'project.json'), 'utf-8')
+    );
+    const name =
+      typeof parsed === 'object' && parsed !== null && 'name' in parsed ? parsed.name : undefined;
+    return typeof name === 'string' ? name : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -16,6 +16,8 @@ export interface LogContext {
   requestId?: string | number;
   toolName?: string;
   userId?: string;
+  /** true の場合はMCPクライアントへ転送しない（クライアントへの送信失敗のログなど） */
+  localOnly?: boolean;
   [key: string]: unknown;
 }
 
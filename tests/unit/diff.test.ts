@@ -0,0 +1,180 @@
+/**
+ * Unified Diff Tests
+ *
+ * 編集結果の差分表示に使用するunified diff生成の検証
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyHunks,
+  createUnifiedDiff,
+  parseUnifiedDiff,
+  PatchParseError,
+  splitLines
+} from '../../src/tools/diff';
+
+describe('createUnifiedDiff', () => {
+  const lines = (count: number) =>
+    Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+  it('差分がない場合は空文字列を返す', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n', { oldPath: 'file.txt' })).toBe('');
+  });
+
+  it('変更行の前後3行をコンテキストとして含める', () => {
+    const oldText = lines(10);
+    const newText = oldText.replace('line 5\n', 'LINE 5\n');
+
+    expect(createUnifiedDiff(oldText, newText, { oldPath: 'file.txt' })).toBe(
+      [
+        '--- a/file.txt',
+        '+++ b/file.txt',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+LINE 5',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        ''
+      ].join('\n')
+    );
+  });
+
+  it('離れた変更は別々のハンクとして出力する', () => {
+    const oldText = lines(30);
+    const newText = oldText.replace('line 2\n', '').replace('line 28\n', 'line 28\nadded\n');
+
+    const diff = createUnifiedDiff(oldText, newText, { oldPath: 'file.txt' });
+
+    expect(diff).toContain('@@ -1,5 +1,4 @@');
+    expect(diff).toContain('@@ -26,5 +25,6 @@');
+  });
+
+  it('新規作成と全削除の行番号を0始まりで表す', () => {
+    expect(createUnifiedDiff('', 'a\n', { oldPath: 'new.txt' })).toContain('@@ -0,0 +1,1 @@');
+    expect(createUnifiedDiff('a\nb\n', '', { oldPath: 'old.txt' })).toContain('@@ -1,2 +0,0 @@');
+  });
+
+  it('newPathを指定した場合はヘッダーに反映する', () => {
+    const diff = createUnifiedDiff('a\n', 'b\n', { oldPath: 'old.txt', newPath: 'new.txt' });
+
+    expect(diff.startsWith('--- a/old.txt\n+++ b/new.txt\n')).toBe(true);
+  });
+
+  it('大きなファイルの散在する変更を変更ごとのハンクとして出力する', () => {
+    const oldLines = lines(100000).split('\n');
+    const newLines = oldLines.map((line, i) => (i % 500 === 250 ? `${line} changed` : line));
+
+    const diff = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), {
+      oldPath: 'large.txt'
+    });
+
+    expect(diff.match(/^@@ /gm)).toHaveLength(200);
+    expect(diff).toContain('@@ -248,7 +248,7 @@');
+  });
+
+  it('差分が大きすぎる場合は共通の先頭・末尾を除いた範囲を1つのハンクで置き換える', () => {
+    const oldLines = lines(20000).split('\n');
+    const newLines = oldLines.map((line, i) => (i >= 10 && i < 19990 ? `${line} changed` : line));
+
+    const diff = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), {
+      oldPath: 'large.txt'
+    });
+
+    expect(diff.match(/^@@ /gm)).toEqual(['@@ ']);
+    expect(diff).toContain('@@ -8,19986 +8,19986 @@\n line 8\n line 9\n line 10\n-line 11\n');
+    expect(diff.endsWith('+line 19990 changed\n line 19991\n line 19992\n line 19993\n')).toBe(
+      true
+    );
+  });
+});
+
+describe('splitLines', () => {
+  it('末尾の改行を空行として扱わずにCRLFとLFを分割する', () => {
+    expect(splitLines('a\r\nb\nc\n')).toEqual(['a', 'b', 'c']);
+    expect(splitLines('')).toEqual([]);
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  it('git diff形式の複数ファイルのパッチを解析する', () => {
+    const patch = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,2 +1,2 @@',
+      ' keep',
+      '-old',
+      '+new',
+      'diff --git a/src/b.ts b/src/b.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/src/b.ts',
+      '@@ -0,0 +1 @@',
+      '+created',
+      ''
+    ].join('\n');
+
+    const files = parseUnifiedDiff(patch);
+
+    expect(files).toHaveLength(2);
+    expect(files[0]).toMatchObject({ oldPath: 'src/a.ts', newPath: 'src/a.ts' });
+    expect(files[0].hunks[0]).toMatchObject({ oldStart: 1, oldCount: 2, newStart: 1, newCount: 2 });
+    expect(files[0].hunks[0].lines).toEqual([' keep', '-old', '+new']);
+    expect(files[1]).toMatchObject({ oldPath: null, newPath: 'src/b.ts' });
+    expect(files[1].hunks[0].newCount).toBe(1);
+  });
+
+  it('"\\ No newline at end of file" を変更前・変更後に振り分ける', () => {
+    const patch = [
+      '--- a/x.txt',
+      '+++ b/x.txt',
+      '@@ -1 +1 @@',
+      '-old',
+      '\\ No newline at end of file',
+      '+new'
+    ].join('\n');
+
+    const [file] = parseUnifiedDiff(patch);
+
+    expect(file.hunks[0].oldNoNewlineAtEnd).toBe(true);
+    expect(file.hunks[0].newNoNewlineAtEnd).toBe(false);
+  });
+
+  it('行数がヘッダーと一致しないハンクはエラーをスローする', () => {
+    const patch = ['--- a/x.txt', '+++ b/x.txt', '@@ -1,3 +1,3 @@', ' a', '-b', '+c'].join('\n');
+
+    expect(() => parseUnifiedDiff(patch)).toThrow(PatchParseError);
+  });
+});
+
+describe('applyHunks', () => {
+  const [file] = parseUnifiedDiff(
+    ['--- a/x.txt', '+++ b/x.txt', '@@ -2,3 +2,3 @@', ' b', '-c', '+C', ' d'].join('\n')
+  );
+
+  it('ヘッダーの位置でハンクを適用する', () => {
+    const result = applyHunks(['a', 'b', 'c', 'd', 'e'], true, file.hunks);
+
+    expect(result.lines).toEqual(['a', 'b', 'C', 'd', 'e']);
+    expect(result.hunks).toEqual([{ index: 0, applied: true, offset: 0 }]);
+  });
+
+  it('行がずれている場合は前後を探索して適用し、ずれを報告する', () => {
+    const result = applyHunks(['x', 'y', 'a', 'b', 'c', 'd', 'e'], true, file.hunks);
+
+    expect(result.lines).toEqual(['x', 'y', 'a', 'b', 'C', 'd', 'e']);
+    expect(result.hunks[0].offset).toBe(2);
+  });
+
+  it('maxOffsetを超えるずれは適用しない', () => {
+    const result = applyHunks(['x', 'y', 'a', 'b', 'c', 'd', 'e'], true, file.hunks, 1);
+
+    expect(result.hunks[0].applied).toBe(false);
+    expect(result.hunks[0].reason).toContain('does not match the file content');
+  });
+});
@@ -14,6 +14,7 @@ import { promises as fs } from 'fs';
 import * as path from 'path';
 import { FileOperationsTool } from '../../src/tools/file-operations';
 import { SecurityValidator } from '../../src/security/validator';
+import { ResourceExhaustedError } from '../../src/errors';
 
 describe('FileOperationsTool - read_file', () => {
   let fileOps: FileOperationsTool;
@@ -197,6 +198,171 @@ describe('FileOperationsTool - read_file', () => {
       expect(result.content).toBe('');
       expect(result.size).toBe(0);
     });
+
+    it('設定されたmaxFileSizeで切り詰められる', async () => {
+      fileOps = new FileOperationsTool(securityValidator, testDir, { maxFileSize: 1024 });
+      await fs.writeFile(path.join(testDir, 'limited.txt'), 'C'.repeat(4096), 'utf-8');
+
+      const result = await fileOps.readFile({ path: 'limited.txt' });
+
+      expect(result.size).toBe(1024);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('maxFileSizeの変更が以降の読み込みに反映される', async () => {
+      fileOps = new FileOperationsTool(securityValidator, testDir, { maxFileSize: 1024 });
+      await fs.writeFile(path.join(testDir, 'limited.txt'), 'C'.repeat(4096), 'utf-8');
+
+      fileOps.setMaxFileSize(8192);
+      const result = await fileOps.readFile({ path: 'limited.txt' });
+
+      expect(fileOps.getMaxFileSize()).toBe(8192);
+      expect(result.size).toBe(4096);
+      expect(result.truncated).toBe(false);
+    });
+  });
+
+  describe('行単位の読み取り', () => {
+    beforeEach(async () => {
+      const lines = Array.from({ length: 300 }, (_, i) => `line ${i + 1} あいう`);
+      await fs.writeFile(path.join(testDir, 'lines.txt'), lines.join('\n') + '\n', 'utf-8');
+    });
+
+    it('指定した行範囲を行番号付きで返却する', async () => {
+      const result = await fileOps.readFile({ path: 'lines.txt', startLine: 200, endLine: 202 });
+
+      expect(result.content).toBe(
+        '200\tline 200 あいう\n201\tline 201 あいう\n202\tline 202 あいう'
+      );
+      expect(result.startLine).toBe(200);
+      expect(result.endLine).toBe(202);
+      expect(result.totalLines).toBe(300);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('lineNumbers: false の場合は行番号を付与しない', async () => {
+      const result = await fileOps.readFile({
+        path: 'lines.txt',
+        startLine: 1,
+        endLine: 2,
+        lineNumbers: false
+      });
+
+      expect(result.content).toBe('line 1 あいう\nline 2 あいう');
+    });
+
+    it('maxLinesで返却する行数を制限する', async () => {
+      const result = await fileOps.readFile({ path: 'lines.txt', startLine: 10, maxLines: 5 });
+
+      expect(result.startLine).toBe(10);
+      expect(result.endLine).toBe(14);
+      expect(result.truncated).toBe(true);
+      expect(result.totalLines).toBe(300);
+    });
+
+    it('ファイル末尾を超える範囲は存在する行のみを返却する', async () => {
+      const result = await fileOps.readFile({ path: 'lines.txt', startLine: 299, endLine: 400 });
+
+      expect(result.content.split('\n')).toHaveLength(2);
+      expect(result.endLine).toBe(300);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('offset/lengthとの併用はエラーをスローする', async () => {
+      await expect(
+        fileOps.readFile({ path: 'lines.txt', startLine: 1, offset: 10 })
+      ).rejects.toThrow('offset/length cannot be combined');
+    });
+
+    it('endLineがstartLineより小さい場合はエラーをスローする', async () => {
+      await expect(
+        fileOps.readFile({ path: 'lines.txt', startLine: 10, endLine: 5 })
+      ).rejects.toThrow('endLine (5) must be greater than or equal to startLine (10)');
+    });
+  });
+
+  describe('エンコーディングの自動判定', () => {
+    it('UTF-8のBOMを検出し、BOMを除いて返却する', async () => {
+      const content = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('こんにちは', 'utf-8')]);
+      await fs.writeFile(path.join(testDir, 'bom.txt'), content);
+
+      const result = await fileOps.readFile({ path: 'bom.txt', encoding: 'auto' });
+
+      expect(result.content).toBe('こんにちは');
+      expect(result.detectedEncoding).toBe('utf-8');
+      expect(result.isBinary).toBe(false);
+    });
+
+    it('UTF-16LE/BEのBOMを検出してデコードする', async () => {
+      const le = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Hello', 'utf16le')]);
+      const be = Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('Hello', 'utf16le').swap16()]);
+      await fs.writeFile(path.join(testDir, 'le.txt'), le);
+      await fs.writeFile(path.join(testDir, 'be.txt'), be);
+
+      const leResult = await fileOps.readFile({ path: 'le.txt', encoding: 'auto' });
+      const beResult = await fileOps.readFile({ path: 'be.txt', encoding: 'auto' });
+
+      expect(leResult.content).toBe('Hello');
+      expect(leResult.detectedEncoding).toBe('utf-16le');
+      expect(beResult.content).toBe('Hello');
+      expect(beResult.detectedEncoding).toBe('utf-16be');
+    });
+
+    it('NULバイトを含むファイルをバイナリと判定しbase64で返却する', async () => {
+      const content = Buffer.from([0x41, 0x00, 0x42, 0x43]);
+      await fs.writeFile(path.join(testDir, 'data.bin'), content);
+
+      const result = await fileOps.readFile({ path: 'data.bin', encoding: 'auto' });
+
+      expect(result.isBinary).toBe(true);
+      expect(result.detectedEncoding).toBe('binary');
+      expect(result.encoding).toBe('binary');
+      expect(result.content).toBe(content.toString('base64'));
+      expect(result.mimeType).toBeUndefined();
+    });
+
+    it('不正なUTF-8シーケンスが多いファイルをバイナリと判定する', async () => {
+      const content = Buffer.from(Array.from({ length: 64 }, (_, i) => (i % 2 === 0 ? 0x41 : 0xc3)));
+      await fs.writeFile(path.join(testDir, 'latin.dat'), content);
+
+      const result = await fileOps.readFile({ path: 'latin.dat', encoding: 'auto' });
+
+      expect(result.isBinary).toBe(true);
+    });
+
+    it('画像のマジックナンバーからMIMEタイプを判定する', async () => {
+      const gif = Buffer.concat([Buffer.from('GIF89a', 'latin1'), Buffer.from([0x01, 0x00, 0x01, 0x00])]);
+      await fs.writeFile(path.join(testDir, 'pixel.gif'), gif);
+
+      const result = await fileOps.readFile({ path: 'pixel.gif', encoding: 'auto' });
+
+      expect(result.isBinary).toBe(true);
+      expect(result.mimeType).toBe('image/gif');
+      expect(Buffer.from(result.content, 'base64').equals(gif)).toBe(true);
+    });
+
+    it('行単位の読み取りでもBOMを除いて判定結果を返却する', async () => {
+      const content = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('a\nb\nc\n', 'utf16le')]);
+      await fs.writeFile(path.join(testDir, 'lines16.txt'), content);
+
+      const result = await fileOps.readFile({
+        path: 'lines16.txt',
+        encoding: 'auto',
+        startLine: 1,
+        lineNumbers: false
+      });
+
+      expect(result.content).toBe('a\nb\nc');
+      expect(result.detectedEncoding).toBe('utf-16le');
+    });
+
+    it('バイナリファイルの行単位の読み取りはエラーをスローする', async () => {
+      await fs.writeFile(path.join(testDir, 'data.bin'), Buffer.from([0x00, 0x01, 0x02]));
+
+      await expect(
+        fileOps.readFile({ path: 'data.bin', encoding: 'auto', startLine: 1 })
+      ).rejects.toThrow('Line-based reading is not supported for binary content');
+    });
   });
 
   describe('エラーハンドリング', () => {
@@ -461,6 +627,20 @@ describe('FileOperationsTool - write_file', () => {
       // クリーンアップ
       await fs.chmod(readOnlyDir, 0o755);
     });
+
+    it('maxFileSizeを超える内容の書き込みを拒否する', async () => {
+      fileOps = new FileOperationsTool(securityValidator, testDir, { maxFileSize: 1024 });
+
+      const error = await fileOps
+        .writeFile({ path: 'too-large.txt', content: 'D'.repeat(2048) })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ResourceExhaustedError);
+      expect((error as ResourceExhaustedError).message).toContain('exceeds maxFileSize 1024 bytes');
+      expect((error as ResourceExhaustedError).currentUsage).toBe(2048);
+      expect((error as ResourceExhaustedError).limit).toBe(1024);
+      await expect(fs.access(path.join(testDir, 'too-large.txt'))).rejects.toThrow();
+    });
   });
 
   describe('結果情報', () => {
@@ -496,5 +676,662 @@ describe('FileOperationsTool - write_file', () => {
       });
       expect(result2.created).toBe(false);
     });
+
+    it('書き込んだ内容のハッシュと更新日時を返す', async () => {
+      const result = await fileOps.writeFile({ path: 'hash.txt', content: 'hash me' });
+      const read = await fileOps.readFile({ path: 'hash.txt' });
+
+      expect(result.hash).toBe(read.hash);
+      expect(result.lastModified).toBe(read.lastModified);
+    });
+  });
+
+  describe('アトミック書き込み', () => {
+    it('書き込み後に一時ファイルが残らない', async () => {
+      await fileOps.writeFile({ path: 'atomic.txt', content: 'first' });
+      await fileOps.writeFile({ path: 'atomic.txt', content: 'second' });
+
+      const entries = await fs.readdir(testDir);
+      expect(entries).toEqual(['atomic.txt']);
+      expect(await fs.readFile(path.join(testDir, 'atomic.txt'), 'utf-8')).toBe('second');
+    });
+
+    it('既存ファイルのパーミッションを維持する', async () => {
+      const filePath = path.join(testDir, 'script.sh');
+      await fs.writeFile(filePath, '#!/bin/sh', 'utf-8');
+      await fs.chmod(filePath, 0o755);
+
+      await fileOps.writeFile({ path: 'script.sh', content: '#!/bin/sh\necho hi' });
+
+      const stats = await fs.stat(filePath);
+      expect(stats.mode & 0o777).toBe(0o755);
+    });
+
+    it('同一ファイルへの並行書き込みは直列化され、いずれかの内容になる', async () => {
+      await Promise.all(
+        Array.from({ length: 5 }, (_, i) =>
+          fileOps.writeFile({ path: 'concurrent.txt', content: `writer ${i}`.repeat(1000) })
+        )
+      );
+
+      const content = await fs.readFile(path.join(testDir, 'concurrent.txt'), 'utf-8');
+      expect(content).toMatch(/^(writer \d)+$/);
+      expect(new Set(content.match(/writer \d/g)).size).toBe(1);
+      expect(await fs.readdir(testDir)).toEqual(['concurrent.txt']);
+    });
+  });
+
+  describe('楽観的並行性制御', () => {
+    beforeEach(async () => {
+      await fs.writeFile(path.join(testDir, 'shared.txt'), 'original', 'utf-8');
+    });
+
+    it('読み取り後に変更されていなければexpectedMtime/expectedHashを指定して書き込める', async () => {
+      const read = await fileOps.readFile({ path: 'shared.txt' });
+
+      const result = await fileOps.writeFile({
+        path: 'shared.txt',
+        content: 'updated',
+        expectedMtime: read.lastModified,
+        expectedHash: read.hash
+      });
+
+      expect(result.success).toBe(true);
+      expect(await fs.readFile(path.join(testDir, 'shared.txt'), 'utf-8')).toBe('updated');
+    });
+
+    it('読み取り後に内容が変更されていた場合は競合エラーをスローする', async () => {
+      const read = await fileOps.readFile({ path: 'shared.txt' });
+      await fs.writeFile(path.join(testDir, 'shared.txt'), 'changed by another agent', 'utf-8');
+
+      await expect(
+        fileOps.writeFile({ path: 'shared.txt', content: 'mine', expectedHash: read.hash })
+      ).rejects.toMatchObject({ ruleId: 'WRITE_CONFLICT' });
+      expect(await fs.readFile(path.join(testDir, 'shared.txt'), 'utf-8')).toBe(
+        'changed by another agent'
+      );
+    });
+
+    it('更新日時が一致しない場合は競合エラーをスローする', async () => {
+      await expect(
+        fileOps.writeFile({
+          path: 'shared.txt',
+          content: 'mine',
+          expectedMtime: '2000-01-01T00:00:00.000Z'
+        })
+      ).rejects.toThrow('Write conflict: shared.txt has been modified since it was read');
+    });
+
+    it('読み取り後に削除されていた場合は競合エラーをスローする', async () => {
+      const read = await fileOps.readFile({ path: 'shared.txt' });
+      await fs.rm(path.join(testDir, 'shared.txt'));
+
+      await expect(
+        fileOps.writeFile({ path: 'shared.txt', content: 'mine', expectedHash: read.hash })
+      ).rejects.toThrow('Write conflict: shared.txt no longer exists');
+    });
+  });
+
+  describe('バックアップ', () => {
+    const backupPath = () => path.join(testDir, '.cursorcli-mcp', 'backups', 'src', 'app.ts.bak');
+
+    beforeEach(async () => {
+      await fs.mkdir(path.join(testDir, 'src'), { recursive: true });
+      await fs.writeFile(path.join(testDir, 'src', 'app.ts'), 'v0', 'utf-8');
+    });
+
+    it('backup: true の場合は上書き前の内容を .bak として保存する', async () => {
+      const result = await fileOps.writeFile({ path: 'src/app.ts', content: 'v1', backup: true });
+
+      expect(result.backupPath).toBe(backupPath());
+      expect(await fs.readFile(backupPath(), 'utf-8')).toBe('v0');
+    });
+
+    it('設定された世代数までバックアップをローテーションする', async () => {
+      fileOps = new FileOperationsTool(securityValidator, testDir, { backupCount: 2 });
+
+      for (const content of ['v1', 'v2', 'v3']) {
+        await fileOps.writeFile({ path: 'src/app.ts', content, backup: true });
+      }
+
+      expect(await fs.readFile(backupPath(), 'utf-8')).toBe('v2');
+      expect(await fs.readFile(`${backupPath()}.1`, 'utf-8')).toBe('v1');
+      await expect(fs.access(`${backupPath()}.2`)).rejects.toThrow();
+    });
+
+    it('backup を指定しない場合はバックアップを作成しない', async () => {
+      const result = await fileOps.writeFile({ path: 'src/app.ts', content: 'v1' });
+
+      expect(result.backupPath).toBeUndefined();
+      await expect(fs.access(backupPath())).rejects.toThrow();
+    });
+  });
+});
+
+describe('FileOperationsTool - edit_file', () => {
+  let fileOps: FileOperationsTool;
+  let securityValidator: SecurityValidator;
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    testDir = path.join(process.cwd(), 'test-workspace');
+    await fs.mkdir(testDir, { recursive: true });
+
+    securityValidator = new SecurityValidator({
+      projectRoot: testDir,
+      blockedPatterns: [],
+      enforceProjectRoot: true
+    });
+
+    fileOps = new FileOperationsTool(securityValidator, testDir);
+
+    filePath = path.join(testDir, 'app.ts');
+    await fs.writeFile(
+      filePath,
+      ['const a = 1;', 'const b = 2;', 'function add() {', '  return a + b;', '}', ''].join('\n'),
+      'utf-8'
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('検索・置換による編集', () => {
+    it('一意に一致するテキストを置換しunified diffを返す', async () => {
+      const result = await fileOps.editFile({
+        path: 'app.ts',
+        edits: [{ oldText: 'return a + b;', newText: 'return a * b;' }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.editsApplied).toBe(1);
+      expect(result.dryRun).toBe(false);
+      expect(await fs.readFile(filePath, 'utf-8')).toContain('  return a * b;');
+      expect(result.diff).toContain('--- a/app.ts\n+++ b/app.ts\n@@ -1,5 +1,5 @@');
+      expect(result.diff).toContain('-  return a + b;\n+  return a * b;');
+    });
+
+    it('複数の編集は全て編集前の内容を基準に適用される', async () => {
+      await fileOps.editFile({
+        path: 'app.ts',
+        edits: [
+          { oldText: 'const a = 1;', newText: 'const b = 1;' },
+          { oldText: 'const b = 2;', newText: 'const c = 2;' }
+        ]
+      });
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      expect(content.startsWith('const b = 1;\nconst c = 2;\n')).toBe(true);
+    });
+
+    it('一致箇所が複数ある場合はエラーをスローしファイルを変更しない', async () => {
+      await expect(
+        fileOps.editFile({ path: 'app.ts', edits: [{ oldText: 'const', newText: 'let' }] })
+      ).rejects.toThrow('edits[0]: oldText matches 2 locations');
+      expect(await fs.readFile(filePath, 'utf-8')).toContain('const a = 1;');
+    });
+
+    it('replaceAll: true の場合は全ての一致箇所を置換する', async () => {
+      const result = await fileOps.editFile({
+        path: 'app.ts',
+        edits: [{ oldText: 'const', newText: 'let', replaceAll: true }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(await fs.readFile(filePath, 'utf-8')).not.toContain('const');
+    });
+
+    it('一致しない編集が含まれる場合は他の編集も適用しない', async () => {
+      await expect(
+        fileOps.editFile({
+          path: 'app.ts',
+          edits: [
+            { oldText: 'const a = 1;', newText: 'const a = 10;' },
+            { oldText: 'missing', newText: 'x' }
+          ]
+        })
+      ).rejects.toThrow('edits[1]: oldText not found in file');
+      expect(await fs.readFile(filePath, 'utf-8')).toContain('const a = 1;');
+    });
+
+    it('重なり合う編集はエラーをスローする', async () => {
+      await expect(
+        fileOps.editFile({
+          path: 'app.ts',
+          edits: [
+            { oldText: 'const a = 1;\nconst b', newText: 'x' },
+            { oldText: 'b = 2;', newText: 'y' }
+          ]
+        })
+      ).rejects.toThrow('edits[0] and edits[1] overlap');
+    });
+
+    it('CRLFのファイルでもLFで指定した複数行のテキストに一致する', async () => {
+      await fs.writeFile(filePath, 'first\r\nsecond\r\nthird\r\n', 'utf-8');
+
+      await fileOps.editFile({
+        path: 'app.ts',
+        edits: [{ oldText: 'first\nsecond', newText: 'one\ntwo' }]
+      });
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('one\r\ntwo\r\nthird\r\n');
+    });
+  });
+
+  describe('行範囲による編集', () => {
+    it('指定した行範囲を置換する', async () => {
+      await fileOps.editFile({
+        path: 'app.ts',
+        edits: [{ startLine: 3, endLine: 5, newText: 'const add = () => a + b;' }]
+      });
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(
+        'const a = 1;\nconst b = 2;\nconst add = () => a + b;\n'
+      );
+    });
+
+    it('空文字列で置換すると行を削除する', async () => {
+      await fileOps.editFile({
+        path: 'app.ts',
+        edits: [{ startLine: 2, endLine: 2, newText: '' }]
+      });
+
+      expect(await fs.readFile(filePath, 'utf-8')).not.toContain('const b = 2;');
+    });
+
+    it('ファイルの行数を超える範囲はエラーをスローする', async () => {
+      await expect(
+        fileOps.editFile({ path: 'app.ts', edits: [{ startLine: 4, endLine: 10, newText: '' }] })
+      ).rejects.toThrow('line range 4-10 exceeds file length (5 lines)');
+    });
+  });
+
+  describe('ドライランと前提条件', () => {
+    it('dryRun: true の場合はファイルを変更せずに差分を返す', async () => {
+      const before = await fs.readFile(filePath, 'utf-8');
+
+      const result = await fileOps.editFile({
+        path: 'app.ts',
+        edits: [{ oldText: 'const a = 1;', newText: 'const a = 2;' }],
+        dryRun: true
+      });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.diff).toContain('+const a = 2;');
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(before);
+    });
+
+    it('dryRun: true でもmaxFileSizeを超える編集結果はエラーをスローする', async () => {
+      fileOps = new FileOperationsTool(securityValidator, testDir, { maxFileSize: 100 });
+
+      const error = await fileOps
+        .editFile({
+          path: 'app.ts',
+          edits: [{ oldText: 'const a = 1;', newText: 'x'.repeat(200) }],
+          dryRun: true
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ResourceExhaustedError);
+      expect((error as ResourceExhaustedError).message).toContain('exceeds maxFileSize 100 bytes');
+    });
+
+    it('読み取り後に変更されていた場合は競合エラーをスローする', async () => {
+      const read = await fileOps.readFile({ path: 'app.ts' });
+      await fs.appendFile(filePath, '// changed\n');
+
+      await expect(
+        fileOps.editFile({
+          path: 'app.ts',
+          edits: [{ oldText: 'const a = 1;', newText: 'const a = 2;' }],
+          expectedHash: read.hash
+        })
+      ).rejects.toMatchObject({ ruleId: 'WRITE_CONFLICT' });
+    });
+
+    it('存在しないファイルの編集はエラーをスローする', async () => {
+      await expect(
+        fileOps.editFile({ path: 'missing.ts', edits: [{ oldText: 'a', newText: 'b' }] })
+      ).rejects.toThrow('File not found: missing.ts');
+    });
+  });
+});
+
+describe('FileOperationsTool - apply_patch', () => {
+  let fileOps: FileOperationsTool;
+  let testDir: string;
+
+  const patchOf = (...lines: string[]) => lines.join('\n') + '\n';
+
+  beforeEach(async () => {
+    testDir = path.join(process.cwd(), 'test-workspace');
+    await fs.mkdir(path.join(testDir, 'src'), { recursive: true });
+
+    const securityValidator = new SecurityValidator({
+      projectRoot: testDir,
+      blockedPatterns: ['secrets/**'],
+      enforceProjectRoot: true
+    });
+
+    fileOps = new FileOperationsTool(securityValidator, testDir);
+
+    await fs.writeFile(path.join(testDir, 'src', 'a.ts'), 'one\ntwo\nthree\n', 'utf-8');
+    await fs.writeFile(path.join(testDir, 'src', 'b.ts'), 'alpha\nbeta\n', 'utf-8');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('複数ファイルにまたがるパッチを適用する', async () => {
+    const result = await fileOps.applyPatch({
+      patch: patchOf(
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,3 +1,3 @@',
+        ' one',
+        '-two',
+        '+TWO',
+        ' three',
+        '--- a/src/b.ts',
+        '+++ b/src/b.ts',
+        '@@ -1,2 +1,3 @@',
+        ' alpha',
+        ' beta',
+        '+gamma'
+      )
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.files.map((file) => file.operation)).toEqual(['modify', 'modify']);
+    expect(await fs.readFile(path.join(testDir, 'src', 'a.ts'), 'utf-8')).toBe('one\nTWO\nthree\n');
+    expect(await fs.readFile(path.join(testDir, 'src', 'b.ts'), 'utf-8')).toBe(
+      'alpha\nbeta\ngamma\n'
+    );
+  });
+
+  it('ファイルの作成と削除を適用する', async () => {
+    const result = await fileOps.applyPatch({
+      patch: patchOf(
+        '--- /dev/null',
+        '+++ b/src/new/c.ts',
+        '@@ -0,0 +1,2 @@',
+        '+created',
+        '+file',
+        '--- a/src/b.ts',
+        '+++ /dev/null',
+        '@@ -1,2 +0,0 @@',
+        '-alpha',
+        '-beta'
+      )
+    });
+
+    expect(result.files.map((file) => file.operation)).toEqual(['create', 'delete']);
+    expect(await fs.readFile(path.join(testDir, 'src', 'new', 'c.ts'), 'utf-8')).toBe(
+      'created\nfile\n'
+    );
+    await expect(fs.access(path.join(testDir, 'src', 'b.ts'))).rejects.toThrow();
+  });
+
+  it('いずれかのハンクが適用できない場合はどのファイルも変更しない', async () => {
+    await expect(
+      fileOps.applyPatch({
+        patch: patchOf(
+          '--- a/src/a.ts',
+          '+++ b/src/a.ts',
+          '@@ -1,2 +1,2 @@',
+          '-one',
+          '+ONE',
+          ' two',
+          '--- a/src/b.ts',
+          '+++ b/src/b.ts',
+          '@@ -1,2 +1,2 @@',
+          ' alpha',
+          '-delta',
+          '+DELTA'
+        )
+      })
+    ).rejects.toThrow('Patch does not apply; no files were changed');
+
+    expect(await fs.readFile(path.join(testDir, 'src', 'a.ts'), 'utf-8')).toBe('one\ntwo\nthree\n');
+  });
+
+  it('dryRun: true の場合は適用できないハンクを報告しファイルを変更しない', async () => {
+    const result = await fileOps.applyPatch({
+      patch: patchOf(
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,2 +1,2 @@',
+        '-one',
+        '+ONE',
+        ' two',
+        '@@ -10,2 +10,2 @@',
+        '-missing',
+        '+MISSING',
+        ' line'
+      ),
+      dryRun: true
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.dryRun).toBe(true);
+    expect(result.files[0].hunks.map((hunk) => hunk.applied)).toEqual([true, false]);
+    expect(await fs.readFile(path.join(testDir, 'src', 'a.ts'), 'utf-8')).toBe('one\ntwo\nthree\n');
+  });
+
+  it('行番号がずれたハンクを補正して適用する', async () => {
+    await fs.writeFile(path.join(testDir, 'src', 'a.ts'), 'zero\none\ntwo\nthree\n', 'utf-8');
+
+    const result = await fileOps.applyPatch({
+      patch: patchOf('--- a/src/a.ts', '+++ b/src/a.ts', '@@ -2,2 +2,2 @@', '-two', '+TWO', ' three')
+    });
+
+    expect(result.files[0].hunks[0]).toEqual({ index: 0, applied: true, offset: 1 });
+    expect(await fs.readFile(path.join(testDir, 'src', 'a.ts'), 'utf-8')).toBe(
+      'zero\none\nTWO\nthree\n'
+    );
+  });
+
+  it('ブロックされたパスを含むパッチはセキュリティエラーをスローする', async () => {
+    await expect(
+      fileOps.applyPatch({
+        patch: patchOf('--- /dev/null', '+++ b/secrets/key.txt', '@@ -0,0 +1 @@', '+secret')
+      })
+    ).rejects.toThrow('Security error');
+    await expect(fs.access(path.join(testDir, 'secrets'))).rejects.toThrow();
+  });
+
+  it('ファイルの変更を含まないパッチはエラーをスローする', async () => {
+    await expect(fileOps.applyPatch({ patch: 'not a diff' })).rejects.toThrow(
+      'No file changes found in patch'
+    );
+  });
+});
+
+describe('FileOperationsTool - ファイル管理', () => {
+  let fileOps: FileOperationsTool;
+  let testDir: string;
+
+  const exists = async (relativePath: string) =>
+    fs.access(path.join(testDir, relativePath)).then(
+      () => true,
+      () => false
+    );
+
+  beforeEach(async () => {
+    testDir = path.join(process.cwd(), 'test-workspace');
+    await fs.mkdir(path.join(testDir, 'src', 'nested'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'src', 'a.ts'), 'a', 'utf-8');
+    await fs.writeFile(path.join(testDir, 'src', 'nested', 'b.ts'), 'b', 'utf-8');
+
+    const securityValidator = new SecurityValidator({
+      projectRoot: testDir,
+      blockedPatterns: ['**/.git/**'],
+      enforceProjectRoot: true
+    });
+
+    fileOps = new FileOperationsTool(securityValidator, testDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('delete_path', () => {
+    it('ファイルを削除する', async () => {
+      const result = await fileOps.deletePath({ path: 'src/a.ts' });
+
+      expect(result).toEqual({ success: true, path: path.join(testDir, 'src', 'a.ts'), type: 'file' });
+      expect(await exists('src/a.ts')).toBe(false);
+    });
+
+    it('空でないディレクトリはrecursiveを指定しないと削除できない', async () => {
+      await expect(fileOps.deletePath({ path: 'src' })).rejects.toThrow(
+        'Directory is not empty (set recursive to delete): src'
+      );
+
+      await fileOps.deletePath({ path: 'src', recursive: true });
+      expect(await exists('src')).toBe(false);
+    });
+
+    it('trash: true の場合はゴミ箱ディレクトリへ移動する', async () => {
+      const result = await fileOps.deletePath({ path: 'src/nested', recursive: true, trash: true });
+
+      expect(await exists('src/nested')).toBe(false);
+      expect(result.trashPath).toContain(path.join(testDir, '.cursorcli-mcp', 'trash'));
+      expect(await fs.readFile(path.join(result.trashPath!, 'b.ts'), 'utf-8')).toBe('b');
+    });
+
+    it('ブロックされたパスを含むディレクトリは削除できない', async () => {
+      await fs.mkdir(path.join(testDir, 'src', '.git'), { recursive: true });
+      await fs.writeFile(path.join(testDir, 'src', '.git', 'HEAD'), 'ref', 'utf-8');
+
+      await expect(fileOps.deletePath({ path: 'src', recursive: true })).rejects.toThrow(
+        'Security error'
+      );
+      expect(await exists('src/.git/HEAD')).toBe(true);
+    });
+
+    it('プロジェクトルート自体は削除できない', async () => {
+      await expect(fileOps.deletePath({ path: '.', recursive: true })).rejects.toThrow(
+        'Cannot delete the project root'
+      );
+    });
+
+    it('存在しないパスはエラーをスローする', async () => {
+      await expect(fileOps.deletePath({ path: 'missing.ts' })).rejects.toThrow(
+        'Path not found: missing.ts'
+      );
+    });
+  });
+
+  describe('move_path', () => {
+    it('ファイルの名前を変更する', async () => {
+      const result = await fileOps.movePath({ source: 'src/a.ts', destination: 'src/c.ts' });
+
+      expect(result.overwritten).toBe(false);
+      expect(await exists('src/a.ts')).toBe(false);
+      expect(await fs.readFile(path.join(testDir, 'src', 'c.ts'), 'utf-8')).toBe('a');
+    });
+
+    it('移動先が存在する場合はoverwriteを指定しないとエラーをスローする', async () => {
+      await expect(
+        fileOps.movePath({ source: 'src/a.ts', destination: 'src/nested/b.ts' })
+      ).rejects.toThrow('Destination already exists: src/nested/b.ts');
+
+      const result = await fileOps.movePath({
+        source: 'src/a.ts',
+        destination: 'src/nested/b.ts',
+        overwrite: true
+      });
+      expect(result.overwritten).toBe(true);
+      expect(await fs.readFile(path.join(testDir, 'src', 'nested', 'b.ts'), 'utf-8')).toBe('a');
+    });
+
+    it('createDirectoriesで移動先の親ディレクトリを作成する', async () => {
+      await expect(
+        fileOps.movePath({ source: 'src/a.ts', destination: 'lib/a.ts' })
+      ).rejects.toThrow('Parent directory does not exist: lib');
+
+      await fileOps.movePath({ source: 'src/a.ts', destination: 'lib/a.ts', createDirectories: true });
+      expect(await exists('lib/a.ts')).toBe(true);
+    });
+
+    it('ディレクトリを自身の配下へは移動できない', async () => {
+      await expect(
+        fileOps.movePath({ source: 'src', destination: 'src/nested/src' })
+      ).rejects.toThrow('Cannot move or copy a directory into itself');
+    });
+
+    it('移動先がプロジェクトルート外の場合はセキュリティエラーをスローする', async () => {
+      await expect(
+        fileOps.movePath({ source: 'src/a.ts', destination: '../outside.ts' })
+      ).rejects.toThrow('Security error');
+      expect(await exists('src/a.ts')).toBe(true);
+    });
+  });
+
+  describe('copy_path', () => {
+    it('ファイルをコピーする', async () => {
+      const result = await fileOps.copyPath({ source: 'src/a.ts', destination: 'src/copy.ts' });
+
+      expect(result.type).toBe('file');
+      expect(await fs.readFile(path.join(testDir, 'src', 'copy.ts'), 'utf-8')).toBe('a');
+      expect(await exists('src/a.ts')).toBe(true);
+    });
+
+    it('ディレクトリはrecursiveを指定した場合のみコピーする', async () => {
+      await expect(fileOps.copyPath({ source: 'src', destination: 'template' })).rejects.toThrow(
+        'Source is a directory (set recursive to copy): src'
+      );
+
+      const result = await fileOps.copyPath({
+        source: 'src',
+        destination: 'template',
+        recursive: true
+      });
+      expect(result.type).toBe('directory');
+      expect(await fs.readFile(path.join(testDir, 'template', 'nested', 'b.ts'), 'utf-8')).toBe(
+        'b'
+      );
+    });
+
+    it('コピー先が存在する場合はoverwriteを指定した場合のみ置き換える', async () => {
+      await expect(
+        fileOps.copyPath({ source: 'src/a.ts', destination: 'src/nested/b.ts' })
+      ).rejects.toThrow('Destination already exists');
+
+      await fileOps.copyPath({ source: 'src/a.ts', destination: 'src/nested/b.ts', overwrite: true });
+      expect(await fs.readFile(path.join(testDir, 'src', 'nested', 'b.ts'), 'utf-8')).toBe('a');
+    });
+  });
+
+  describe('create_directory', () => {
+    it('親ディレクトリを含めてディレクトリを作成する', async () => {
+      const result = await fileOps.createDirectory({ path: 'a/b/c' });
+
+      expect(result.created).toBe(true);
+      expect((await fs.stat(path.join(testDir, 'a', 'b', 'c'))).isDirectory()).toBe(true);
+    });
+
+    it('既に存在するディレクトリの場合はcreated: falseを返す', async () => {
+      const result = await fileOps.createDirectory({ path: 'src' });
+
+      expect(result.created).toBe(false);
+    });
+
+    it('recursive: false で親ディレクトリが存在しない場合はエラーをスローする', async () => {
+      await expect(fileOps.createDirectory({ path: 'x/y', recursive: false })).rejects.toThrow(
+        'Parent directory does not exist: x'
+      );
+    });
+
+    it('ファイルが存在するパスにはディレクトリを作成できない', async () => {
+      await expect(fileOps.createDirectory({ path: 'src/a.ts' })).rejects.toThrow(
+        'Path exists and is not a directory: src/a.ts'
+      );
+    });
   });
 });
@@ -0,0 +1,152 @@
+/**
+ * Ignore Rules のユニットテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { IgnoreRules } from '../../src/tools/ignore-rules';
+
+describe('IgnoreRules', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = path.join(process.cwd(), 'test-ignore-rules');
+    await fs.mkdir(path.join(root, 'packages', 'app'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('無視ファイルがない場合は何も無視しない', async () => {
+    const rules = new IgnoreRules(root);
+
+    expect(await rules.isIgnored(path.join(root, 'index.ts'), false)).toBe(false);
+  });
+
+  it('ルートの .gitignore を適用する', async () => {
+    await fs.writeFile(path.join(root, '.gitignore'), 'dist/\n*.log\n');
+    const rules = new IgnoreRules(root);
+
+    expect(await rules.isIgnored(path.join(root, 'dist'), true)).toBe(true);
+    expect(await rules.isIgnored(path.join(root, 'packages', 'app', 'debug.log'), false)).toBe(
+      true
+    );
+    expect(await rules.isIgnored(path.join(root, 'index.ts'), false)).toBe(false);
+  });
+
+  it('ネストした .gitignore をそのディレクトリからの相対パスで適用する', async () => {
+    await fs.writeFile(path.join(root, 'packages', 'app', '.gitignore'), '/coverage\n');
+    const rules = new IgnoreRules(root);
+
+    expect(await rules.isIgnored(path.join(root, 'packages', 'app', 'coverage'), true)).toBe(true);
+    expect(await rules.isIgnored(path.join(root, 'coverage'), true)).toBe(false);
+  });
+
+  it('深い階層の否定パターンで再包含できる', async () => {
+    await fs.writeFile(path.join(root, '.gitignore'), '*.generated.ts\n');
+    await fs.writeFile(path.join(root, 'packages', 'app', '.gitignore'), '!api.generated.ts\n');
+    const rules = new IgnoreRules(root);
+
+    expect(await rules.isIgnored(path.join(root, 'packages', 'app', 'api.generated.ts'), false)).toBe(
+      false
+    );
+    expect(await rules.isIgnored(path.join(root, 'packages', 'app', 'db.generated.ts'), false)).toBe(
+      true
+    );
+  });
+
+  it('.git/info/exclude と .cursorignore を適用する', async () => {
+    await fs.mkdir(path.join(root, '.git', 'info'), { recursive: true });
+    await fs.writeFile(path.join(root, '.git', 'info', 'exclude'), 'scratch/\n');
+    await fs.writeFile(path.join(root, '.cursorignore'), 'fixtures/\n');
+    const rules = new IgnoreRules(root);
+
+    expect(await rules.isIgnored(path.join(root, 'scratch'), true)).toBe(true);
+    expect(await rules.isIgnored(path.join(root, 'fixtures'), true)).toBe(true);
+  });
+
+  it('.gitignore の否定パターンは .git/info/exclude より優先される', async () => {
+    await fs.mkdir(path.join(root, '.git', 'info'), { recursive: true });
+    await fs.writeFile(path.join(root, '.git', 'info', 'exclude'), '*.local\n');
+    await fs.writeFile(path.join(root, '.gitignore'), '!shared.local\n');
+    const rules = new IgnoreRules(root);
+
+    expect(await rules.isIgnored(path.join(root, 'shared.local'), false)).toBe(false);
+    expect(await rules.isIgnored(path.join(root, 'mine.local'), false)).toBe(true);
+  });
+
+  it('ルート自身とルート外のパスは無視しない', async () => {
+    await fs.writeFile(path.join(root, '.gitignore'), '*\n');
+    const rules = new IgnoreRules(root);
+
+    expect(await rules.isIgnored(root, true)).toBe(false);
+    expect(await rules.isIgnored(path.join(root, '..', 'outside.ts'), false)).toBe(false);
+  });
+
+  describe('git のグローバルな除外ファイル', () => {
+    const originalEnv = { HOME: process.env.HOME, XDG_CONFIG_HOME: process.env.XDG_CONFIG_HOME };
+    let home: string;
+    let configHome: string;
+
+    beforeEach(async () => {
+      home = path.join(root, 'home');
+      configHome = path.join(home, 'xdg');
+      await fs.mkdir(path.join(configHome, 'git'), { recursive: true });
+      process.env.HOME = home;
+      process.env.XDG_CONFIG_HOME = configHome;
+    });
+
+    afterEach(() => {
+      for (const [key, value] of Object.entries(originalEnv)) {
+        if (value === undefined) {
+          delete process.env[key];
+        } else {
+          process.env[key] = value;
+        }
+      }
+    });
+
+    it('core.excludesFile が未設定の場合は $XDG_CONFIG_HOME/git/ignore を適用する', async () => {
+      await fs.writeFile(path.join(configHome, 'git', 'ignore'), '*.swp\n');
+      const rules = new IgnoreRules(root);
+
+      expect(await rules.isIgnored(path.join(root, 'packages', 'app', 'index.ts.swp'), false)).toBe(
+        true
+      );
+      expect(await rules.isIgnored(path.join(root, 'index.ts'), false)).toBe(false);
+    });
+
+    it('~/.gitconfig の core.excludesFile を適用する', async () => {
+      await fs.writeFile(path.join(configHome, 'git', 'ignore'), '*.swp\n');
+      await fs.writeFile(
+        path.join(home, '.gitconfig'),
+        '[user]\n\tname = test\n[core]\n\texcludesFile = ~/global-ignore\n'
+      );
+      await fs.writeFile(path.join(home, 'global-ignore'), '.idea/\n');
+      const rules = new IgnoreRules(root);
+
+      expect(await rules.isIgnored(path.join(root, '.idea'), true)).toBe(true);
+      expect(await rules.isIgnored(path.join(root, 'index.ts.swp'), false)).toBe(false);
+    });
+
+    it('リポジトリの .git/config の core.excludesFile を優先し、.gitignore で再包含できる', async () => {
+      await fs.mkdir(path.join(root, '.git'), { recursive: true });
+      await fs.writeFile(
+        path.join(root, '.git', 'config'),
+        '[core]\n\texcludesfile = "local-ignore"\n'
+      );
+      await fs.writeFile(path.join(root, 'local-ignore'), '*.tmp\n');
+      await fs.writeFile(
+        path.join(home, '.gitconfig'),
+        '[core]\n\texcludesFile = ~/global-ignore\n'
+      );
+      await fs.writeFile(path.join(root, '.gitignore'), '!keep.tmp\n');
+      const rules = new IgnoreRules(root);
+
+      expect(await rules.isIgnored(path.join(root, 'cache.tmp'), false)).toBe(true);
+      expect(await rules.isIgnored(path.join(root, 'keep.tmp'), false)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * JSON-RPC Router のユニットテスト
+ *
+ * Requirements:
+ * - 1.5: JSON-RPC 2.0形式のメッセージ送受信を維持
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { JSONRPCRouter, JSONRPCError } from '../../src/protocol/router';
+import { JSONRPCResponseError } from '../../src/protocol/handler';
+import { CancelledError, ValidationError } from '../../src/errors';
+import type { JSONRPCMessage } from '../../src/protocol/types';
+
+describe('JSONRPCRouter', () => {
+  let router: JSONRPCRouter;
+  let sent: Array<JSONRPCMessage | JSONRPCMessage[]>;
+
+  beforeEach(() => {
+    sent = [];
+    router = new JSONRPCRouter(async (message) => {
+      sent.push(message);
+    });
+
+    router.onRequest('echo', async (params) => params);
+  });
+
+  describe('リクエスト', () => {
+    it('登録されたメソッドの結果をidと共に返却する', async () => {
+      await router.handleMessage({ jsonrpc: '2.0', id: 1, method: 'echo', params: { a: 1 } });
+
+      expect(sent).toEqual([{ jsonrpc: '2.0', id: 1, result: { a: 1 } }]);
+    });
+
+    it('文字列のidも保持して返却する', async () => {
+      await router.handleMessage({ jsonrpc: '2.0', id: 'abc', method: 'echo', params: [] });
+
+      expect(sent).toEqual([{ jsonrpc: '2.0', id: 'abc', result: [] }]);
+    });
+
+    it('未知のメソッドにはMETHOD_NOT_FOUNDを返却する', async () => {
+      await router.handleMessage({ jsonrpc: '2.0', id: 2, method: 'unknown' });
+
+      const response = sent[0] as JSONRPCMessage;
+      expect(response.id).toBe(2);
+      expect(response.error?.code).toBe(-32601);
+    });
+
+    it('jsonrpcバージョンが不正な場合はINVALID_REQUESTを返却する', async () => {
+      await router.handleMessage({ jsonrpc: '1.0', id: 3, method: 'echo' });
+
+      const response = sent[0] as JSONRPCMessage;
+      expect(response.id).toBe(3);
+      expect(response.error?.code).toBe(-32600);
+    });
+
+    it('オブジェクト以外のメッセージにはid=nullのINVALID_REQUESTを返却する', async () => {
+      await router.handleMessage(42);
+
+      const response = sent[0] as JSONRPCMessage;
+      expect(response.id).toBeNull();
+      expect(response.error?.code).toBe(-32600);
+    });
+
+    it('paramsがプリミティブの場合はINVALID_REQUESTを返却する', async () => {
+      await router.handleMessage({ jsonrpc: '2.0', id: 4, method: 'echo', params: 'x' });
+
+      expect((sent[0] as JSONRPCMessage).error?.code).toBe(-32600);
+    });
+
+    it('MCPErrorはErrorHandlerでJSON-RPCエラーに変換される', async () => {
+      router.onRequest('validate', async () => {
+        throw new ValidationError('bad value', 'value');
+      });
+
+      await router.handleMessage({ jsonrpc: '2.0', id: 5, method: 'validate' });
+
+      const response = sent[0] as JSONRPCMessage;
+      expect(response.error?.code).toBe(-32602);
+      expect(response.error?.message).toBe('bad value');
+    });
+
+    it('JSONRPCResponseErrorはレスポンスをそのまま返却する', async () => {
+      router.onRequest('fail', async () => {
+        throw new JSONRPCResponseError({
+          jsonrpc: '2.0',
+          id: 6,
+          error: { code: -32000, message: 'custom' }
+        });
+      });
+
+      await router.handleMessage({ jsonrpc: '2.0', id: 6, method: 'fail' });
+
+      expect(sent[0]).toEqual({ jsonrpc: '2.0', id: 6, error: { code: -32000, message: 'custom' } });
+    });
+
+    it('処理中のidと重複するリクエストは拒否される', async () => {
+      let release: () => void = () => {};
+      router.onRequest('slow', () => new Promise((resolve) => {
+        release = () => resolve('done');
+      }));
+
+      const first = router.handleMessage({ jsonrpc: '2.0', id: 7, method: 'slow' });
+      await router.handleMessage({ jsonrpc: '2.0', id: 7, method: 'slow' });
+
+      expect((sent[0] as JSONRPCMessage).error?.message).toContain('Duplicate request id');
+
+      release();
+      await first;
+      expect(sent[1]).toEqual({ jsonrpc: '2.0', id: 7, result: 'done' });
+    });
+  });
+
+  describe('キャンセル', () => {
+    it('キャンセルされたリクエストにはレスポンスを返却しない', async () => {
+      let received: AbortSignal | undefined;
+      router.onRequest('slow', (_params, { signal }) => {
+        received = signal;
+        return new Promise((_resolve, reject) => {
+          signal.addEventListener('abort', () => reject(signal.reason));
+        });
+      });
+
+      const pending = router.handleMessage({ jsonrpc: '2.0', id: 8, method: 'slow' });
+      expect(router.cancel(8, 'user request')).toBe(true);
+      await pending;
+
+      expect(sent).toHaveLength(0);
+      expect(received?.reason).toBeInstanceOf(CancelledError);
+      expect((received?.reason as CancelledError).reason).toBe('user request');
+      expect(router.getActiveRequestCount()).toBe(0);
+    });
+
+    it('処理中でないidのキャンセルはfalseを返す', () => {
+      expect(router.cancel(999)).toBe(false);
+    });
+  });
+
+  describe('通知', () => {
+    it('通知にはレスポンスを返却しない', async () => {
+      const received: unknown[] = [];
+      router.onNotification('notifications/initialized', (params) => {
+        received.push(params);
+      });
+
+      await router.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+      expect(received).toHaveLength(1);
+      expect(sent).toHaveLength(0);
+    });
+
+    it('未登録の通知は無視される', async () => {
+      await router.handleMessage({ jsonrpc: '2.0', method: 'notifications/unknown' });
+
+      expect(sent).toHaveLength(0);
+    });
+
+    it('通知ハンドラーのエラーはレスポンスにならない', async () => {
+      router.onNotification('notifications/cancelled', () => {
+        throw new Error('boom');
+      });
+
+      await router.handleMessage({ jsonrpc: '2.0', method: 'notifications/cancelled' });
+
+      expect(sent).toHaveLength(0);
+    });
+  });
+
+  describe('バッチ', () => {
+    it('バッチの各リクエストに対するレスポンスを配列で返却する', async () => {
+      await router.handleBatch([
+        { jsonrpc: '2.0', id: 1, method: 'echo', params: { n: 1 } },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 2, method: 'unknown' }
+      ]);
+
+      expect(sent).toHaveLength(1);
+      const responses = sent[0] as JSONRPCMessage[];
+      expect(responses).toHaveLength(2);
+      expect(responses[0]).toEqual({ jsonrpc: '2.0', id: 1, result: { n: 1 } });
+      expect(responses[1].error?.code).toBe(-32601);
+    });
+
+    it('空のバッチには単一のINVALID_REQUESTを返却する', async () => {
+      await router.handleBatch([]);
+
+      expect(Array.isArray(sent[0])).toBe(false);
+      expect((sent[0] as JSONRPCMessage).error?.code).toBe(-32600);
+    });
+
+    it('通知のみのバッチには何も返却しない', async () => {
+      await router.handleBatch([{ jsonrpc: '2.0', method: 'notifications/initialized' }]);
+
+      expect(sent).toHaveLength(0);
+    });
+  });
+
+  describe('送信リクエストとレスポンスの対応付け', () => {
+    it('受信したレスポンスをidで送信済みリクエストに対応付ける', async () => {
+      const pending = router.request('roots/list');
+      const request = sent[0] as JSONRPCMessage;
+
+      await router.handleMessage({ jsonrpc: '2.0', id: request.id, result: { roots: [] } });
+
+      await expect(pending).resolves.toEqual({ roots: [] });
+    });
+
+    it('エラーレスポンスはJSONRPCErrorとして拒否される', async () => {
+      const pending = router.request('roots/list');
+      const request = sent[0] as JSONRPCMessage;
+
+      await router.handleMessage({
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32601, message: 'Method not found' }
+      });
+
+      await expect(pending).rejects.toBeInstanceOf(JSONRPCError);
+    });
+
+    it('未知のidのレスポンスは無視される', async () => {
+      await router.handleMessage({ jsonrpc: '2.0', id: 999, result: {} });
+
+      expect(sent).toHaveLength(0);
+    });
+
+    it('通知をidなしで送信する', async () => {
+      await router.notify('notifications/tools/list_changed');
+
+      expect(sent).toEqual([{ jsonrpc: '2.0', method: 'notifications/tools/list_changed' }]);
+    });
+
+    it('切断時に未応答のリクエストを拒否する', async () => {
+      const pending = router.request('roots/list');
+
+      router.rejectPendingRequests(new Error('closed'));
+
+      await expect(pending).rejects.toThrow('closed');
+    });
+  });
+});
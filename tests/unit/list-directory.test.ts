@@ -179,6 +179,49 @@ describe('FileOperationsTool - list_directory', () => {
     });
   });
 
+  describe('無視ルール', () => {
+    it('.gitignore / .cursorignore 対象のエントリを除外する', async () => {
+      await fs.mkdir(path.join(testDir, 'src', 'coverage'), { recursive: true });
+      await fs.writeFile(path.join(testDir, '.cursorignore'), 'secret.txt\n');
+      await fs.writeFile(path.join(testDir, 'src', '.gitignore'), 'coverage/\n');
+      await fs.writeFile(path.join(testDir, 'src', 'coverage', 'index.html'), '');
+      await fs.writeFile(path.join(testDir, 'src', 'main.ts'), '');
+      await fs.writeFile(path.join(testDir, 'secret.txt'), '');
+
+      const result = await fileOps.listDirectory({
+        path: '.',
+        recursive: true
+      });
+
+      expect(result.entries.map(e => e.name)).toEqual(['src', 'main.ts']);
+    });
+
+    it('サブディレクトリの一覧にも上位の無視ルールを適用する', async () => {
+      await fs.mkdir(path.join(testDir, 'src'));
+      await fs.writeFile(path.join(testDir, '.gitignore'), '*.log\n');
+      await fs.writeFile(path.join(testDir, 'src', 'main.ts'), '');
+      await fs.writeFile(path.join(testDir, 'src', 'debug.log'), '');
+
+      const result = await fileOps.listDirectory({
+        path: 'src'
+      });
+
+      expect(result.entries.map(e => e.name)).toEqual(['main.ts']);
+    });
+
+    it('includeIgnored=trueの場合は無視ルールを適用しない', async () => {
+      await fs.writeFile(path.join(testDir, '.gitignore'), '*.log\n');
+      await fs.writeFile(path.join(testDir, 'debug.log'), '');
+
+      const result = await fileOps.listDirectory({
+        path: '.',
+        includeIgnored: true
+      });
+
+      expect(result.entries.some(e => e.name === 'debug.log')).toBe(true);
+    });
+  });
+
   describe('globパターンフィルタリング', () => {
     beforeEach(async () => {
       await fs.writeFile(path.join(testDir, 'file1.txt'), 'content1');
@@ -264,6 +307,39 @@ describe('FileOperationsTool - list_directory', () => {
     });
   });
 
+  describe('許可ディレクトリ', () => {
+    beforeEach(async () => {
+      await fs.mkdir(path.join(testDir, 'packages', 'app-web'), { recursive: true });
+      await fs.mkdir(path.join(testDir, 'infra'), { recursive: true });
+      await fs.writeFile(path.join(testDir, 'packages', 'app-web', 'index.ts'), '');
+      await fs.writeFile(path.join(testDir, 'root.ts'), '');
+
+      securityValidator = new SecurityValidator({
+        projectRoot: testDir,
+        blockedPatterns: [],
+        enforceProjectRoot: true,
+        allowedDirectories: ['packages/app-*']
+      });
+      fileOps = new FileOperationsTool(securityValidator, testDir);
+    });
+
+    it('許可ディレクトリの祖先では許可ディレクトリへ至るエントリのみを返却する', async () => {
+      const result = await fileOps.listDirectory({ path: '.', recursive: true });
+
+      expect(result.entries.map((e) => path.relative(testDir, e.path)).sort()).toEqual([
+        'packages',
+        path.join('packages', 'app-web'),
+        path.join('packages', 'app-web', 'index.ts')
+      ]);
+    });
+
+    it('許可ディレクトリ外のディレクトリは一覧取得を拒否する', async () => {
+      await expect(fileOps.listDirectory({ path: 'infra' })).rejects.toThrow(
+        'not in an allowed directory'
+      );
+    });
+  });
+
   describe('エラーハンドリング', () => {
     it('存在しないディレクトリを指定するとエラーをスローする', async () => {
       await expect(
@@ -299,6 +375,82 @@ describe('FileOperationsTool - list_directory', () => {
     });
   });
 
+  describe('ページネーション', () => {
+    beforeEach(async () => {
+      await fs.mkdir(path.join(testDir, 'b'));
+      await fs.writeFile(path.join(testDir, 'a.txt'), 'a');
+      await fs.writeFile(path.join(testDir, 'b', 'b1.txt'), 'b1');
+      await fs.writeFile(path.join(testDir, 'b', 'b2.txt'), 'b2');
+      await fs.writeFile(path.join(testDir, 'c.txt'), 'c');
+    });
+
+    it('エントリを名前順に返す', async () => {
+      const result = await fileOps.listDirectory({
+        path: '.',
+        recursive: true
+      });
+
+      expect(result.entries.map(e => e.name)).toEqual(['a.txt', 'b', 'b1.txt', 'b2.txt', 'c.txt']);
+      expect(result.nextCursor).toBeUndefined();
+    });
+
+    it('pageSize を超える場合は nextCursor で続きを取得できる', async () => {
+      const names: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+
+      do {
+        const result = await fileOps.listDirectory({
+          path: '.',
+          recursive: true,
+          pageSize: 2,
+          cursor
+        });
+        names.push(...result.entries.map(e => e.name));
+        expect(result.totalCount).toBe(result.entries.length);
+        expect(result.returnedCount).toBe(result.entries.length);
+        cursor = result.nextCursor;
+        pages++;
+      } while (cursor);
+
+      expect(pages).toBe(3);
+      expect(names).toEqual(['a.txt', 'b', 'b1.txt', 'b2.txt', 'c.txt']);
+    });
+
+    it('ページ境界がディレクトリの場合も配下のエントリから再開する', async () => {
+      const first = await fileOps.listDirectory({
+        path: '.',
+        recursive: true,
+        pageSize: 2
+      });
+      const second = await fileOps.listDirectory({
+        path: '.',
+        recursive: true,
+        pageSize: 2,
+        cursor: first.nextCursor
+      });
+
+      expect(first.entries.map(e => e.name)).toEqual(['a.txt', 'b']);
+      expect(second.entries.map(e => e.name)).toEqual(['b1.txt', 'b2.txt']);
+    });
+
+    it('異なる条件で発行されたカーソルは拒否する', async () => {
+      const first = await fileOps.listDirectory({
+        path: '.',
+        pageSize: 1
+      });
+
+      await expect(
+        fileOps.listDirectory({
+          path: '.',
+          recursive: true,
+          pageSize: 1,
+          cursor: first.nextCursor
+        })
+      ).rejects.toThrow('Cursor was issued for a different query');
+    });
+  });
+
   describe('エッジケース', () => {
     it('シンボリックリンクのタイプを正しく判定する', async () => {
       const targetFile = path.join(testDir, 'target.txt');
@@ -0,0 +1,135 @@
+/**
+ * MCPクライアントへのログの転送（notifications/message）のユニットテスト
+ *
+ * LoggingSystem.connectMcp で追加する McpLogTransport のレベルによる絞り込み、
+ * サブシステム名の付与、転送数の制限を確認する
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { LoggingSystem } from '../../src/logging/logger.js';
+import { McpLogTransport, toLogLevel } from '../../src/logging/mcp-transport.js';
+import type { LoggingMessageParams } from '../../src/protocol/types.js';
+
+/**
+ * Winston のトランスポートへの書き込みを待つ
+ */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('MCPクライアントへのログの転送', () => {
+  let loggingSystem: LoggingSystem;
+  let messages: LoggingMessageParams[];
+
+  beforeEach(() => {
+    loggingSystem = new LoggingSystem({ level: 'info', outputs: [] });
+    messages = [];
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await loggingSystem.shutdown();
+  });
+
+  it('設定のログレベル以上のログをMCPのログレベルに変換して転送する', async () => {
+    loggingSystem.connectMcp((params) => messages.push(params));
+
+    loggingSystem.debug('Debug message');
+    loggingSystem.info('Info message', { requestId: 1 });
+    loggingSystem.warn('Warn message');
+    await flush();
+
+    expect(messages).toEqual([
+      {
+        level: 'info',
+        data: expect.objectContaining({ message: 'Info message', requestId: 1 })
+      },
+      { level: 'warning', data: expect.objectContaining({ message: 'Warn message' }) }
+    ]);
+  });
+
+  it('サブシステムのロガーで記録したログは logger にサブシステム名を設定する', async () => {
+    loggingSystem.connectMcp((params) => messages.push(params));
+
+    loggingSystem.child('protocol').error('Failed', new Error('boom'));
+    await flush();
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ level: 'error', logger: 'protocol' });
+    expect(messages[0].data).toMatchObject({ message: 'Failed', error: { message: 'boom' } });
+    expect(messages[0].data).not.toHaveProperty('logger');
+  });
+
+  it('localOnly を指定したログは転送しない', async () => {
+    loggingSystem.connectMcp((params) => messages.push(params));
+
+    loggingSystem
+      .child('protocol')
+      .error('Failed to send message', new Error('closed'), { localOnly: true });
+    loggingSystem.error('Other failure');
+    await flush();
+
+    expect(messages.map((message) => (message.data as { message: string }).message)).toEqual([
+      'Other failure'
+    ]);
+  });
+
+  it('setMcpLevel で転送するレベルを変更しても他の出力先のレベルは変わらない', async () => {
+    loggingSystem.connectMcp((params) => messages.push(params));
+
+    loggingSystem.setMcpLevel('debug');
+    loggingSystem.debug('Debug message');
+    loggingSystem.setMcpLevel('error');
+    loggingSystem.warn('Warn message');
+    loggingSystem.error('Error message');
+    await flush();
+
+    expect(messages.map((message) => message.level)).toEqual(['debug', 'error']);
+    expect((loggingSystem as any).config.level).toBe('info');
+    expect((loggingSystem as any).logger.level).toBe('info');
+  });
+
+  it('再接続すると転送先を置き換え、disconnectMcp でトランスポートを取り除く', async () => {
+    const replaced: LoggingMessageParams[] = [];
+    loggingSystem.connectMcp((params) => replaced.push(params));
+    loggingSystem.connectMcp((params) => messages.push(params));
+
+    loggingSystem.error('Error message');
+    await flush();
+    loggingSystem.disconnectMcp();
+
+    expect(replaced).toEqual([]);
+    expect(messages).toHaveLength(1);
+    expect((loggingSystem as any).logger.transports).toHaveLength(0);
+  });
+
+  it('1秒あたりの上限を超えたログは破棄し、次の期間に破棄した件数を通知する', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(10_000);
+    const transport = new McpLogTransport((params) => messages.push(params), {
+      level: 'info',
+      maxMessagesPerSecond: 2
+    });
+    const write = (message: string) =>
+      transport.transport.log?.({ level: 'info', message }, () => undefined);
+
+    write('first');
+    write('second');
+    write('third');
+    write('fourth');
+    now.mockReturnValue(11_000);
+    write('fifth');
+
+    expect(messages.map((message) => message.data)).toEqual([
+      expect.objectContaining({ message: 'first' }),
+      expect.objectContaining({ message: 'second' }),
+      { message: 'Log messages dropped by rate limit', dropped: 2 },
+      expect.objectContaining({ message: 'fifth' })
+    ]);
+    expect(messages[2]).toMatchObject({ level: 'warning', logger: 'logging' });
+  });
+
+  it('MCPのログレベルを記録に必要なサーバーのログレベルに変換する', () => {
+    expect(toLogLevel('debug')).toBe('debug');
+    expect(toLogLevel('notice')).toBe('warn');
+    expect(toLogLevel('warning')).toBe('warn');
+    expect(toLogLevel('emergency')).toBe('error');
+  });
+});
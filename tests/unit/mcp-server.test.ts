@@ -0,0 +1,519 @@
+/**
+ * MCP Server のユニットテスト
+ *
+ * Requirements:
+ * - 1.1: MCPクライアントがサーバーに接続要求を送信した際、MCP仕様に準拠したハンドシェイクを実行
+ * - 1.4: MCPクライアントが利用可能なツール一覧をリクエストした際、全ての公開ツール定義を返却
+ * - 1.5: JSON-RPC 2.0形式のメッセージ送受信を維持
+ * - 9.2: stdioトランスポート方式で通信を確立
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Readable, Writable } from 'stream';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { McpServer } from '../../src/server';
+import type { JSONRPCMessage } from '../../src/protocol/types';
+
+describe('McpServer', () => {
+  let testDir: string;
+  let mockStdin: Readable;
+  let mockStdout: Writable;
+  let outputData: string[];
+  let server: McpServer;
+
+  /**
+   * リクエストを送信し、対応するidのレスポンスを待つ
+   */
+  const request = async (message: JSONRPCMessage): Promise<JSONRPCMessage> => {
+    mockStdin.push(JSON.stringify(message) + '\n');
+
+    for (let i = 0; i < 100; i++) {
+      const responses = outputData.map((line) => JSON.parse(line) as JSONRPCMessage);
+      const response = responses.find((r) => r.id === message.id);
+      if (response) {
+        return response;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    throw new Error(`No response for request ${String(message.id)}`);
+  };
+
+  const initialize = () =>
+    request({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2024-11-05',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' }
+      }
+    });
+
+  beforeEach(async () => {
+    testDir = path.join(process.cwd(), 'test-workspace-server');
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'hello.txt'), 'Hello, MCP!', 'utf-8');
+
+    mockStdin = new Readable({
+      read() {}
+    });
+
+    outputData = [];
+    mockStdout = new Writable({
+      write(chunk: any, _encoding: any, callback: any) {
+        outputData.push(chunk.toString().trim());
+        callback();
+      }
+    });
+
+    server = new McpServer({
+      projectRoot: testDir,
+      stdin: mockStdin,
+      stdout: mockStdout
+    });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('起動', () => {
+    it('設定ファイルを読み込み、デフォルト設定を生成する', async () => {
+      const configPath = path.join(testDir, '.cursorcli-mcp', 'config.json');
+      await expect(fs.access(configPath)).resolves.toBeUndefined();
+      expect(server.getConfig()?.server.name).toBe('cursorcli-mcp-server');
+    });
+
+    it('全てのツールを登録する', () => {
+      const registry = server.getRegistry();
+
+      expect(registry.has('read_file')).toBe(true);
+      expect(registry.has('get_project_info')).toBe(true);
+      expect(registry.has('open_file_in_editor')).toBe(true);
+      expect(registry.has('get_current_model')).toBe(true);
+      expect(registry.has('get_server_stats')).toBe(true);
+    });
+
+    it('二重に起動しようとするとエラーをスローする', async () => {
+      await expect(server.start()).rejects.toThrow('Server already started');
+    });
+  });
+
+  describe('JSON-RPCディスパッチ', () => {
+    it('initializeにサーバー情報を返却する', async () => {
+      const response = await initialize();
+
+      expect(response.error).toBeUndefined();
+      expect(response.result).toEqual({
+        protocolVersion: '2024-11-05',
+        capabilities: {
+          tools: { listChanged: true },
+          logging: {},
+          resources: { subscribe: true },
+          prompts: {}
+        },
+        serverInfo: { name: 'cursorcli-mcp-server', version: '1.0.0' }
+      });
+    });
+
+    it('tools/listで登録済みツールの一覧を返却する', async () => {
+      await initialize();
+      const response = await request({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+      const tools = (response.result as { tools: Array<{ name: string }> }).tools;
+      expect(tools.map((t) => t.name)).toContain('read_file');
+      expect(tools.map((t) => t.name)).toContain('search_files');
+    });
+
+    it('tools/callでツールを実行する', async () => {
+      await initialize();
+      const response = await request({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: { name: 'read_file', arguments: { path: 'hello.txt' } }
+      });
+
+      const result = response.result as { content: Array<{ type: string; text: string }> };
+      expect(result.content[0].type).toBe('text');
+      expect(JSON.parse(result.content[0].text).content).toBe('Hello, MCP!');
+    });
+
+    it('get_server_statsで実行統計を返却する', async () => {
+      await initialize();
+      await request({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'tools/call',
+        params: { name: 'read_file', arguments: { path: 'hello.txt' } }
+      });
+      const response = await request({
+        jsonrpc: '2.0',
+        id: 8,
+        method: 'tools/call',
+        params: { name: 'get_server_stats', arguments: {} }
+      });
+
+      const result = response.result as { content: Array<{ type: string; text: string }> };
+      const stats = JSON.parse(result.content[0].text);
+      expect(stats.uptimeMs).toBeGreaterThanOrEqual(0);
+      expect(stats.execution.tools.read_file.calls).toBe(1);
+      expect(stats.execution.activeCount).toBe(1);
+      expect(stats.config.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('破壊的操作は確認トークンなしでは実行されない', async () => {
+      await initialize();
+      const response = await request({
+        jsonrpc: '2.0',
+        id: 9,
+        method: 'tools/call',
+        params: { name: 'write_file', arguments: { path: 'hello.txt', content: 'overwritten' } }
+      });
+
+      expect(response.error?.data).toMatchObject({ ruleId: 'DESTRUCTIVE_OPERATION_NOT_CONFIRMED' });
+      await expect(fs.readFile(path.join(testDir, 'hello.txt'), 'utf-8')).resolves.toBe(
+        'Hello, MCP!'
+      );
+    });
+
+    it('初期化前のtools/listはエラーを返却する', async () => {
+      const response = await request({ jsonrpc: '2.0', id: 4, method: 'tools/list' });
+
+      expect(response.error?.message).toBe('Server not initialized');
+    });
+
+    it('pingに空のオブジェクトを返却する', async () => {
+      const response = await request({ jsonrpc: '2.0', id: 5, method: 'ping' });
+
+      expect(response.result).toEqual({});
+    });
+
+    it('未知のメソッドにはMETHOD_NOT_FOUNDを返却する', async () => {
+      const response = await request({ jsonrpc: '2.0', id: 6, method: 'unknown/method' });
+
+      expect(response.error?.code).toBe(-32601);
+    });
+  });
+
+  describe('ツールの許可リスト', () => {
+    const configPath = () => path.join(testDir, '.cursorcli-mcp', 'config.json');
+
+    const writeAllowedTools = async (allowedTools: string[]) => {
+      const config = JSON.parse(await fs.readFile(configPath(), 'utf-8'));
+      config.tools.allowedTools = allowedTools;
+      await fs.writeFile(configPath(), JSON.stringify(config, null, 2), 'utf-8');
+    };
+
+    it('許可リストに含まれないツールは無効化される', async () => {
+      await server.stop();
+      await writeAllowedTools(['read_file', 'get_*']);
+
+      server = new McpServer({ projectRoot: testDir, stdin: mockStdin, stdout: mockStdout });
+      await server.start();
+      await initialize();
+
+      const registry = server.getRegistry();
+      expect(registry.isEnabled('read_file')).toBe(true);
+      expect(registry.isEnabled('get_project_info')).toBe(true);
+      expect(registry.isEnabled('write_file')).toBe(false);
+
+      const response = await request({
+        jsonrpc: '2.0',
+        id: 20,
+        method: 'tools/call',
+        params: { name: 'write_file', arguments: { path: 'x.txt', content: 'x' } }
+      });
+      expect(response.error?.data).toMatchObject({ ruleId: 'TOOL_DISABLED' });
+    });
+
+    it('設定の変更時に許可リストを再適用し、list_changedを通知する', async () => {
+      await initialize();
+      await writeAllowedTools(['read_file']);
+
+      for (let i = 0; i < 300; i++) {
+        if (outputData.some((line) => line.includes('notifications/tools/list_changed'))) {
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      const notification = outputData
+        .map((line) => JSON.parse(line) as JSONRPCMessage)
+        .find((m) => m.method === 'notifications/tools/list_changed');
+      expect(notification).toEqual({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+      expect(server.getRegistry().isEnabled('write_file')).toBe(false);
+    });
+  });
+
+  describe('設定ディレクトリの保護', () => {
+    const configPath = () => path.join(testDir, '.cursorcli-mcp', 'config.json');
+
+    it('破壊的操作を許可していても設定ディレクトリへの書き込み・コピー・移動は拒否する', async () => {
+      await server.stop();
+      const config = JSON.parse(await fs.readFile(configPath(), 'utf-8'));
+      config.security.allowDestructiveOperations = true;
+      config.tools.fileOperations.blockedPatterns = [];
+      await fs.writeFile(configPath(), JSON.stringify(config, null, 2), 'utf-8');
+      const original = await fs.readFile(configPath(), 'utf-8');
+
+      server = new McpServer({ projectRoot: testDir, stdin: mockStdin, stdout: mockStdout });
+      await server.start();
+      await initialize();
+
+      const calls = [
+        {
+          name: 'write_file',
+          arguments: { path: '.cursorcli-mcp/config.json', content: '{}', overwrite: true }
+        },
+        {
+          name: 'copy_path',
+          arguments: {
+            source: 'hello.txt',
+            destination: '.cursorcli-mcp/config.json',
+            overwrite: true
+          }
+        },
+        {
+          name: 'move_path',
+          arguments: { source: 'hello.txt', destination: '.cursorcli-mcp/moved.txt' }
+        },
+        { name: 'delete_path', arguments: { path: '.cursorcli-mcp', recursive: true } }
+      ];
+      for (const [index, params] of calls.entries()) {
+        const response = await request({
+          jsonrpc: '2.0',
+          id: 30 + index,
+          method: 'tools/call',
+          params
+        });
+        expect((response.result as { isError?: boolean }).isError).toBe(true);
+      }
+
+      await expect(fs.readFile(configPath(), 'utf-8')).resolves.toBe(original);
+      await expect(fs.access(path.join(testDir, 'hello.txt'))).resolves.toBeUndefined();
+    });
+
+    it('バックアップは一覧や検索の結果に含めない', async () => {
+      await server.stop();
+      const config = JSON.parse(await fs.readFile(configPath(), 'utf-8'));
+      config.security.allowDestructiveOperations = true;
+      config.tools.fileOperations.blockedPatterns = [];
+      await fs.writeFile(configPath(), JSON.stringify(config, null, 2), 'utf-8');
+
+      server = new McpServer({ projectRoot: testDir, stdin: mockStdin, stdout: mockStdout });
+      await server.start();
+      await initialize();
+
+      const callTool = async (id: number, name: string, args: Record<string, unknown>) => {
+        const response = await request({
+          jsonrpc: '2.0',
+          id,
+          method: 'tools/call',
+          params: { name, arguments: args }
+        });
+        const result = response.result as { content: Array<{ text: string }>; isError?: boolean };
+        expect(result.isError ? result.content[0].text : undefined).toBeUndefined();
+        return result.content[0].text;
+      };
+
+      await callTool(40, 'write_file', {
+        path: 'hello.txt',
+        content: 'Hello, backup!',
+        backup: true
+      });
+      await expect(
+        fs.access(path.join(testDir, '.cursorcli-mcp', 'backups', 'hello.txt.bak'))
+      ).resolves.toBeUndefined();
+
+      const content = JSON.parse(await callTool(41, 'search_content', { query: 'Hello' }));
+      const files = await callTool(42, 'search_files', { pattern: '**/*.bak' });
+      const listing = await callTool(43, 'list_directory', { path: '.', recursive: true });
+
+      expect(content.matches.map((match: { path: string }) => match.path)).toEqual([
+        path.join(testDir, 'hello.txt')
+      ]);
+      expect(JSON.parse(files).files).toEqual([]);
+      expect(listing).not.toContain('.bak');
+    });
+  });
+
+  describe('リソース', () => {
+    it('resources/listとresources/readでプロジェクトのファイルを返却する', async () => {
+      await initialize();
+      const uri = pathToFileURL(path.join(testDir, 'hello.txt')).href;
+
+      const list = await request({ jsonrpc: '2.0', id: 2, method: 'resources/list' });
+      const read = await request({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'resources/read',
+        params: { uri }
+      });
+
+      expect((list.result as { resources: Array<{ uri: string }> }).resources).toContainEqual(
+        expect.objectContaining({ uri, name: 'hello.txt', mimeType: 'text/plain' })
+      );
+      expect(read.result).toEqual({
+        contents: [{ uri, mimeType: 'text/plain', text: 'Hello, MCP!' }]
+      });
+    });
+
+    it('購読中のリソースの変更時にresources/updatedを通知する', async () => {
+      await initialize();
+      const uri = pathToFileURL(path.join(testDir, 'hello.txt')).href;
+
+      const response = await request({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'resources/subscribe',
+        params: { uri }
+      });
+      expect(response.result).toEqual({});
+
+      await fs.writeFile(path.join(testDir, 'hello.txt'), 'Updated', 'utf-8');
+      for (let i = 0; i < 300; i++) {
+        if (outputData.some((line) => line.includes('notifications/resources/updated'))) {
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      const notification = outputData
+        .map((line) => JSON.parse(line) as JSONRPCMessage)
+        .find((m) => m.method === 'notifications/resources/updated');
+      expect(notification).toEqual({
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri }
+      });
+    });
+  });
+
+  describe('プロンプト', () => {
+    it('prompts/listとprompts/getで組み込みのプロンプトを返却する', async () => {
+      await initialize();
+
+      const list = await request({ jsonrpc: '2.0', id: 2, method: 'prompts/list' });
+      const get = await request({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'prompts/get',
+        params: { name: 'explain_file', arguments: { path: 'hello.txt' } }
+      });
+
+      const prompts = (list.result as { prompts: Array<{ name: string }> }).prompts;
+      expect(prompts.map((p) => p.name)).toEqual(['explain_file', 'review_diff', 'write_tests']);
+      expect((get.result as { messages: unknown[] }).messages).toContainEqual({
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: pathToFileURL(path.join(testDir, 'hello.txt')).href,
+            mimeType: 'text/plain',
+            text: 'Hello, MCP!'
+          }
+        }
+      });
+    });
+  });
+
+  describe('ログ', () => {
+    it('logging/setLevelで指定したレベル以上のログをnotifications/messageで通知する', async () => {
+      await initialize();
+
+      const response = await request({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'logging/setLevel',
+        params: { level: 'debug' }
+      });
+      mockStdin.push(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: 99 }
+        }) + '\n'
+      );
+
+      const findLog = () =>
+        outputData
+          .map((line) => JSON.parse(line) as JSONRPCMessage)
+          .find(
+            (m) =>
+              m.method === 'notifications/message' &&
+              (m.params as { data: { message: string } }).data.message === 'Cancellation requested'
+          );
+      for (let i = 0; i < 100 && !findLog(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      expect(response.result).toEqual({});
+      expect(findLog()?.params).toMatchObject({
+        level: 'debug',
+        logger: 'server',
+        data: { message: 'Cancellation requested', requestId: 99, cancelled: false }
+      });
+    });
+
+    it('不正なログレベルはエラーを返却する', async () => {
+      await initialize();
+
+      const response = await request({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'logging/setLevel',
+        params: { level: 'verbose' }
+      });
+
+      expect(response.error?.message).toContain('Invalid log level: verbose');
+    });
+  });
+
+  describe('バッチと通知', () => {
+    it('バッチリクエストにレスポンスの配列を返却する', async () => {
+      mockStdin.push(
+        JSON.stringify([
+          { jsonrpc: '2.0', id: 10, method: 'ping' },
+          { jsonrpc: '2.0', method: 'notifications/initialized' },
+          { jsonrpc: '2.0', id: 11, method: 'ping' }
+        ]) + '\n'
+      );
+
+      for (let i = 0; i < 100 && outputData.length === 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      const responses = JSON.parse(outputData[0]) as JSONRPCMessage[];
+      expect(responses.map((r) => r.id)).toEqual([10, 11]);
+    });
+  });
+
+  describe('停止', () => {
+    it('停止コールバックを一度だけ実行する', async () => {
+      let calls = 0;
+      server.onStop(() => {
+        calls++;
+      });
+
+      await server.stop();
+      await server.stop();
+
+      expect(calls).toBe(1);
+    });
+
+    it('stdinのクローズで停止する', async () => {
+      const stopped = new Promise<void>((resolve) => server.onStop(resolve));
+
+      mockStdin.push(null);
+
+      await expect(stopped).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Pagination のユニットテスト
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  comparePositions,
+  cursorScope,
+  decodeCursor,
+  encodeCursor,
+  resumeDecision
+} from '../../src/tools/pagination';
+import { ValidationError } from '../../src/errors/index';
+
+describe('Pagination', () => {
+  describe('encodeCursor / decodeCursor', () => {
+    it('発行したカーソルから位置を復元できる', () => {
+      const scope = cursorScope({ pattern: '**/*.ts' });
+      const cursor = encodeCursor(['src', 'index.ts'], scope);
+
+      expect(decodeCursor(cursor, scope)).toEqual(['src', 'index.ts']);
+    });
+
+    it('異なるクエリで発行されたカーソルは拒否する', () => {
+      const cursor = encodeCursor(['a'], cursorScope({ pattern: '*.ts' }));
+
+      expect(() => decodeCursor(cursor, cursorScope({ pattern: '*.md' }))).toThrow(
+        'Cursor was issued for a different query'
+      );
+    });
+
+    it('不正な形式のカーソルは ValidationError をスローする', () => {
+      const scope = cursorScope({});
+
+      expect(() => decodeCursor('%%%', scope)).toThrow(ValidationError);
+      expect(() => decodeCursor(Buffer.from('{"p":[],"s":""}').toString('base64url'), scope)).toThrow(
+        'Invalid cursor'
+      );
+    });
+  });
+
+  describe('comparePositions', () => {
+    it('親は子より前に並ぶ', () => {
+      expect(comparePositions(['b'], ['b', 'a'])).toBeLessThan(0);
+      expect(comparePositions(['b', 'z'], ['c'])).toBeLessThan(0);
+      expect(comparePositions(['a'], ['a'])).toBe(0);
+    });
+  });
+
+  describe('resumeDecision', () => {
+    const cursor = ['b', 'b1.txt'];
+
+    it('カーソルがない場合は全て含める', () => {
+      expect(resumeDecision(['a.txt'], undefined)).toBe('include');
+    });
+
+    it('カーソルより後のエントリを含め、返却済みのエントリを読み飛ばす', () => {
+      expect(resumeDecision(['a.txt'], cursor)).toBe('skip');
+      expect(resumeDecision(['b', 'b2.txt'], cursor)).toBe('include');
+      expect(resumeDecision(['c.txt'], cursor)).toBe('include');
+    });
+
+    it('カーソル自身とその祖先は配下を走査する', () => {
+      expect(resumeDecision(['b'], cursor)).toBe('descend');
+      expect(resumeDecision(['b', 'b1.txt'], cursor)).toBe('descend');
+    });
+  });
+});
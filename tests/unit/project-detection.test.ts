@@ -0,0 +1,210 @@
+/**
+ * Project Detection のユニットテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { detectProject } from '../../src/tools/project-detection';
+
+describe('detectProject', () => {
+  let projectRoot: string;
+
+  const writeFiles = async (files: Record<string, string>): Promise<void> => {
+    for (const [name, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(projectRoot, name), content);
+    }
+  };
+
+  beforeEach(async () => {
+    projectRoot = path.join(process.cwd(), 'test-project-detection');
+    await fs.mkdir(projectRoot, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('マニフェストがない場合は何も検出しない', async () => {
+    const result = await detectProject(projectRoot);
+
+    expect(result.languages).toEqual([]);
+    expect(result.manifests).toEqual([]);
+  });
+
+  describe('JavaScript / TypeScript', () => {
+    it('devDependencies のメタフレームワークを優先して検出する', async () => {
+      await writeFiles({
+        'package.json': JSON.stringify({
+          dependencies: { react: '^18.0.0', next: '^14.0.0' },
+          devDependencies: { express: '^4.0.0' }
+        })
+      });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result.frameworks).toEqual(['next', 'react', 'express']);
+    });
+
+    it('NestJS と Nuxt を検出する', async () => {
+      await writeFiles({
+        'package.json': JSON.stringify({ dependencies: { '@nestjs/core': '^10.0.0' } })
+      });
+      expect((await detectProject(projectRoot)).frameworks).toEqual(['nestjs']);
+
+      await writeFiles({
+        'package.json': JSON.stringify({ devDependencies: { nuxt: '^3.0.0', vue: '^3.0.0' } })
+      });
+      expect((await detectProject(projectRoot)).frameworks).toEqual(['nuxt', 'vue']);
+    });
+
+    it('packageManager フィールドをロックファイルより優先する', async () => {
+      await writeFiles({
+        'package.json': JSON.stringify({ packageManager: 'yarn@4.1.0' }),
+        'package-lock.json': '{}'
+      });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result.packageManager).toBe('yarn');
+    });
+
+    it('workspaces と pnpm-workspace.yaml からモノレポ構成を検出する', async () => {
+      await writeFiles({
+        'package.json': JSON.stringify({ workspaces: ['apps/*'] }),
+        'pnpm-lock.yaml': '',
+        'pnpm-workspace.yaml': "packages:\n  - 'packages/*'\n  - \"tools/*\"\n",
+        'turbo.json': '{}'
+      });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result.monorepo).toEqual({
+        tools: ['pnpm', 'turbo'],
+        packages: ['apps/*', 'packages/*', 'tools/*']
+      });
+    });
+
+    it('不正な package.json でも JavaScript プロジェクトとして検出する', async () => {
+      await writeFiles({ 'package.json': '{ invalid' });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result.languages).toEqual(['javascript']);
+      expect(result.name).toBeUndefined();
+    });
+  });
+
+  describe('Python', () => {
+    it('pyproject.toml から名前・パッケージマネージャー・フレームワークを検出する', async () => {
+      await writeFiles({
+        'pyproject.toml': [
+          '[tool.poetry]',
+          'name = "api-server"',
+          '',
+          '[tool.poetry.dependencies]',
+          'python = "^3.12"',
+          'fastapi = "^0.110"'
+        ].join('\n')
+      });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result).toMatchObject({
+        name: 'api-server',
+        languages: ['python'],
+        frameworks: ['fastapi'],
+        packageManager: 'poetry',
+        manifests: ['pyproject.toml']
+      });
+    });
+
+    it('requirements.txt のみでも検出する', async () => {
+      await writeFiles({ 'requirements.txt': 'Django==5.0\n' });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result.frameworks).toEqual(['django']);
+      expect(result.packageManager).toBe('pip');
+    });
+  });
+
+  describe('その他の言語', () => {
+    it('Cargo ワークスペースを検出する', async () => {
+      await writeFiles({
+        'Cargo.toml': '[workspace]\nmembers = [\n  "crates/core",\n  "crates/cli",\n]\n'
+      });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result.languages).toEqual(['rust']);
+      expect(result.monorepo).toEqual({ tools: ['cargo'], packages: ['crates/core', 'crates/cli'] });
+    });
+
+    it('go.work の use ディレクティブを検出する', async () => {
+      await writeFiles({ 'go.work': 'go 1.22\n\nuse (\n\t./api\n\t./worker\n)\n' });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result.monorepo).toEqual({ tools: ['go'], packages: ['./api', './worker'] });
+    });
+
+    it('Maven プロジェクトを検出する（親の artifactId は使用しない）', async () => {
+      await writeFiles({
+        'pom.xml': [
+          '<project>',
+          '  <parent><artifactId>spring-boot-starter-parent</artifactId></parent>',
+          '  <artifactId>orders</artifactId>',
+          '  <modules><module>core</module><module>web</module></modules>',
+          '</project>'
+        ].join('\n')
+      });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result).toMatchObject({
+        name: 'orders',
+        languages: ['java'],
+        frameworks: ['spring-boot'],
+        packageManager: 'maven',
+        monorepo: { tools: ['maven'], packages: ['core', 'web'] }
+      });
+    });
+
+    it('Gradle のマルチプロジェクトを検出する', async () => {
+      await writeFiles({
+        'settings.gradle.kts': 'rootProject.name = "shop"\ninclude(":app", ":lib:util")\n',
+        'build.gradle.kts': ''
+      });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result).toMatchObject({
+        name: 'shop',
+        languages: ['java'],
+        packageManager: 'gradle',
+        monorepo: { tools: ['gradle'], packages: ['app', 'lib/util'] }
+      });
+    });
+
+    it('Ruby / .NET / PHP を検出する', async () => {
+      await writeFiles({
+        Gemfile: "source 'https://rubygems.org'\ngem 'rails', '~> 7.1'\n",
+        'Shop.csproj': '<Project Sdk="Microsoft.NET.Sdk" />',
+        'composer.json': JSON.stringify({
+          name: 'acme/shop',
+          require: { 'laravel/framework': '^11.0' },
+          scripts: { test: 'phpunit', lint: ['phpstan', 'pint --test'] }
+        })
+      });
+
+      const result = await detectProject(projectRoot);
+
+      expect(result.languages).toEqual(['ruby', 'csharp', 'php']);
+      expect(result.frameworks).toEqual(['rails', 'laravel']);
+      expect(result.packageManager).toBe('bundler');
+      expect(result.name).toBe('Shop');
+      expect(result.scripts).toEqual({ test: 'phpunit', lint: 'phpstan && pint --test' });
+    });
+  });
+});
@@ -10,12 +10,15 @@ import * as path from 'path';
 import {
   ProjectManagementTool,
   GetProjectInfoSchema,
+  ListWorkspacesSchema,
   SearchFilesSchema,
+  SearchContentSchema,
   GetWorkspaceStructureSchema,
   type SearchFilesParams,
   type GetWorkspaceStructureParams
 } from '../../src/tools/project-management';
 import { SecurityValidator } from '../../src/security/validator';
+import { TimeoutError } from '../../src/errors';
 
 describe('ProjectManagementTool', () => {
   let tool: ProjectManagementTool;
@@ -60,10 +63,49 @@ describe('ProjectManagementTool', () => {
         name: 'test-project',
         rootPath: projectRoot,
         settings: {},
-        language: 'typescript' // package.jsonから推測
+        language: 'javascript', // tsconfig.json がないため JavaScript と推測
+        languages: ['javascript'],
+        frameworks: [],
+        packageManager: 'npm',
+        manifests: ['package.json'],
+        scripts: {}
       });
     });
 
+    it('tsconfig.json がある場合は TypeScript と推測し、スクリプトを含む', async () => {
+      // Arrange
+      const packageJson = {
+        name: 'test-project',
+        scripts: { build: 'tsc', test: 'jest' },
+        devDependencies: { typescript: '^5.0.0', vite: '^5.0.0' }
+      };
+      await fs.writeFile(path.join(projectRoot, 'package.json'), JSON.stringify(packageJson));
+      await fs.writeFile(path.join(projectRoot, 'tsconfig.json'), '{}');
+      await fs.writeFile(path.join(projectRoot, 'pnpm-lock.yaml'), '');
+
+      // Act
+      const result = await tool.getProjectInfo();
+
+      // Assert
+      expect(result.language).toBe('typescript');
+      expect(result.framework).toBe('vite');
+      expect(result.packageManager).toBe('pnpm');
+      expect(result.scripts).toEqual({ build: 'tsc', test: 'jest' });
+    });
+
+    it('Go プロジェクトを検出できる', async () => {
+      // Arrange
+      await fs.writeFile(path.join(projectRoot, 'go.mod'), 'module example.com/app\n\ngo 1.22\n');
+
+      // Act
+      const result = await tool.getProjectInfo();
+
+      // Assert
+      expect(result.name).toBe('example.com/app');
+      expect(result.language).toBe('go');
+      expect(result.packageManager).toBe('go');
+    });
+
     it('.cursor/settings.json が存在する場合、設定情報を含む', async () => {
       // Arrange
       const packageJson = {
@@ -133,6 +175,95 @@ setup(
     });
   });
 
+  describe('list_workspaces', () => {
+    beforeEach(async () => {
+      // pnpm + turbo のモノレポを作成
+      const writeJson = async (file: string, value: unknown): Promise<void> => {
+        await fs.mkdir(path.dirname(path.join(projectRoot, file)), { recursive: true });
+        await fs.writeFile(path.join(projectRoot, file), JSON.stringify(value));
+      };
+      await writeJson('package.json', { name: 'acme', private: true });
+      await writeJson('turbo.json', {});
+      await fs.writeFile(
+        path.join(projectRoot, 'pnpm-workspace.yaml'),
+        "packages:\n  - 'packages/*'\n  - 'apps/*'\n"
+      );
+      await writeJson('packages/ui/package.json', {
+        name: '@acme/ui',
+        scripts: { build: 'vite build' },
+        devDependencies: { vite: '^5.0.0' }
+      });
+      await fs.writeFile(path.join(projectRoot, 'packages', 'ui', 'tsconfig.json'), '{}');
+      await fs.mkdir(path.join(projectRoot, 'packages', 'ui', 'src'), { recursive: true });
+      await fs.writeFile(path.join(projectRoot, 'packages', 'ui', 'src', 'index.ts'), '');
+      await writeJson('apps/web/package.json', { name: '@acme/web' });
+      await fs.writeFile(path.join(projectRoot, 'apps', 'web', 'index.ts'), '');
+      // マニフェストのないディレクトリはワークスペースとして扱わない
+      await fs.mkdir(path.join(projectRoot, 'packages', 'empty'), { recursive: true });
+    });
+
+    it('ワークスペースとパッケージごとのプロジェクト情報を一覧表示できる', async () => {
+      // Act
+      const result = await tool.listWorkspaces();
+
+      // Assert
+      expect(result.monorepo).toBe(true);
+      expect(result.tools).toEqual(['pnpm', 'turbo']);
+      expect(result.workspaces.map(w => [w.name, w.relativePath])).toEqual([
+        ['@acme/web', 'apps/web'],
+        ['@acme/ui', 'packages/ui']
+      ]);
+      expect(result.workspaces[1].info).toMatchObject({
+        rootPath: path.join(projectRoot, 'packages', 'ui'),
+        language: 'typescript',
+        framework: 'vite',
+        scripts: { build: 'vite build' }
+      });
+    });
+
+    it('モノレポでない場合は空の一覧を返す', async () => {
+      // Arrange
+      await fs.rm(path.join(projectRoot, 'pnpm-workspace.yaml'));
+      await fs.rm(path.join(projectRoot, 'turbo.json'));
+
+      // Act
+      const result = await tool.listWorkspaces();
+
+      // Assert
+      expect(result).toEqual({ monorepo: false, tools: [], workspaces: [] });
+    });
+
+    it('workspace を指定して search_files の走査範囲を絞り込める', async () => {
+      // Act
+      const byName = await tool.searchFiles({ pattern: '**/*.ts', workspace: '@acme/ui' });
+      const byPath = await tool.searchFiles({ pattern: '*.ts', workspace: './apps/web/' });
+
+      // Assert
+      expect(byName.files.map(f => f.path)).toEqual([
+        path.join(projectRoot, 'packages', 'ui', 'src', 'index.ts')
+      ]);
+      expect(byPath.files.map(f => f.path)).toEqual([
+        path.join(projectRoot, 'apps', 'web', 'index.ts')
+      ]);
+    });
+
+    it('workspace を指定して get_workspace_structure のルートを変更できる', async () => {
+      // Act
+      const result = await tool.getWorkspaceStructure({ workspace: 'apps/web' });
+
+      // Assert
+      expect(result.root.path).toBe(path.join(projectRoot, 'apps', 'web'));
+      expect(result.root.children.map(c => c.name).sort()).toEqual(['index.ts', 'package.json']);
+    });
+
+    it('存在しないワークスペースを指定するとエラーをスローする', async () => {
+      // Act & Assert
+      await expect(tool.searchFiles({ pattern: '**/*', workspace: 'missing' })).rejects.toThrow(
+        'Unknown workspace: missing'
+      );
+    });
+  });
+
   describe('search_files', () => {
     beforeEach(async () => {
       // テスト用のファイル構造を作成
@@ -193,7 +324,62 @@ setup(
       // Assert
       expect(result.files).toHaveLength(2);
       expect(result.truncated).toBe(true);
-      expect(result.totalCount).toBe(3);
+      expect(result.totalCount).toBe(2);
+      expect(result.nextCursor).toBeDefined();
+    });
+
+    it('nextCursor で続きの結果を重複なく取得できる', async () => {
+      // Arrange
+      const params: SearchFilesParams = {
+        pattern: '**/*.ts',
+        maxResults: 2
+      };
+
+      // Act
+      const first = await tool.searchFiles(params);
+      const second = await tool.searchFiles({ ...params, cursor: first.nextCursor });
+
+      // Assert
+      expect(first.files.map(f => path.relative(projectRoot, f.path))).toEqual([
+        path.join('src', 'index.ts'),
+        path.join('src', 'main.ts')
+      ]);
+      expect(second.files.map(f => path.relative(projectRoot, f.path))).toEqual([
+        path.join('tests', 'test.ts')
+      ]);
+      expect([first.returnedCount, second.returnedCount]).toEqual([2, 1]);
+      expect(second.truncated).toBe(false);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('異なる条件で発行されたカーソルは拒否する', async () => {
+      // Arrange
+      const first = await tool.searchFiles({ pattern: '**/*.ts', maxResults: 1 });
+
+      // Act & Assert
+      await expect(
+        tool.searchFiles({ pattern: '**/*.md', maxResults: 1, cursor: first.nextCursor })
+      ).rejects.toThrow('Cursor was issued for a different query');
+      await expect(
+        tool.searchFiles({ pattern: '**/*.ts', cursor: 'not-a-cursor' })
+      ).rejects.toThrow('Invalid cursor');
+    });
+
+    it('ネストした .gitignore と否定パターンを適用できる', async () => {
+      // Arrange
+      await fs.writeFile(path.join(projectRoot, '.gitignore'), '*.md\n');
+      await fs.writeFile(path.join(projectRoot, 'src', '.gitignore'), 'main.ts\n!*.md\n');
+      await fs.writeFile(path.join(projectRoot, 'src', 'NOTES.md'), '');
+
+      // Act
+      const result = await tool.searchFiles({ pattern: '**/*.{ts,md}' });
+
+      // Assert
+      expect(result.files.map(f => path.relative(projectRoot, f.path)).sort()).toEqual([
+        path.join('src', 'NOTES.md'),
+        path.join('src', 'index.ts'),
+        path.join('tests', 'test.ts')
+      ]);
     });
 
     it('ファイルタイプでフィルタリングできる', async () => {
@@ -249,6 +435,212 @@ setup(
     });
   });
 
+  describe('許可ディレクトリ', () => {
+    beforeEach(async () => {
+      await fs.mkdir(path.join(projectRoot, 'packages', 'app-web'), { recursive: true });
+      await fs.mkdir(path.join(projectRoot, 'packages', 'lib-core'), { recursive: true });
+      await fs.mkdir(path.join(projectRoot, 'infra'), { recursive: true });
+
+      await fs.writeFile(path.join(projectRoot, 'packages', 'app-web', 'index.ts'), '');
+      await fs.writeFile(path.join(projectRoot, 'packages', 'lib-core', 'index.ts'), '');
+      await fs.writeFile(path.join(projectRoot, 'infra', 'deploy.ts'), '');
+      await fs.writeFile(path.join(projectRoot, 'root.ts'), '');
+
+      securityValidator = new SecurityValidator({
+        projectRoot,
+        blockedPatterns: [],
+        enforceProjectRoot: true,
+        allowedDirectories: ['packages/app-*']
+      });
+      tool = new ProjectManagementTool(projectRoot, securityValidator);
+    });
+
+    it('search_files は許可ディレクトリ内のファイルのみを返却する', async () => {
+      const result = await tool.searchFiles({ pattern: '**/*.ts' });
+
+      expect(result.files.map((f) => path.relative(projectRoot, f.path))).toEqual([
+        path.join('packages', 'app-web', 'index.ts')
+      ]);
+    });
+
+    it('get_workspace_structure は許可ディレクトリとその祖先のみを含む', async () => {
+      const result = await tool.getWorkspaceStructure({});
+
+      expect(result.root.children.map((c) => c.name)).toEqual(['packages']);
+      const packages = result.root.children[0] as { children: Array<{ name: string }> };
+      expect(packages.children.map((c) => c.name)).toEqual(['app-web']);
+    });
+  });
+
+  describe('search_content', () => {
+    beforeEach(async () => {
+      await fs.mkdir(path.join(projectRoot, 'src'), { recursive: true });
+      await fs.mkdir(path.join(projectRoot, 'dist'), { recursive: true });
+
+      await fs.writeFile(
+        path.join(projectRoot, 'src', 'index.ts'),
+        ['import { helper } from "./helper";', '', 'export function main() {', '  return helper();', '}'].join('\n')
+      );
+      await fs.writeFile(
+        path.join(projectRoot, 'src', 'helper.ts'),
+        'export function helper() {\n  return 42;\n}\n'
+      );
+      await fs.writeFile(path.join(projectRoot, 'dist', 'index.js'), 'helper();\n');
+      await fs.writeFile(path.join(projectRoot, 'README.md'), 'Call Helper() to start.\n');
+    });
+
+    it('文字列で内容を検索し、行番号と列番号を返す', async () => {
+      const result = await tool.searchContent({ query: 'helper()' });
+
+      expect(result.matches.map(m => [path.basename(m.path), m.line, m.column])).toEqual(
+        expect.arrayContaining([
+          ['index.ts', 4, 10],
+          ['helper.ts', 1, 17],
+          ['index.js', 1, 1]
+        ])
+      );
+      expect(result.matches).toHaveLength(3);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('caseSensitive: false の場合は大文字小文字を区別しない', async () => {
+      const result = await tool.searchContent({ query: 'helper()', caseSensitive: false });
+
+      expect(result.matches.map(m => path.basename(m.path))).toContain('README.md');
+    });
+
+    it('正規表現で検索できる', async () => {
+      const result = await tool.searchContent({ query: 'export function \\w+', regex: true });
+
+      expect(result.matches).toHaveLength(2);
+      expect(result.filesWithMatches).toBe(2);
+    });
+
+    it('不正な正規表現はエラーをスローする', async () => {
+      await expect(tool.searchContent({ query: '(unclosed', regex: true })).rejects.toThrow(
+        'Invalid regular expression'
+      );
+    });
+
+    it('contextLinesで前後の行を含める', async () => {
+      const result = await tool.searchContent({ query: 'return helper', contextLines: 1 });
+
+      expect(result.matches[0].before).toEqual(['export function main() {']);
+      expect(result.matches[0].after).toEqual(['}']);
+    });
+
+    it('include / exclude のglobパターンで対象ファイルを絞り込む', async () => {
+      const included = await tool.searchContent({ query: 'helper', include: ['*.ts'] });
+      expect(included.matches.every(m => m.path.endsWith('.ts'))).toBe(true);
+
+      const excluded = await tool.searchContent({ query: 'helper', exclude: ['src/**'] });
+      expect(excluded.matches.map(m => path.basename(m.path))).toEqual(['index.js']);
+    });
+
+    it('.gitignore 対象のファイルは検索しない', async () => {
+      await fs.writeFile(path.join(projectRoot, '.gitignore'), 'dist/\n');
+
+      const result = await tool.searchContent({ query: 'helper();' });
+      expect(result.matches.map(m => path.basename(m.path))).not.toContain('index.js');
+
+      const withIgnored = await tool.searchContent({ query: 'helper();', includeIgnored: true });
+      expect(withIgnored.matches.map(m => path.basename(m.path))).toContain('index.js');
+    });
+
+    it('バイナリファイルは検索せずにスキップ数として数える', async () => {
+      await fs.writeFile(
+        path.join(projectRoot, 'src', 'image.bin'),
+        Buffer.concat([Buffer.from('helper'), Buffer.from([0x00, 0x01])])
+      );
+
+      const result = await tool.searchContent({ query: 'helper', path: 'src' });
+
+      expect(result.matches.map(m => path.basename(m.path))).not.toContain('image.bin');
+      expect(result.filesSkipped).toBe(1);
+    });
+
+    it('maxResultsに達した場合はtruncatedを返す', async () => {
+      const result = await tool.searchContent({ query: 'helper', maxResults: 2 });
+
+      expect(result.matches).toHaveLength(2);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('ブロックされたパスのファイルは検索しない', async () => {
+      const blockedTool = new ProjectManagementTool(
+        projectRoot,
+        new SecurityValidator({
+          projectRoot,
+          blockedPatterns: ['dist/**'],
+          enforceProjectRoot: true
+        })
+      );
+
+      const result = await blockedTool.searchContent({ query: 'helper();' });
+
+      expect(result.matches.map(m => path.basename(m.path))).not.toContain('index.js');
+    });
+
+    it('path にファイルを指定した場合はそのファイルのみを検索する', async () => {
+      const result = await tool.searchContent({ query: 'helper', path: 'src/helper.ts' });
+
+      expect(result.matches.map(m => [path.basename(m.path), m.line])).toEqual([['helper.ts', 1]]);
+      expect(result.filesSearched).toBe(1);
+    });
+
+    it('照合が期限を過ぎた正規表現はイベントループをブロックせず TimeoutError をスローする', async () => {
+      await fs.writeFile(path.join(projectRoot, 'src', 'slow.txt'), 'a'.repeat(40));
+      const limitedTool = new ProjectManagementTool(projectRoot, securityValidator, {
+        regexTimeoutMs: 200
+      });
+      let ticks = 0;
+      const interval = setInterval(() => ticks++, 20);
+
+      try {
+        for (const query of ['(a|a)*b', '(a+)+b']) {
+          await expect(
+            limitedTool.searchContent({ query, regex: true, path: 'src' })
+          ).rejects.toBeInstanceOf(TimeoutError);
+        }
+      } finally {
+        clearInterval(interval);
+      }
+
+      expect(ticks).toBeGreaterThan(5);
+    });
+
+    it('キャンセルされた場合は照合中の正規表現を中断する', async () => {
+      await fs.writeFile(path.join(projectRoot, 'src', 'slow.txt'), 'a'.repeat(40));
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new Error('cancelled')), 50);
+
+      await expect(
+        tool.searchContent({ query: '(a|a)*b', regex: true, path: 'src' }, controller.signal)
+      ).rejects.toThrow('cancelled');
+    });
+
+    it('正規表現の一致位置と結果数の上限はワーカーでの照合でも同じく扱う', async () => {
+      const result = await tool.searchContent({ query: 'help(er)+', regex: true, maxResults: 1 });
+
+      expect(result.matches).toHaveLength(1);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('設定されたファイルサイズの上限を超えるファイルは検索しない', async () => {
+      const limitedTool = new ProjectManagementTool(projectRoot, securityValidator, {
+        maxFileSize: 30
+      });
+
+      const limited = await limitedTool.searchContent({ query: 'helper', path: 'src' });
+      limitedTool.setMaxFileSize(1024);
+      const reloaded = await limitedTool.searchContent({ query: 'helper', path: 'src' });
+
+      expect(limited.filesSkipped).toBe(2);
+      expect(limited.matches).toEqual([]);
+      expect(reloaded.filesSkipped).toBe(0);
+    });
+  });
+
   describe('get_workspace_structure', () => {
     beforeEach(async () => {
       // テスト用のディレクトリ構造を作成
@@ -313,6 +705,25 @@ setup(
       expect(hasNodeModules).toBe(false);
     });
 
+    it('ネストした .gitignore 対象を除外する', async () => {
+      // Arrange
+      await fs.mkdir(path.join(projectRoot, 'src', 'coverage'), { recursive: true });
+      await fs.writeFile(path.join(projectRoot, 'src', 'coverage', 'index.html'), '');
+      await fs.writeFile(path.join(projectRoot, 'src', '.gitignore'), 'coverage/\n');
+
+      // Act
+      const result = await tool.getWorkspaceStructure({ maxDepth: 5 });
+      const withIgnored = await tool.getWorkspaceStructure({ maxDepth: 5, includeIgnored: true });
+
+      // Assert
+      const childNames = (root: typeof result.root): string[] => {
+        const srcDir = root.children.find(c => c.name === 'src');
+        return srcDir && srcDir.type === 'directory' ? srcDir.children.map(c => c.name) : [];
+      };
+      expect(childNames(result.root)).not.toContain('coverage');
+      expect(childNames(withIgnored.root)).toContain('coverage');
+    });
+
     it('ファイルサイズ情報を含む', async () => {
       // Arrange
       const params: GetWorkspaceStructureParams = {
@@ -348,6 +759,11 @@ setup(
       expect(result.success).toBe(true);
     });
 
+    it('ListWorkspacesSchema は正しく定義されている', () => {
+      const result = ListWorkspacesSchema.safeParse({});
+      expect(result.success).toBe(true);
+    });
+
     it('SearchFilesSchema は正しくバリデーションする', () => {
       const validParams = {
         pattern: '**/*.ts',
@@ -361,6 +777,12 @@ setup(
       expect(result.success).toBe(true);
     });
 
+    it('SearchContentSchema は空のクエリと範囲外のcontextLinesを拒否する', () => {
+      expect(SearchContentSchema.safeParse({ query: '' }).success).toBe(false);
+      expect(SearchContentSchema.safeParse({ query: 'a', contextLines: 11 }).success).toBe(false);
+      expect(SearchContentSchema.safeParse({ query: 'a', contextLines: 2 }).success).toBe(true);
+    });
+
     it('SearchFilesSchema は不正な値を拒否する', () => {
       const invalidParams = {
         pattern: '**/*.ts',
@@ -0,0 +1,243 @@
+/**
+ * ProjectPromptProvider のユニットテスト
+ *
+ * 組み込みのプロンプト（explain_file / write_tests / review_diff）の組み立てと、
+ * .cursorcli-mcp/prompts/*.md のユーザー定義テンプレートの読み込みを確認する
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { pathToFileURL } from 'node:url';
+import { SecurityValidator } from '../../src/security/validator.js';
+import { FileOperationsTool } from '../../src/tools/file-operations.js';
+import { ProjectManagementTool } from '../../src/tools/project-management.js';
+import { EditorControlTool } from '../../src/tools/editor-control.js';
+import type { ActiveFileInfo, CursorEditorAPI } from '../../src/tools/editor-control.js';
+import { FileResourceProvider } from '../../src/tools/resources.js';
+import { ProjectPromptProvider, parsePromptTemplate } from '../../src/tools/prompts.js';
+
+/**
+ * アクティブなファイルだけを返すモックのエディタAPI
+ */
+class MockEditorAPI implements CursorEditorAPI {
+  running = true;
+  activeFile: ActiveFileInfo = { path: null, cursorPosition: null, selection: null, isDirty: false };
+
+  async isIDERunning() {
+    return this.running;
+  }
+
+  async getActiveFile() {
+    return this.activeFile;
+  }
+
+  async openFile(): Promise<never> {
+    throw new Error('not implemented');
+  }
+
+  async insertText(): Promise<never> {
+    throw new Error('not implemented');
+  }
+
+  async replaceText(): Promise<never> {
+    throw new Error('not implemented');
+  }
+}
+
+describe('ProjectPromptProvider', () => {
+  let testDir: string;
+  let promptsDir: string;
+  let editorAPI: MockEditorAPI;
+  let resources: FileResourceProvider;
+  let provider: ProjectPromptProvider;
+
+  beforeEach(() => {
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-test-')));
+    promptsDir = path.join(testDir, '.cursorcli-mcp', 'prompts');
+    fs.mkdirSync(path.join(testDir, 'src'));
+    fs.writeFileSync(
+      path.join(testDir, 'package.json'),
+      JSON.stringify({ name: 'demo', scripts: { test: 'jest' }, dependencies: { react: '^18.0.0' } })
+    );
+    fs.writeFileSync(path.join(testDir, 'src', 'sum.js'), 'export const sum = (a, b) => a + b;\n');
+
+    const validator = new SecurityValidator({ projectRoot: testDir });
+    editorAPI = new MockEditorAPI();
+    resources = new FileResourceProvider(
+      new FileOperationsTool(validator, testDir),
+      validator,
+      testDir
+    );
+    provider = new ProjectPromptProvider(
+      new EditorControlTool(editorAPI),
+      new ProjectManagementTool(testDir, validator),
+      resources,
+      validator,
+      promptsDir
+    );
+  });
+
+  afterEach(async () => {
+    await resources.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('組み込みのプロンプト', () => {
+    it('組み込みのプロンプトを名前順に列挙する', async () => {
+      const prompts = await provider.listPrompts();
+
+      expect(prompts.map((prompt) => prompt.name)).toEqual([
+        'explain_file',
+        'review_diff',
+        'write_tests'
+      ]);
+    });
+
+    it('explain_file は指定したファイルの内容を埋め込みリソースとして添える', async () => {
+      const result = await provider.getPrompt('explain_file', { path: 'src/sum.js' });
+
+      expect(result.messages).toHaveLength(2);
+      expect(result.messages[0].content).toMatchObject({ type: 'text' });
+      expect(result.messages[1]).toEqual({
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: pathToFileURL(path.join(testDir, 'src', 'sum.js')).href,
+            mimeType: 'text/javascript',
+            text: 'export const sum = (a, b) => a + b;\n'
+          }
+        }
+      });
+    });
+
+    it('パスを省略した場合はエディタでアクティブなファイルと選択範囲を使用する', async () => {
+      editorAPI.activeFile = {
+        path: path.join(testDir, 'src', 'sum.js'),
+        cursorPosition: { line: 1, column: 1 },
+        selection: { start: { line: 1, column: 1 }, end: { line: 1, column: 10 } },
+        isDirty: false
+      };
+
+      const result = await provider.getPrompt('explain_file', {});
+
+      expect(result.description).toBe('src/sum.js の説明');
+      expect(result.messages[0].content).toMatchObject({
+        text: expect.stringContaining('1 行目から 1 行目の選択範囲')
+      });
+    });
+
+    it('パスを省略し、エディタが起動していない場合はエラーをスローする', async () => {
+      editorAPI.running = false;
+
+      await expect(provider.getPrompt('explain_file', {})).rejects.toThrow(
+        'path is required when no file is active in the editor'
+      );
+    });
+
+    it('write_tests はプロジェクト情報とテストの実行コマンドを含める', async () => {
+      const result = await provider.getPrompt('write_tests', {
+        path: 'src/sum.js',
+        framework: 'vitest'
+      });
+
+      const text = (result.messages[0].content as { text: string }).text;
+      expect(text).toContain('テストフレームワークには vitest を使用してください。');
+      expect(text).toContain('プロジェクト: demo');
+      expect(text).toContain('- フレームワーク: react');
+      expect(text).toContain('- テストの実行コマンド: jest');
+    });
+
+    it('review_diff は差分をコードブロックで含め、必須の引数がない場合はエラーをスローする', async () => {
+      const diff = '--- a/src/sum.js\n+++ b/src/sum.js\n@@ -1 +1 @@\n-a\n+b\n';
+
+      const result = await provider.getPrompt('review_diff', { diff, focus: 'セキュリティ' });
+
+      const text = (result.messages[0].content as { text: string }).text;
+      expect(text).toContain('「セキュリティ」の観点');
+      expect(text).toContain('```diff\n' + diff + '```');
+      await expect(provider.getPrompt('review_diff', {})).rejects.toThrow(
+        'Missing required argument: diff'
+      );
+    });
+
+    it('存在しないプロンプトは NotFoundError をスローする', async () => {
+      await expect(provider.getPrompt('missing', {})).rejects.toMatchObject({
+        name: 'NotFoundError',
+        message: 'Prompt not found: missing'
+      });
+    });
+  });
+
+  describe('ユーザー定義のテンプレート', () => {
+    it('prompts ディレクトリの Markdown をプロンプトとして提供する', async () => {
+      fs.mkdirSync(promptsDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(promptsDir, 'migration.md'),
+        '---\ndescription: マイグレーションを書く\narguments: table, column?\n---\n{{table}} に {{ column }} を追加する\n'
+      );
+      fs.writeFileSync(path.join(promptsDir, 'notes.txt'), 'ignored');
+
+      const prompts = await provider.listPrompts();
+      const result = await provider.getPrompt('migration', { table: 'users' });
+
+      expect(prompts.find((prompt) => prompt.name === 'migration')).toEqual({
+        name: 'migration',
+        description: 'マイグレーションを書く',
+        arguments: [
+          { name: 'table', required: true },
+          { name: 'column', required: false }
+        ]
+      });
+      expect(prompts.map((prompt) => prompt.name)).not.toContain('notes');
+      expect(result).toEqual({
+        description: 'マイグレーションを書く',
+        messages: [{ role: 'user', content: { type: 'text', text: 'users に  を追加する\n' } }]
+      });
+    });
+
+    it('組み込みのプロンプトと同名のテンプレートで置き換えられる', async () => {
+      fs.mkdirSync(promptsDir, { recursive: true });
+      fs.writeFileSync(path.join(promptsDir, 'review_diff.md'), 'チームの規約でレビュー:\n{{diff}}');
+
+      const prompts = await provider.listPrompts();
+      const result = await provider.getPrompt('review_diff', { diff: '+a' });
+
+      expect(prompts.filter((prompt) => prompt.name === 'review_diff')).toHaveLength(1);
+      expect(result.messages[0].content).toEqual({
+        type: 'text',
+        text: 'チームの規約でレビュー:\n+a'
+      });
+    });
+
+    it('Object.prototype のプロパティ名のプレースホルダーは引数として解決しない', async () => {
+      fs.mkdirSync(promptsDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(promptsDir, 'proto.md'),
+        '---\narguments: constructor?, toString?\n---\n[{{constructor}}][{{toString}}]'
+      );
+      fs.writeFileSync(path.join(promptsDir, 'required.md'), 'Hello {{constructor}}');
+
+      const result = await provider.getPrompt('proto', {});
+
+      expect(result.messages[0].content).toEqual({ type: 'text', text: '[][]' });
+      await expect(provider.getPrompt('required', {})).rejects.toThrow(
+        'Missing required argument: constructor'
+      );
+    });
+
+    it('フロントマターがない場合は本文のプレースホルダーを必須の引数とする', () => {
+      const template = parsePromptTemplate('greet', 'Hello {{name}}, {{name}} from {{team}}');
+
+      expect(template.prompt).toEqual({
+        name: 'greet',
+        arguments: [
+          { name: 'name', required: true },
+          { name: 'team', required: true }
+        ]
+      });
+    });
+  });
+});
@@ -6,25 +6,43 @@
  * - 1.2: MCPクライアントが初期化リクエストを送信した際、サーバー情報を返却
  * - 1.3: MCPクライアントのプロトコルバージョンが非対応の場合、エラーレスポンスを返却
  * - 1.4: MCPクライアントが利用可能なツール一覧をリクエストした際、全ての公開ツール定義を返却
+ * - 5.4: ツール呼び出しをToolExecutor経由で実行
  */
 
 import { describe, it, expect, beforeEach } from '@jest/globals';
-import { MCPProtocolHandler } from '../../src/protocol/handler';
+import { z } from 'zod';
+import { MCPProtocolHandler, JSONRPCResponseError } from '../../src/protocol/handler';
+import type { PromptProvider, ResourceProvider } from '../../src/protocol/handler';
+import { ToolRegistry } from '../../src/protocol/registry';
+import { ToolExecutor } from '../../src/protocol/executor';
 import type {
   InitializeRequest,
   InitializeResult,
   ListToolsResult,
-  CallToolRequest
+  CallToolRequest,
+  GetPromptRequest,
+  ReadResourceRequest,
+  SetLevelRequest
 } from '../../src/protocol/types';
 
 describe('MCPProtocolHandler', () => {
   let handler: MCPProtocolHandler;
+  let registry: ToolRegistry;
 
   beforeEach(() => {
-    handler = new MCPProtocolHandler({
-      name: 'cursorcli-mcp-server',
-      version: '1.0.0'
+    registry = new ToolRegistry();
+    const executor = new ToolExecutor(registry, {
+      maxConcurrency: 3,
+      timeoutMs: 1000
     });
+    handler = new MCPProtocolHandler(
+      {
+        name: 'cursorcli-mcp-server',
+        version: '1.0.0'
+      },
+      registry,
+      executor
+    );
   });
 
   describe('初期化ハンドシェイク', () => {
@@ -45,7 +63,7 @@ describe('MCPProtocolHandler', () => {
       expect(result).toEqual({
         protocolVersion: '2024-11-05',
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
           logging: {}
         },
         serverInfo: {
@@ -143,6 +161,75 @@ describe('MCPProtocolHandler', () => {
         'Tool not found: non_existent_tool'
       );
     });
+
+    describe('登録済みツール', () => {
+      beforeEach(async () => {
+        registry.register({
+          name: 'echo',
+          description: 'エコーツール',
+          schema: z.object({ value: z.string() }),
+          handler: async (params) => ({
+            content: [{ type: 'text', text: params.value }]
+          })
+        });
+
+        await handler.initialize({
+          protocolVersion: '2024-11-05',
+          capabilities: { tools: {} },
+          clientInfo: { name: 'test-client', version: '1.0.0' }
+        });
+      });
+
+      it('ツール一覧にレジストリのツールが含まれる', async () => {
+        const result = await handler.listTools();
+
+        expect(result.tools.map((t) => t.name)).toEqual(['echo']);
+      });
+
+      it('ToolExecutor経由でツールを実行する', async () => {
+        const result = await handler.callTool({
+          name: 'echo',
+          arguments: { value: 'hello' }
+        });
+
+        expect(result.content[0]).toEqual({ type: 'text', text: 'hello' });
+      });
+
+      it('パラメータ不正はINVALID_PARAMSのJSON-RPCエラーに変換される', async () => {
+        const error = await handler
+          .callTool({ name: 'echo', arguments: { value: 1 } }, 42)
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(JSONRPCResponseError);
+        const response = (error as JSONRPCResponseError).response;
+        expect(response.id).toBe(42);
+        expect(response.error.code).toBe(-32602);
+        expect(response.error.data?.errorCode).toBe('VALIDATION_ERROR');
+      });
+
+      it('存在しないツールはNOT_FOUNDのJSON-RPCエラーに変換される', async () => {
+        const error = await handler
+          .callTool({ name: 'missing', arguments: {} }, 7)
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(JSONRPCResponseError);
+        expect((error as JSONRPCResponseError).response.error.data?.errorCode).toBe(
+          'NOT_FOUND'
+        );
+      });
+
+      it('無効化されたツールはBUSINESS_RULE_VIOLATIONに変換される', async () => {
+        registry.disable('echo');
+
+        const error = await handler
+          .callTool({ name: 'echo', arguments: { value: 'hello' } })
+          .catch((e: unknown) => e);
+
+        expect((error as JSONRPCResponseError).response.error.data?.errorCode).toBe(
+          'BUSINESS_RULE_VIOLATION'
+        );
+      });
+    });
   });
 
   describe('プロトコルバージョン管理', () => {
@@ -185,4 +272,135 @@ describe('MCPProtocolHandler', () => {
       expect(clientInfo).toBeNull();
     });
   });
+
+  describe('リソース', () => {
+    const initRequest: InitializeRequest = {
+      protocolVersion: '2024-11-05',
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' }
+    };
+    let subscribed: string[];
+    let resourceHandler: MCPProtocolHandler;
+
+    beforeEach(() => {
+      subscribed = [];
+      const provider: ResourceProvider = {
+        listResources: async () => ({ resources: [{ uri: 'file:///a.txt', name: 'a.txt' }] }),
+        listResourceTemplates: async () => [{ uriTemplate: 'file:///{+path}', name: 'file' }],
+        readResource: async (uri) => [{ uri, text: 'a' }],
+        subscribe: async (uri) => {
+          subscribed.push(uri);
+        },
+        unsubscribe: async () => {},
+        onUpdated: () => {}
+      };
+      resourceHandler = new MCPProtocolHandler(
+        { name: 'cursorcli-mcp-server', version: '1.0.0' },
+        registry,
+        new ToolExecutor(registry, { maxConcurrency: 3, timeoutMs: 1000 }),
+        provider
+      );
+    });
+
+    it('リソースの提供元がある場合はresourcesのcapabilityを返却する', async () => {
+      const result = await resourceHandler.initialize(initRequest);
+
+      expect(result.capabilities.resources).toEqual({ subscribe: true });
+    });
+
+    it('リソースの一覧・読み取り・購読を提供元に委譲する', async () => {
+      await resourceHandler.initialize(initRequest);
+
+      await expect(resourceHandler.listResources()).resolves.toEqual({
+        resources: [{ uri: 'file:///a.txt', name: 'a.txt' }]
+      });
+      await expect(resourceHandler.listResourceTemplates()).resolves.toEqual({
+        resourceTemplates: [{ uriTemplate: 'file:///{+path}', name: 'file' }]
+      });
+      await expect(resourceHandler.readResource({ uri: 'file:///a.txt' })).resolves.toEqual({
+        contents: [{ uri: 'file:///a.txt', text: 'a' }]
+      });
+      await resourceHandler.subscribeResource({ uri: 'file:///a.txt' });
+      expect(subscribed).toEqual(['file:///a.txt']);
+    });
+
+    it('uriが指定されていない場合はエラーをスローする', async () => {
+      await resourceHandler.initialize(initRequest);
+
+      await expect(
+        resourceHandler.readResource({} as unknown as ReadResourceRequest)
+      ).rejects.toThrow('uri is required');
+    });
+
+    it('リソースの提供元がない場合はエラーをスローする', async () => {
+      await handler.initialize(initRequest);
+
+      await expect(handler.listResources()).rejects.toThrow('Resources are not supported');
+    });
+  });
+
+  describe('プロンプト', () => {
+    const initRequest: InitializeRequest = {
+      protocolVersion: '2024-11-05',
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' }
+    };
+    let promptHandler: MCPProtocolHandler;
+
+    beforeEach(() => {
+      const provider: PromptProvider = {
+        listPrompts: async () => [{ name: 'greet' }],
+        getPrompt: async (name, args) => ({
+          messages: [{ role: 'user', content: { type: 'text', text: `${name} ${args.who}` } }]
+        })
+      };
+      promptHandler = new MCPProtocolHandler(
+        { name: 'cursorcli-mcp-server', version: '1.0.0' },
+        registry,
+        new ToolExecutor(registry, { maxConcurrency: 3, timeoutMs: 1000 }),
+        undefined,
+        provider
+      );
+    });
+
+    it('プロンプトの提供元がある場合はpromptsのcapabilityを返却する', async () => {
+      const result = await promptHandler.initialize(initRequest);
+
+      expect(result.capabilities.prompts).toEqual({});
+      expect(result.capabilities.resources).toBeUndefined();
+    });
+
+    it('プロンプトの一覧と取得を提供元に委譲する', async () => {
+      await promptHandler.initialize(initRequest);
+
+      await expect(promptHandler.listPrompts()).resolves.toEqual({ prompts: [{ name: 'greet' }] });
+      await expect(
+        promptHandler.getPrompt({ name: 'greet', arguments: { who: 'world' } })
+      ).resolves.toEqual({
+        messages: [{ role: 'user', content: { type: 'text', text: 'greet world' } }]
+      });
+      await expect(
+        promptHandler.getPrompt({} as unknown as GetPromptRequest)
+      ).rejects.toThrow('name is required');
+    });
+  });
+
+  describe('ログレベル', () => {
+    it('未初期化の状態ではエラーをスローする', () => {
+      expect(() => handler.setLogLevel({ level: 'debug' })).toThrow('Server not initialized');
+    });
+
+    it('MCPのログレベル以外はValidationErrorをスローする', async () => {
+      await handler.initialize({
+        protocolVersion: '2024-11-05',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '1.0.0' }
+      });
+
+      expect(() => handler.setLogLevel({ level: 'warning' })).not.toThrow();
+      expect(() =>
+        handler.setLogLevel({ level: 'verbose' } as unknown as SetLevelRequest)
+      ).toThrow(expect.objectContaining({ name: 'ValidationError', field: 'level' }));
+    });
+  });
 });
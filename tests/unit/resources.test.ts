@@ -0,0 +1,161 @@
+/**
+ * FileResourceProvider のユニットテスト
+ *
+ * プロジェクト内のファイルの MCP リソースとしての一覧・読み取り・購読を確認する
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { pathToFileURL } from 'node:url';
+import { SecurityValidator } from '../../src/security/validator.js';
+import { FileOperationsTool } from '../../src/tools/file-operations.js';
+import { FileResourceProvider, RESOURCE_PAGE_SIZE } from '../../src/tools/resources.js';
+
+describe('FileResourceProvider', () => {
+  let testDir: string;
+  let provider: FileResourceProvider;
+
+  const uriOf = (relativePath: string) => pathToFileURL(path.join(testDir, relativePath)).href;
+
+  beforeEach(() => {
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'resources-test-')));
+    fs.mkdirSync(path.join(testDir, 'src'));
+    fs.mkdirSync(path.join(testDir, 'dist'));
+    fs.writeFileSync(path.join(testDir, 'README.md'), '# Hello\n');
+    fs.writeFileSync(path.join(testDir, 'src', 'index.ts'), 'export {};\n');
+    fs.writeFileSync(path.join(testDir, 'dist', 'index.js'), '');
+    fs.writeFileSync(path.join(testDir, '.gitignore'), 'dist/\n');
+    fs.writeFileSync(
+      path.join(testDir, 'logo.png'),
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00])
+    );
+
+    const validator = new SecurityValidator({ projectRoot: testDir });
+    provider = new FileResourceProvider(
+      new FileOperationsTool(validator, testDir),
+      validator,
+      testDir
+    );
+  });
+
+  afterEach(async () => {
+    await provider.close();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('一覧', () => {
+    it('プロジェクト内のファイルを file:/// URI で列挙する', async () => {
+      const result = await provider.listResources();
+
+      expect(result.resources).toEqual([
+        { uri: uriOf('README.md'), name: 'README.md', mimeType: 'text/markdown', size: 8 },
+        { uri: uriOf('logo.png'), name: 'logo.png', mimeType: 'image/png', size: 9 },
+        { uri: uriOf('src/index.ts'), name: 'src/index.ts', mimeType: 'text/x-typescript', size: 11 }
+      ]);
+      expect(result.nextCursor).toBeUndefined();
+    });
+
+    it('エントリ数がページサイズを超える場合は nextCursor で続きを取得できる', async () => {
+      for (let i = 0; i < RESOURCE_PAGE_SIZE; i++) {
+        fs.writeFileSync(path.join(testDir, 'src', `file-${String(i).padStart(4, '0')}.txt`), '');
+      }
+
+      const first = await provider.listResources();
+      const second = await provider.listResources(first.nextCursor);
+
+      expect(first.nextCursor).toBeDefined();
+      expect(second.nextCursor).toBeUndefined();
+      expect(first.resources.length + second.resources.length).toBe(RESOURCE_PAGE_SIZE + 3);
+    });
+
+    it('プロジェクトルート配下を指すURIテンプレートを返す', async () => {
+      const templates = await provider.listResourceTemplates();
+
+      expect(templates).toEqual([
+        expect.objectContaining({ uriTemplate: `${pathToFileURL(testDir).href}/{+path}` })
+      ]);
+    });
+  });
+
+  describe('読み取り', () => {
+    it('テキストファイルを text で返却する', async () => {
+      const contents = await provider.readResource(uriOf('README.md'));
+
+      expect(contents).toEqual([
+        { uri: uriOf('README.md'), mimeType: 'text/markdown', text: '# Hello\n' }
+      ]);
+    });
+
+    it('バイナリファイルを base64 の blob で返却する', async () => {
+      const contents = await provider.readResource(uriOf('logo.png'));
+
+      expect(contents).toEqual([
+        {
+          uri: uriOf('logo.png'),
+          mimeType: 'image/png',
+          blob: fs.readFileSync(path.join(testDir, 'logo.png')).toString('base64')
+        }
+      ]);
+    });
+
+    it('存在しないファイルは NotFoundError をスローする', async () => {
+      await expect(provider.readResource(uriOf('missing.txt'))).rejects.toMatchObject({
+        name: 'NotFoundError',
+        message: `Resource not found: ${uriOf('missing.txt')}`
+      });
+    });
+
+    it('ブロックされたファイルやプロジェクト外のファイルは SecurityError をスローする', async () => {
+      await expect(provider.readResource(uriOf('dist/index.js'))).rejects.toMatchObject({
+        name: 'SecurityError'
+      });
+      await expect(
+        provider.readResource(pathToFileURL(path.join(os.tmpdir(), 'outside.txt')).href)
+      ).rejects.toMatchObject({ name: 'SecurityError' });
+    });
+
+    it('file 以外のスキームは ValidationError をスローする', async () => {
+      await expect(provider.readResource('https://example.com/a.txt')).rejects.toMatchObject({
+        name: 'ValidationError'
+      });
+    });
+  });
+
+  describe('購読', () => {
+    /**
+     * 通知を待つ
+     */
+    const waitFor = async (updates: string[], count: number) => {
+      for (let i = 0; i < 300 && updates.length < count; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    };
+
+    it('購読中のファイルの変更を通知する', async () => {
+      const updates: string[] = [];
+      provider.onUpdated((uri) => updates.push(uri));
+
+      await provider.subscribe(uriOf('README.md'));
+      fs.writeFileSync(path.join(testDir, 'README.md'), '# Updated\n');
+      await waitFor(updates, 1);
+
+      expect(updates).toEqual([uriOf('README.md')]);
+    });
+
+    it('購読を解除したファイルの変更は通知しない', async () => {
+      const updates: string[] = [];
+      provider.onUpdated((uri) => updates.push(uri));
+
+      await provider.subscribe(uriOf('README.md'));
+      await provider.subscribe(uriOf('src/index.ts'));
+      await provider.unsubscribe(uriOf('README.md'));
+      fs.writeFileSync(path.join(testDir, 'README.md'), '# Updated\n');
+      fs.writeFileSync(path.join(testDir, 'src', 'index.ts'), 'export const a = 1;\n');
+      await waitFor(updates, 1);
+
+      expect(updates).toEqual([uriOf('src/index.ts')]);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Destructive Operation Guard のユニットテスト
+ *
+ * security.allowDestructiveOperations と確認トークンによる破壊的操作の制御
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { DestructiveOperationGuard } from '../../src/security/confirmation';
+import { SecurityValidator } from '../../src/security/validator';
+import { ToolExecutor } from '../../src/protocol/executor';
+import { ToolRegistry } from '../../src/protocol/registry';
+import { BusinessRuleViolationError } from '../../src/errors';
+import {
+  FileOperationsTool,
+  ProjectManagementTool,
+  registerFileOperationsTools
+} from '../../src/tools';
+
+describe('DestructiveOperationGuard', () => {
+  let guard: DestructiveOperationGuard;
+
+  beforeEach(() => {
+    guard = new DestructiveOperationGuard({ allowDestructiveOperations: false });
+  });
+
+  it('許可設定が有効な場合はトークンなしで認可する', () => {
+    guard.setAllowDestructiveOperations(true);
+
+    expect(() => guard.authorize('write_file', { path: 'a.txt' })).not.toThrow();
+  });
+
+  it('許可設定が無効な場合はトークンなしの実行を拒否する', () => {
+    expect(() => guard.authorize('write_file', { path: 'a.txt' })).toThrow(
+      BusinessRuleViolationError
+    );
+  });
+
+  it('発行したトークンは一度だけ使用できる', () => {
+    const { token } = guard.issueToken('write_file', { path: 'a.txt' });
+
+    expect(() => guard.authorize('write_file', { path: 'a.txt' }, token)).not.toThrow();
+    expect(() => guard.authorize('write_file', { path: 'a.txt' }, token)).toThrow(
+      'Invalid or expired confirmation token'
+    );
+  });
+
+  it('異なるツールやパラメータにはトークンを使用できない', () => {
+    const { token } = guard.issueToken('write_file', { path: 'a.txt' });
+
+    expect(() => guard.authorize('write_file', { path: 'b.txt' }, token)).toThrow(
+      'Invalid or expired confirmation token'
+    );
+    expect(() => guard.authorize('delete_file', { path: 'a.txt' }, token)).toThrow(
+      'Invalid or expired confirmation token'
+    );
+  });
+
+  it('有効期限切れのトークンは拒否する', () => {
+    guard = new DestructiveOperationGuard({ allowDestructiveOperations: false, tokenTtlMs: -1 });
+    const { token } = guard.issueToken('write_file', { path: 'a.txt' });
+
+    expect(() => guard.authorize('write_file', { path: 'a.txt' }, token)).toThrow(
+      'Invalid or expired confirmation token'
+    );
+  });
+});
+
+describe('ToolExecutor の破壊的操作の確認', () => {
+  let registry: ToolRegistry;
+  let executor: ToolExecutor;
+  let executed: Array<Record<string, unknown>>;
+
+  const confirmationOf = (text: string) =>
+    JSON.parse(text) as { dryRun: boolean; confirmationToken: string; expiresAt: string };
+
+  beforeEach(() => {
+    executed = [];
+    registry = new ToolRegistry();
+    registry.register({
+      name: 'remove',
+      description: '削除ツール',
+      schema: z.object({ path: z.string() }),
+      destructive: true,
+      handler: async (params) => {
+        executed.push(params);
+        return { content: [{ type: 'text', text: 'removed' }] };
+      }
+    });
+    registry.register({
+      name: 'edit',
+      description: 'ドライラン対応の編集ツール',
+      schema: z.object({ path: z.string(), dryRun: z.boolean().optional() }),
+      destructive: true,
+      handler: async (params) => {
+        executed.push(params);
+        return { content: [{ type: 'text', text: params.dryRun ? 'preview' : 'edited' }] };
+      }
+    });
+    registry.register({
+      name: 'save',
+      description: '上書き時のみ破壊的なツール',
+      schema: z.object({ overwrite: z.boolean().optional() }),
+      destructive: (params) => params.overwrite !== false,
+      handler: async () => ({ content: [{ type: 'text', text: 'saved' }] })
+    });
+
+    executor = new ToolExecutor(
+      registry,
+      { maxConcurrency: 3, timeoutMs: 1000 },
+      new DestructiveOperationGuard({ allowDestructiveOperations: false })
+    );
+  });
+
+  it('確認トークンなしの破壊的操作はBusinessRuleViolationErrorで拒否される', async () => {
+    const error = await executor.execute('remove', { path: 'a.txt' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BusinessRuleViolationError);
+    expect((error as BusinessRuleViolationError).ruleId).toBe('DESTRUCTIVE_OPERATION_NOT_CONFIRMED');
+    expect(executed).toHaveLength(0);
+  });
+
+  it('ドライランで発行されたトークンで実行できる', async () => {
+    const dryRun = await executor.execute('remove', { path: 'a.txt', dryRun: true });
+    const { confirmationToken } = confirmationOf((dryRun.content[0] as { text: string }).text);
+    expect(executed).toHaveLength(0);
+
+    const result = await executor.execute('remove', { path: 'a.txt', confirmationToken });
+
+    expect(result.content[0]).toEqual({ type: 'text', text: 'removed' });
+    expect(executed).toEqual([{ path: 'a.txt' }]);
+  });
+
+  it('ドライラン対応のツールはプレビュー結果に確認トークンを添える', async () => {
+    const dryRun = await executor.execute('edit', { path: 'a.txt', dryRun: true });
+
+    expect(dryRun.content[0]).toEqual({ type: 'text', text: 'preview' });
+    const { confirmationToken } = confirmationOf((dryRun.content[1] as { text: string }).text);
+
+    const result = await executor.execute('edit', { path: 'a.txt', confirmationToken });
+    expect(result.content[0]).toEqual({ type: 'text', text: 'edited' });
+  });
+
+  it('パラメータに応じて破壊的かどうかを判定する', async () => {
+    await expect(executor.execute('save', { overwrite: false })).resolves.toBeDefined();
+    await expect(executor.execute('save', {})).rejects.toBeInstanceOf(BusinessRuleViolationError);
+  });
+
+  it('破壊的でない呼び出しでもドライランでは実行しない', async () => {
+    const dryRun = await executor.execute('save', { overwrite: false, dryRun: true });
+
+    expect(JSON.parse((dryRun.content[0] as { text: string }).text)).toEqual({
+      dryRun: true,
+      confirmationRequired: false
+    });
+  });
+
+  it('破壊的ツールの定義に確認用パラメータとヒントが含まれる', () => {
+    const definition = registry.list().find((tool) => tool.name === 'remove');
+
+    expect(definition?.annotations).toEqual({ destructiveHint: true });
+    expect(definition?.inputSchema.properties).toHaveProperty('dryRun');
+    expect(definition?.inputSchema.properties).toHaveProperty('confirmationToken');
+  });
+});
+
+describe('ファイル操作ツールの破壊的操作の判定', () => {
+  let testDir: string;
+  let validator: SecurityValidator;
+  let fileOps: FileOperationsTool;
+  let executor: ToolExecutor;
+
+  const textOf = (result: { content: Array<{ type: string; text?: string }> }) =>
+    result.content[0].text ?? '';
+
+  const confirmed = async (toolName: string, params: Record<string, unknown>) => {
+    const dryRun = await executor.execute(toolName, { ...params, dryRun: true });
+    const { confirmationToken } = JSON.parse(textOf(dryRun)) as { confirmationToken: string };
+    return executor.execute(toolName, { ...params, confirmationToken });
+  };
+
+  beforeEach(() => {
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'confirmation-test-')));
+    fs.writeFileSync(path.join(testDir, 'existing.txt'), 'original');
+    fs.writeFileSync(path.join(testDir, 'other.txt'), 'other');
+
+    const registry = new ToolRegistry();
+    validator = new SecurityValidator({ projectRoot: testDir });
+    fileOps = registerFileOperationsTools(registry, validator, testDir);
+    executor = new ToolExecutor(
+      registry,
+      { maxConcurrency: 3, timeoutMs: 1000 },
+      new DestructiveOperationGuard({ allowDestructiveOperations: false })
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('write_file は新規作成であれば確認トークンなしで実行できる', async () => {
+    const result = await executor.execute('write_file', { path: 'new.txt', content: 'new' });
+
+    expect(result.isError).toBeUndefined();
+    expect(fs.readFileSync(path.join(testDir, 'new.txt'), 'utf-8')).toBe('new');
+  });
+
+  it('確認が不要な呼び出しでもドライランではファイルを変更しない', async () => {
+    const written = await executor.execute('write_file', {
+      path: 'new.txt',
+      content: 'new',
+      dryRun: true
+    });
+    const copied = await executor.execute('copy_path', {
+      source: 'other.txt',
+      destination: 'copied.txt',
+      dryRun: true
+    });
+    const moved = await executor.execute('move_path', {
+      source: 'other.txt',
+      destination: 'moved.txt',
+      dryRun: true
+    });
+
+    for (const result of [written, copied, moved]) {
+      expect(JSON.parse(textOf(result))).toEqual({ dryRun: true, confirmationRequired: false });
+    }
+    expect(fs.readdirSync(testDir).sort()).toEqual(['existing.txt', 'other.txt']);
+  });
+
+  it('write_file で既存ファイルを上書きする場合は確認トークンを要求する', async () => {
+    await expect(
+      executor.execute('write_file', { path: 'existing.txt', content: 'overwritten' })
+    ).rejects.toBeInstanceOf(BusinessRuleViolationError);
+    expect(fs.readFileSync(path.join(testDir, 'existing.txt'), 'utf-8')).toBe('original');
+  });
+
+  it('ゴミ箱への移動も確認トークンを要求する', async () => {
+    await expect(
+      executor.execute('delete_path', { path: 'existing.txt', trash: true })
+    ).rejects.toBeInstanceOf(BusinessRuleViolationError);
+    expect(fs.existsSync(path.join(testDir, 'existing.txt'))).toBe(true);
+
+    const deleted = await confirmed('delete_path', { path: 'existing.txt', trash: true });
+
+    expect(deleted.isError).toBeUndefined();
+    expect(fs.existsSync(path.join(testDir, 'existing.txt'))).toBe(false);
+  });
+
+  it('移動元のパスへの書き込みは確認トークンを要求する', async () => {
+    await executor.execute('move_path', { source: 'existing.txt', destination: 'moved.txt' });
+
+    await expect(
+      executor.execute('write_file', { path: 'existing.txt', content: 'replaced' })
+    ).rejects.toBeInstanceOf(BusinessRuleViolationError);
+    await expect(
+      executor.execute('write_file', { path: 'unrelated.txt', content: 'new' })
+    ).resolves.toBeDefined();
+  });
+
+  it('確認して再作成した移動元のパスは、以降の書き込みで移動元として扱わない', async () => {
+    await executor.execute('move_path', { source: 'existing.txt', destination: 'moved.txt' });
+    await confirmed('write_file', { path: 'existing.txt', content: 'recreated' });
+    fs.rmSync(path.join(testDir, 'existing.txt'));
+
+    const result = await executor.execute('write_file', { path: 'existing.txt', content: 'again' });
+
+    expect(result.isError).toBeUndefined();
+    expect(fileOps.wasRemoved('existing.txt')).toBe(false);
+    expect(fs.readFileSync(path.join(testDir, 'existing.txt'), 'utf-8')).toBe('again');
+  });
+
+  it('ゴミ箱の内容はツールから読み取り・コピー・検索できない', async () => {
+    const deleted = await confirmed('delete_path', { path: 'existing.txt', trash: true });
+    const { trashPath } = JSON.parse(textOf(deleted)) as { trashPath: string };
+
+    const read = await executor.execute('read_file', { path: trashPath });
+    const copied = await executor.execute('copy_path', {
+      source: trashPath,
+      destination: 'restored.txt'
+    });
+    const search = await new ProjectManagementTool(testDir, validator).searchContent({
+      query: 'original'
+    });
+
+    expect(read.isError).toBe(true);
+    expect(copied.isError).toBe(true);
+    expect(fs.existsSync(path.join(testDir, 'restored.txt'))).toBe(false);
+    expect(search.matches).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * マルチルートワークスペースのテスト
+ *
+ * 名前付きの複数ルート、`ルート名:相対パス` 形式のパス指定、
+ * いずれかのルート内であることの検証と、ツールからの利用を確認する
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { SecurityValidator } from '../../src/security/validator.js';
+import { FileOperationsTool } from '../../src/tools/file-operations.js';
+import { ProjectManagementTool } from '../../src/tools/project-management.js';
+
+describe('マルチルートワークスペース', () => {
+  let testDir: string;
+  let frontend: string;
+  let backend: string;
+  let validator: SecurityValidator;
+
+  beforeEach(() => {
+    testDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'multiroot-test-')));
+    frontend = path.join(testDir, 'frontend');
+    backend = path.join(testDir, 'backend');
+    fs.mkdirSync(path.join(frontend, 'src'), { recursive: true });
+    fs.mkdirSync(path.join(backend, 'src'), { recursive: true });
+    fs.mkdirSync(path.join(testDir, 'outside'), { recursive: true });
+
+    fs.writeFileSync(path.join(frontend, 'package.json'), JSON.stringify({ name: 'web' }));
+    fs.writeFileSync(path.join(frontend, 'src', 'app.ts'), 'export const app = 1;\n');
+    fs.writeFileSync(path.join(backend, 'go.mod'), 'module example.com/api\n');
+    fs.writeFileSync(path.join(backend, 'src', 'main.go'), 'package main\n');
+
+    validator = new SecurityValidator({
+      projectRoot: frontend,
+      blockedPatterns: ['secrets/**'],
+      roots: [{ name: 'api', path: '../backend' }]
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('SecurityValidator', () => {
+    it('プロジェクトルートを先頭に名前付きのルートを返す', () => {
+      expect(validator.getRoots()).toEqual([
+        { name: 'frontend', path: frontend },
+        { name: 'api', path: backend }
+      ]);
+    });
+
+    it('ルート名:相対パス 形式のパスを該当するルートから解決する', () => {
+      expect(validator.sanitizePath('api:src/main.go')).toBe(path.join(backend, 'src', 'main.go'));
+      expect(validator.sanitizePath('frontend:src/app.ts')).toBe(
+        path.join(frontend, 'src', 'app.ts')
+      );
+      expect(validator.sanitizePath('src/app.ts')).toBe(path.join(frontend, 'src', 'app.ts'));
+    });
+
+    it('未知のルート名の接頭辞は通常のパスとして扱う', () => {
+      expect(validator.sanitizePath('unknown:file.ts')).toBe(path.join(frontend, 'unknown:file.ts'));
+    });
+
+    it('いずれかのルート内のパスを許可し、ルート外のパスを拒否する', () => {
+      expect(validator.validatePath(path.join(backend, 'src', 'main.go')).ok).toBe(true);
+      expect(validator.validatePath('api:src/main.go').ok).toBe(true);
+
+      const outside = validator.validatePath(path.join(testDir, 'outside', 'x.txt'));
+      expect(outside.ok).toBe(false);
+      if (!outside.ok) {
+        expect(outside.error.code).toBe('OUTSIDE_PROJECT_ROOT');
+        expect(outside.error.message).toContain('frontend, api');
+      }
+
+      const traversal = validator.validatePath('api:../outside/x.txt');
+      expect(traversal.ok).toBe(false);
+      if (!traversal.ok) {
+        expect(traversal.error.code).toBe('PATH_TRAVERSAL');
+      }
+    });
+
+    it('ブロックパターンはパスを含むルートからの相対パスに適用する', () => {
+      const result = validator.validatePath('api:secrets/token.txt');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('BLOCKED_PATTERN');
+      }
+    });
+
+    it('パスを含むルートを取得できる', () => {
+      expect(validator.getRootFor(path.join(backend, 'src'))?.name).toBe('api');
+      expect(validator.getRootFor('src/app.ts')?.name).toBe('frontend');
+      expect(validator.getRootFor(path.join(testDir, 'outside'))).toBeUndefined();
+    });
+
+    it('プロジェクトルートと同じパスのルートでプロジェクトルートの名前を変更できる', () => {
+      const renamed = new SecurityValidator({
+        projectRoot: frontend,
+        roots: [
+          { name: 'web', path: '.' },
+          { name: 'api', path: backend }
+        ]
+      });
+
+      expect(renamed.getRoots().map(root => root.name)).toEqual(['web', 'api']);
+    });
+
+    it('重複または不正なルート名を拒否する', () => {
+      expect(
+        () =>
+          new SecurityValidator({
+            projectRoot: frontend,
+            roots: [{ name: 'frontend', path: backend }]
+          })
+      ).toThrow('Duplicate workspace root name: frontend');
+      expect(
+        () =>
+          new SecurityValidator({
+            projectRoot: frontend,
+            roots: [{ name: 'a:b', path: backend }]
+          })
+      ).toThrow('Invalid workspace root name: a:b');
+    });
+  });
+
+  describe('ツールからの利用', () => {
+    it('ファイル操作でルート名:相対パス 形式のパスを使用できる', async () => {
+      const fileOps = new FileOperationsTool(validator, frontend);
+
+      const read = await fileOps.readFile({ path: 'api:src/main.go' });
+      expect(read.content).toBe('package main\n');
+
+      const written = await fileOps.writeFile({
+        path: 'api:src/main.go',
+        content: 'package main\n\nfunc main() {}\n',
+        backup: true
+      });
+      expect(written.backupPath).toBe(
+        path.join(frontend, '.cursorcli-mcp', 'backups', '_roots', 'api', 'src', 'main.go.bak')
+      );
+
+      await expect(fileOps.deletePath({ path: 'api:', recursive: true })).rejects.toThrow(
+        'Cannot delete the project root'
+      );
+    });
+
+    it('get_project_info がルートごとの情報を返す', async () => {
+      const tool = new ProjectManagementTool(frontend, validator);
+
+      const result = await tool.getProjectInfo();
+
+      expect(result.name).toBe('web');
+      expect(result.language).toBe('javascript');
+      expect(result.roots?.map(root => [root.name, root.info.name, root.info.language])).toEqual([
+        ['frontend', 'web', 'javascript'],
+        ['api', 'example.com/api', 'go']
+      ]);
+    });
+
+    it('ルート名で検索範囲を指定できる', async () => {
+      const tool = new ProjectManagementTool(frontend, validator);
+
+      const files = await tool.searchFiles({ pattern: '**/*.go', workspace: 'api' });
+      const content = await tool.searchContent({ query: 'package', path: 'api:src' });
+
+      expect(files.files.map(f => f.path)).toEqual([path.join(backend, 'src', 'main.go')]);
+      expect(content.matches.map(m => m.path)).toEqual([path.join(backend, 'src', 'main.go')]);
+    });
+  });
+});
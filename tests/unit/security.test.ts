@@ -235,4 +235,49 @@ describe('SecurityValidator', () => {
       expect(validator.isWithinProjectRoot('../outside')).toBe(false);
     });
   });
+
+  describe('許可ディレクトリ', () => {
+    beforeEach(() => {
+      validator = new SecurityValidator({
+        projectRoot,
+        allowedDirectories: ['packages/app-*', 'docs']
+      });
+    });
+
+    it('許可ディレクトリ配下のパスを許可する', () => {
+      expect(validator.validatePath('packages/app-web/src/index.ts').ok).toBe(true);
+      expect(validator.validatePath('packages/app-web').ok).toBe(true);
+      expect(validator.validatePath(path.join(projectRoot, 'docs/guide.md')).ok).toBe(true);
+    });
+
+    it('許可ディレクトリ外のパスはNOT_IN_ALLOWED_DIRECTORYで拒否する', () => {
+      const result = validator.validatePath('infra/terraform/main.tf');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('NOT_IN_ALLOWED_DIRECTORY');
+      }
+      expect(validator.validatePath('packages/lib-core/index.ts').ok).toBe(false);
+      expect(validator.validatePath('docs-internal/secret.md').ok).toBe(false);
+    });
+
+    it('許可ディレクトリが空の場合は制限しない', () => {
+      const unrestricted = new SecurityValidator({ projectRoot, allowedDirectories: [] });
+
+      expect(unrestricted.validatePath('infra/terraform/main.tf').ok).toBe(true);
+    });
+
+    it('許可ディレクトリの祖先は走査のみ許可する', () => {
+      expect(validator.canTraverse(projectRoot)).toBe(true);
+      expect(validator.canTraverse('packages')).toBe(true);
+      expect(validator.canTraverse('packages/app-web')).toBe(true);
+      expect(validator.canTraverse('packages/lib-core')).toBe(false);
+      expect(validator.canTraverse('infra')).toBe(false);
+      expect(validator.validatePath('packages').ok).toBe(false);
+    });
+
+    it('プロジェクトルート外は祖先であっても走査を許可しない', () => {
+      expect(validator.canTraverse('/home')).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,119 @@
+/**
+ * Server Stats Tool のユニットテスト
+ *
+ * Requirements:
+ * - 8.1: ツール実行時間の計測
+ * - 8.2: 並行実行数と待機数の把握
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { z } from 'zod';
+import { ExecutionMetrics } from '../../src/protocol/metrics';
+import { ToolExecutor } from '../../src/protocol/executor';
+import { ToolRegistry } from '../../src/protocol/registry';
+import { ServerStatsTool } from '../../src/tools/server-stats';
+import { ErrorCode, ValidationError } from '../../src/errors';
+
+describe('ExecutionMetrics', () => {
+  let metrics: ExecutionMetrics;
+
+  beforeEach(() => {
+    metrics = new ExecutionMetrics();
+  });
+
+  it('ツール別の呼び出し数とエラー数を集計する', () => {
+    metrics.record('read_file', 10);
+    metrics.record('read_file', 20, new ValidationError('bad'));
+    metrics.record('search_files', 30, true);
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.totalCalls).toBe(3);
+    expect(snapshot.totalErrors).toBe(2);
+    expect(snapshot.tools.read_file).toMatchObject({ calls: 2, errors: 1 });
+    expect(snapshot.tools.search_files).toMatchObject({ calls: 1, errors: 1 });
+  });
+
+  it('スローされたエラーをErrorCode別に集計する', () => {
+    metrics.record('read_file', 1, new ValidationError('bad'));
+    metrics.record('read_file', 1, new Error('unexpected'));
+    metrics.record('read_file', 1, true);
+
+    expect(metrics.snapshot().errorsByCode).toEqual({
+      [ErrorCode.VALIDATION_ERROR]: 1,
+      [ErrorCode.INTERNAL_ERROR]: 1
+    });
+  });
+
+  it('レイテンシのp50/p95/p99を計算する', () => {
+    for (let i = 1; i <= 100; i++) {
+      metrics.record('read_file', i);
+    }
+
+    expect(metrics.snapshot().latencyMs).toEqual({ p50: 50, p95: 95, p99: 99 });
+    expect(metrics.snapshot().tools.read_file.latencyMs.p99).toBe(99);
+  });
+
+  it('記録がない場合のレイテンシは0を返す', () => {
+    expect(metrics.snapshot().latencyMs).toEqual({ p50: 0, p95: 0, p99: 0 });
+  });
+});
+
+describe('ServerStatsTool', () => {
+  let registry: ToolRegistry;
+  let executor: ToolExecutor;
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+    registry.register({
+      name: 'echo',
+      description: 'エコーツール',
+      schema: z.object({ value: z.string() }),
+      handler: async (params) => ({ content: [{ type: 'text', text: params.value }] })
+    });
+    executor = new ToolExecutor(registry, { maxConcurrency: 2, timeoutMs: 1000, maxQueueSize: 5 });
+  });
+
+  it('稼働時間・実行統計・設定読み込み時間・メモリ使用量を返却する', async () => {
+    await executor.execute('echo', { value: 'a' });
+    await expect(executor.execute('echo', {})).rejects.toBeInstanceOf(ValidationError);
+
+    const startedAt = new Date(Date.now() - 1000);
+    const tool = new ServerStatsTool({
+      getStartedAt: () => startedAt,
+      getExecutorStats: () => executor.getStats(),
+      getConfigLoadStats: () => ({ loadedAt: startedAt.toISOString(), durationMs: 3 })
+    });
+
+    const stats = tool.getServerStats();
+
+    expect(stats.startedAt).toBe(startedAt.toISOString());
+    expect(stats.uptimeMs).toBeGreaterThanOrEqual(1000);
+    expect(stats.execution).toMatchObject({
+      activeCount: 0,
+      queuedCount: 0,
+      maxConcurrency: 2,
+      maxQueueSize: 5,
+      totalCalls: 2,
+      totalErrors: 1,
+      errorsByCode: { [ErrorCode.VALIDATION_ERROR]: 1 }
+    });
+    expect(stats.execution?.tools.echo.calls).toBe(2);
+    expect(stats.config?.durationMs).toBe(3);
+    expect(stats.memory.heapUsed).toBeGreaterThan(0);
+  });
+
+  it('起動前は稼働時間0と空の統計を返却する', () => {
+    const tool = new ServerStatsTool({
+      getStartedAt: () => null,
+      getExecutorStats: () => null,
+      getConfigLoadStats: () => null
+    });
+
+    const stats = tool.getServerStats();
+
+    expect(stats.startedAt).toBeNull();
+    expect(stats.uptimeMs).toBe(0);
+    expect(stats.execution).toBeNull();
+    expect(stats.config).toBeNull();
+  });
+});
@@ -166,6 +166,32 @@ describe('StdioTransport', () => {
       mockStdin.push('invalid json\n');
     });
 
+    it('不正なJSONにはPARSE_ERRORレスポンスを返却する', async () => {
+      transport.onError(() => {});
+
+      mockStdin.push('invalid json\n');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(outputData).toHaveLength(1);
+      const response = JSON.parse(outputData[0]);
+      expect(response.id).toBeNull();
+      expect(response.error.code).toBe(-32700);
+    });
+
+    it('JSON配列はバッチとして通知される', (done) => {
+      const batch = [
+        { jsonrpc: '2.0', id: 1, method: 'a' },
+        { jsonrpc: '2.0', id: 2, method: 'b' }
+      ];
+
+      transport.onBatch((messages: unknown[]) => {
+        expect(messages).toEqual(batch);
+        done();
+      });
+
+      mockStdin.push(JSON.stringify(batch) + '\n');
+    });
+
     it('不完全なメッセージはバッファリングされる', (done) => {
       const message: JSONRPCMessage = {
         jsonrpc: '2.0',
@@ -4,12 +4,20 @@
  * Requirements:
  * - 5.4: 同時に複数のツール呼び出しリクエストを受信した際、各リクエストを独立して処理
  * - 8.1: ツール実行時間が5秒を超過した場合、タイムアウトエラーを返却
- * - 8.2: 同時接続数が設定された最大値に達した場合、新規接続を拒否
+ * - 8.2: 同時接続数が設定された最大値に達した場合、新規接続を拒否（待機キューが満杯の場合）
+ * - キャンセル: AbortSignalによるツール実行の中断
  */
 
 import { describe, it, expect, beforeEach } from '@jest/globals';
 import { ToolExecutor } from '../../src/protocol/executor';
-import { ToolRegistry } from '../../src/protocol/registry';
+import { ToolRegistry, ToolPriority } from '../../src/protocol/registry';
+import {
+  CancelledError,
+  NotFoundError,
+  ResourceExhaustedError,
+  TimeoutError,
+  ValidationError
+} from '../../src/errors';
 import { z } from 'zod';
 
 describe('ToolExecutor', () => {
@@ -73,6 +81,15 @@ describe('ToolExecutor', () => {
       ).rejects.toThrow('Tool not found: non_existent');
     });
 
+    it('エラーはMCPErrorの各サブクラスとしてスローされる', async () => {
+      await expect(
+        executor.execute('non_existent', {})
+      ).rejects.toBeInstanceOf(NotFoundError);
+      await expect(
+        executor.execute('echo', { invalid: 'param' })
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+
     it('無効化されたツールを実行しようとするとエラーをスローする', async () => {
       // ツールを無効化
       registry.disable('echo');
@@ -130,6 +147,146 @@ describe('ToolExecutor', () => {
         executor.execute('slow_tool', { delay: 2000 })
       ).rejects.toThrow(/timeout|exceeded/i);
     }, 3000);
+
+    it('タイムアウトはTimeoutErrorとしてスローされる', async () => {
+      await expect(
+        executor.execute('slow_tool', { delay: 2000 })
+      ).rejects.toBeInstanceOf(TimeoutError);
+    }, 3000);
+
+    it('タイムアウト後もハンドラーが完了するまで実行枠を解放しない', async () => {
+      const single = new ToolExecutor(registry, {
+        maxConcurrency: 1,
+        timeoutMs: 50,
+        queueTimeoutMs: 1000
+      });
+      let running = 0;
+      let maxRunning = 0;
+      registry.register({
+        name: 'ignores_signal',
+        description: 'signalを確認しないツール',
+        schema: z.object({ delay: z.number() }),
+        handler: async (params) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise(resolve => setTimeout(resolve, params.delay));
+          running--;
+          return { content: [{ type: 'text', text: 'done' }] };
+        }
+      });
+
+      await expect(
+        single.execute('ignores_signal', { delay: 200 })
+      ).rejects.toBeInstanceOf(TimeoutError);
+      const result = await single.execute('ignores_signal', { delay: 0 });
+
+      expect(result.content[0]).toEqual({ type: 'text', text: 'done' });
+      expect(maxRunning).toBe(1);
+    });
+
+    it('完了しないハンドラーは猶予期間の経過後に実行枠を解放し、orphaned として数える', async () => {
+      const single = new ToolExecutor(registry, {
+        maxConcurrency: 1,
+        timeoutMs: 50,
+        queueTimeoutMs: 1000,
+        abortGracePeriodMs: 100
+      });
+      registry.register({
+        name: 'never_settles',
+        description: '完了しないツール',
+        schema: z.object({}),
+        handler: () => new Promise(() => undefined)
+      });
+      registry.register({
+        name: 'quick',
+        description: 'すぐに完了するツール',
+        schema: z.object({}),
+        handler: async () => ({ content: [{ type: 'text', text: 'done' }] })
+      });
+
+      await expect(single.execute('never_settles', {})).rejects.toBeInstanceOf(TimeoutError);
+      expect(single.getStats()).toMatchObject({ activeCount: 1, orphanedCount: 0 });
+
+      const result = await single.execute('quick', {});
+
+      expect(result.content[0]).toEqual({ type: 'text', text: 'done' });
+      expect(single.getStats()).toMatchObject({ activeCount: 0, orphanedCount: 1 });
+    });
+  });
+
+  describe('キャンセル', () => {
+    let received: AbortSignal | undefined;
+
+    beforeEach(() => {
+      received = undefined;
+
+      registry.register({
+        name: 'abortable_tool',
+        description: 'キャンセル可能なツール',
+        schema: z.object({}),
+        handler: (_params, signal) => {
+          received = signal;
+          return new Promise((resolve, reject) => {
+            const timer = setTimeout(
+              () => resolve({ content: [{ type: 'text', text: 'done' }] }),
+              2000
+            );
+            signal?.addEventListener('abort', () => {
+              clearTimeout(timer);
+              reject(signal.reason);
+            });
+          });
+        }
+      });
+    });
+
+    it('外部のsignalがabortされるとCancelledErrorで拒否される', async () => {
+      const controller = new AbortController();
+      const promise = executor.execute('abortable_tool', {}, controller.signal);
+
+      // ツールの起動を待ってからキャンセルする
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(CancelledError);
+      expect(received?.aborted).toBe(true);
+    });
+
+    it('abort済みのsignalではツールを実行しない', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        executor.execute('abortable_tool', {}, controller.signal)
+      ).rejects.toBeInstanceOf(CancelledError);
+      expect(received).toBeUndefined();
+    });
+
+    it('タイムアウト時にツールへ渡したsignalがabortされる', async () => {
+      await expect(
+        executor.execute('abortable_tool', {})
+      ).rejects.toBeInstanceOf(TimeoutError);
+
+      expect(received?.aborted).toBe(true);
+      expect(received?.reason).toBeInstanceOf(TimeoutError);
+    }, 3000);
+
+    it('キャンセル後はセマフォが解放される', async () => {
+      const controllers = [new AbortController(), new AbortController(), new AbortController()];
+      const promises = controllers.map((c) => executor.execute('abortable_tool', {}, c.signal));
+
+      controllers.forEach((c) => c.abort());
+      await Promise.allSettled(promises);
+
+      registry.register({
+        name: 'quick_tool',
+        description: '即座に完了するツール',
+        schema: z.object({}),
+        handler: async () => ({ content: [{ type: 'text', text: 'ok' }] })
+      });
+      const result = await executor.execute('quick_tool', {});
+      expect(result.content[0]).toEqual({ type: 'text', text: 'ok' });
+    });
   });
 
   describe('並行実行制御', () => {
@@ -167,22 +324,129 @@ describe('ToolExecutor', () => {
       expect((results[2].content[0] as any).text).toBe('result-3');
     });
 
-    it('最大並行数を超えるリクエストは即座に拒否される', async () => {
-      // 3つの長時間実行タスクを開始（最大並行数=3）
-      const longRunningPromises = [
-        executor.execute('concurrent_tool', { id: 1, delay: 500 }),
-        executor.execute('concurrent_tool', { id: 2, delay: 500 }),
-        executor.execute('concurrent_tool', { id: 3, delay: 500 })
+    it('最大並行数を超えるリクエストは実行枠の空きを待って実行される', async () => {
+      const promises = [1, 2, 3, 4, 5].map((id) =>
+        executor.execute('concurrent_tool', { id, delay: 100 })
+      );
+
+      expect(executor.getActiveCount()).toBe(3);
+      expect(executor.getQueuedCount()).toBe(2);
+
+      const results = await Promise.all(promises);
+      expect(results.map((r: any) => r.content[0].text)).toEqual([
+        'result-1',
+        'result-2',
+        'result-3',
+        'result-4',
+        'result-5'
+      ]);
+      expect(executor.getActiveCount()).toBe(0);
+    });
+
+    it('待機キューが満杯の場合はResourceExhaustedErrorで即座に拒否される', async () => {
+      executor = new ToolExecutor(registry, {
+        maxConcurrency: 1,
+        timeoutMs: 1000,
+        maxQueueSize: 1
+      });
+
+      const running = [
+        executor.execute('concurrent_tool', { id: 1, delay: 200 }),
+        executor.execute('concurrent_tool', { id: 2, delay: 50 })
       ];
 
-      // 4つ目のリクエストは即座にエラーをスローする（Requirement 8.2）
+      const error = await executor
+        .execute('concurrent_tool', { id: 3, delay: 50 })
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(ResourceExhaustedError);
+      expect((error as ResourceExhaustedError).message).toMatch(/maximum concurrent executions/i);
+      expect((error as ResourceExhaustedError).currentUsage).toBe(1);
+      expect((error as ResourceExhaustedError).limit).toBe(1);
+
+      // 既存のタスクは正常に完了する
+      const results = await Promise.all(running);
+      expect(results).toHaveLength(2);
+    });
+
+    it('maxQueueSizeが0の場合は待機せずに拒否される', async () => {
+      executor = new ToolExecutor(registry, {
+        maxConcurrency: 1,
+        timeoutMs: 1000,
+        maxQueueSize: 0
+      });
+
+      const running = executor.execute('concurrent_tool', { id: 1, delay: 100 });
+
       await expect(
-        executor.execute('concurrent_tool', { id: 4, delay: 100 })
-      ).rejects.toThrow(/maximum concurrent executions/i);
+        executor.execute('concurrent_tool', { id: 2, delay: 100 })
+      ).rejects.toBeInstanceOf(ResourceExhaustedError);
+      await running;
+    });
 
-      // 既存の3つのタスクは正常に完了する
-      const results = await Promise.all(longRunningPromises);
-      expect(results).toHaveLength(3);
+    it('待機時間がqueueTimeoutMsを超えるとTimeoutErrorで拒否される', async () => {
+      executor = new ToolExecutor(registry, {
+        maxConcurrency: 1,
+        timeoutMs: 1000,
+        queueTimeoutMs: 50
+      });
+
+      const running = executor.execute('concurrent_tool', { id: 1, delay: 300 });
+
+      await expect(
+        executor.execute('concurrent_tool', { id: 2, delay: 10 })
+      ).rejects.toBeInstanceOf(TimeoutError);
+      expect(executor.getQueuedCount()).toBe(0);
+      await running;
+    });
+
+    it('待機中のリクエストは優先度の高い順に実行される', async () => {
+      executor = new ToolExecutor(registry, {
+        maxConcurrency: 1,
+        timeoutMs: 1000
+      });
+
+      const order: string[] = [];
+      for (const [name, priority] of [
+        ['low_tool', ToolPriority.LOW],
+        ['high_tool', ToolPriority.HIGH]
+      ] as const) {
+        registry.register({
+          name,
+          description: name,
+          schema: z.object({}),
+          priority,
+          handler: async () => {
+            order.push(name);
+            return { content: [{ type: 'text', text: name }] };
+          }
+        });
+      }
+
+      const running = executor.execute('concurrent_tool', { id: 1, delay: 100 });
+      const queued = [
+        executor.execute('low_tool', {}),
+        executor.execute('high_tool', {})
+      ];
+
+      await Promise.all([running, ...queued]);
+      expect(order).toEqual(['high_tool', 'low_tool']);
+    });
+
+    it('待機中にキャンセルされたリクエストはキューから取り除かれる', async () => {
+      executor = new ToolExecutor(registry, {
+        maxConcurrency: 1,
+        timeoutMs: 1000
+      });
+
+      const controller = new AbortController();
+      const running = executor.execute('concurrent_tool', { id: 1, delay: 100 });
+      const queued = executor.execute('concurrent_tool', { id: 2, delay: 10 }, controller.signal);
+
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(CancelledError);
+      expect(executor.getQueuedCount()).toBe(0);
+      await running;
     });
 
     it('各リクエストは独立して処理される', async () => {
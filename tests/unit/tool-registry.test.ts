@@ -216,6 +216,45 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('許可リストの適用', () => {
+    beforeEach(() => {
+      const schema = z.object({});
+      const handler = async () => ({ content: [] });
+
+      for (const name of ['read_file', 'write_file', 'editor_open', 'editor_insert']) {
+        registry.register({ name, schema, handler });
+      }
+    });
+
+    it('許可リストに含まれないツールを無効化する', () => {
+      const changed = registry.applyAllowList(['read_file']);
+
+      expect(changed).toBe(true);
+      expect(registry.isEnabled('read_file')).toBe(true);
+      expect(registry.isEnabled('write_file')).toBe(false);
+      expect(registry.list().map((t) => t.name)).toEqual(['read_file']);
+    });
+
+    it('globパターンでツールを許可できる', () => {
+      registry.applyAllowList(['editor_*']);
+
+      expect(registry.isEnabled('editor_open')).toBe(true);
+      expect(registry.isEnabled('editor_insert')).toBe(true);
+      expect(registry.isEnabled('read_file')).toBe(false);
+    });
+
+    it('再適用時に許可されたツールを有効化する', () => {
+      registry.applyAllowList(['read_file']);
+      registry.applyAllowList(['read_file', 'write_file']);
+
+      expect(registry.isEnabled('write_file')).toBe(true);
+    });
+
+    it('有効状態が変化しない場合はfalseを返す', () => {
+      expect(registry.applyAllowList(['*'])).toBe(false);
+    });
+  });
+
   describe('ツール登録解除', () => {
     beforeEach(() => {
       const schema = z.object({});
@@ -58,15 +58,39 @@ describe('File Operations Tools Integration', () => {
       expect(registry.isEnabled('list_directory')).toBe(true);
     });
 
-    it('ツール一覧に3つのツールが含まれる', () => {
+    it('ツール一覧に9つのツールが含まれる', () => {
       const tools = registry.list();
-      expect(tools).toHaveLength(3);
+      expect(tools).toHaveLength(9);
 
       const toolNames = tools.map(t => t.name);
       expect(toolNames).toContain('read_file');
       expect(toolNames).toContain('write_file');
+      expect(toolNames).toContain('edit_file');
+      expect(toolNames).toContain('apply_patch');
+      expect(toolNames).toContain('delete_path');
+      expect(toolNames).toContain('move_path');
+      expect(toolNames).toContain('copy_path');
+      expect(toolNames).toContain('create_directory');
       expect(toolNames).toContain('list_directory');
     });
+
+    it('ファイル管理ツールのうちcreate_directory以外は破壊的操作として公開される', () => {
+      const tools = registry.list();
+      const destructive = (name: string) =>
+        tools.find(t => t.name === name)?.annotations?.destructiveHint === true;
+
+      expect(destructive('delete_path')).toBe(true);
+      expect(destructive('move_path')).toBe(true);
+      expect(destructive('copy_path')).toBe(true);
+      expect(destructive('create_directory')).toBe(false);
+    });
+
+    it('edit_fileは破壊的操作としてドライランに対応する', () => {
+      const editFile = registry.list().find(t => t.name === 'edit_file');
+
+      expect(editFile?.annotations?.destructiveHint).toBe(true);
+      expect(editFile?.inputSchema.properties).toHaveProperty('dryRun');
+    });
   });
 
   describe('統合エラーハンドリング', () => {
@@ -209,6 +233,30 @@ describe('File Operations Tools Integration', () => {
     });
   });
 
+  describe('画像ファイルの読み取り', () => {
+    it('encoding: auto で画像を読み取るとimageコンテンツを返す', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+      await fs.writeFile(path.join(testDir, 'icon.png'), png);
+
+      const readTool = registry.get('read_file');
+      const result = await readTool!.handler({ path: 'icon.png', encoding: 'auto' });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0]).toEqual({
+        type: 'image',
+        data: png.toString('base64'),
+        mimeType: 'image/png'
+      });
+      expect(result.content[1].type).toBe('text');
+      if (result.content[1].type === 'text') {
+        const metadata = JSON.parse(result.content[1].text);
+        expect(metadata.content).toBeUndefined();
+        expect(metadata.isBinary).toBe(true);
+        expect(metadata.size).toBe(png.length);
+      }
+    });
+  });
+
   describe('ツールの有効化/無効化', () => {
     it('read_fileツールを無効化すると一覧に含まれない', () => {
       registry.disable('read_file');
@@ -0,0 +1,87 @@
+/**
+ * Workspace Discovery のユニットテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { findWorkspaceDirectories, readNxProjectName } from '../../src/tools/workspaces';
+import { IgnoreRules } from '../../src/tools/ignore-rules';
+
+describe('Workspace Discovery', () => {
+  let projectRoot: string;
+
+  const mkdirs = async (...dirs: string[]): Promise<void> => {
+    for (const dir of dirs) {
+      await fs.mkdir(path.join(projectRoot, dir), { recursive: true });
+    }
+  };
+
+  beforeEach(async () => {
+    projectRoot = path.join(process.cwd(), 'test-workspaces');
+    await fs.mkdir(projectRoot, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  describe('findWorkspaceDirectories', () => {
+    it('glob パターンに一致するディレクトリを名前順に返す', async () => {
+      await mkdirs('packages/b', 'packages/a', 'apps/web', 'docs');
+
+      const result = await findWorkspaceDirectories(projectRoot, {
+        tools: ['pnpm'],
+        packages: ['packages/*', './apps/web/']
+      });
+
+      expect(result).toEqual(['apps/web', 'packages/a', 'packages/b']);
+    });
+
+    it('! で始まるパターンに一致するディレクトリを除外する', async () => {
+      await mkdirs('packages/a', 'packages/legacy');
+
+      const result = await findWorkspaceDirectories(projectRoot, {
+        tools: ['npm'],
+        packages: ['packages/*', '!packages/legacy']
+      });
+
+      expect(result).toEqual(['packages/a']);
+    });
+
+    it('** パターンでネストしたディレクトリを探索し、node_modules と無視対象は探索しない', async () => {
+      await mkdirs('libs/ui/button', 'libs/node_modules/dep', 'libs/generated');
+      await fs.writeFile(path.join(projectRoot, '.gitignore'), 'generated/\n');
+
+      const result = await findWorkspaceDirectories(
+        projectRoot,
+        { tools: ['yarn'], packages: ['libs/**'] },
+        { ignoreRules: new IgnoreRules(projectRoot) }
+      );
+
+      expect(result).toEqual(['libs/ui', 'libs/ui/button']);
+    });
+
+    it('プロジェクトファイルの指定はそのディレクトリに置き換える', async () => {
+      await mkdirs('src/Api');
+
+      const result = await findWorkspaceDirectories(projectRoot, {
+        tools: ['dotnet'],
+        packages: ['src/Api/Api.csproj']
+      });
+
+      expect(result).toEqual(['src/Api']);
+    });
+
+    it('Nx を使用している場合は project.json を含むディレクトリを返す', async () => {
+      await mkdirs('apps/shop', 'apps/assets');
+      await fs.writeFile(path.join(projectRoot, 'apps', 'shop', 'project.json'), '{"name":"shop"}');
+
+      const result = await findWorkspaceDirectories(projectRoot, { tools: ['nx'], packages: [] });
+
+      expect(result).toEqual(['apps/shop']);
+      expect(await readNxProjectName(path.join(projectRoot, 'apps', 'shop'))).toBe('shop');
+      expect(await readNxProjectName(path.join(projectRoot, 'apps', 'assets'))).toBeUndefined();
+    });
+  });
+});